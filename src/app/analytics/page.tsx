@@ -0,0 +1,392 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { SummaryCard } from '@/components/ui/summary-card';
+import { LoadingSpinner } from '@/components/ui/loading';
+import { AccountFilter } from '@/components/ui/account-filter';
+import { DateRangeFilter } from '@/components/ui/date-range-filter';
+import { CorrelationMatrix } from '@/components/charts/correlation-matrix';
+import { FundsBreakdownChart } from '@/components/charts/funds-breakdown-chart';
+import { RollingReturnsTable } from '@/components/tables/rolling-returns-table';
+import { AnnualReturnsTable } from '@/components/tables/annual-returns-table';
+import type {
+  AccountSummary,
+  CorrelationResponse,
+  DateRange,
+  ReturnFrequency,
+  RollingReturnsResponse,
+  RollingWindowYears,
+  PortfolioResponse,
+  AnnualReturnBasis,
+  AnnualReturnsResponse,
+} from '@/types';
+import {
+  formatNumber,
+  buildGrowthIndex,
+  calculateRollingReturns,
+  summariseRollingReturns,
+  calculateAnnualReturns,
+  PORTFOLIO_KEY,
+} from '@/lib/utils';
+
+const FREQUENCIES: Array<{ value: ReturnFrequency; label: string }> = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+const ROLLING_WINDOWS: RollingWindowYears[] = [1, 3, 5];
+
+const ANNUAL_BASES: Array<{ value: AnnualReturnBasis; label: string }> = [
+  { value: 'calendar', label: 'Calendar Year' },
+  { value: 'tax', label: 'Tax Year' },
+];
+
+export default function AnalyticsPage() {
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [accountId, setAccountId] = useState<number | null>(null);
+  // Set by the date range filter once it's mounted
+  const [dateRange, setDateRange] = useState<DateRange | null>(null);
+  const [frequency, setFrequency] = useState<ReturnFrequency>('weekly');
+  const [threshold, setThreshold] = useState(0.8);
+  const [correlation, setCorrelation] = useState<CorrelationResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rollingYears, setRollingYears] = useState<RollingWindowYears>(3);
+  const [rolling, setRolling] = useState<RollingReturnsResponse | null>(null);
+  const [portfolio, setPortfolio] = useState<PortfolioResponse | null>(null);
+  const [annualBasis, setAnnualBasis] = useState<AnnualReturnBasis>('calendar');
+  const [annual, setAnnual] = useState<AnnualReturnsResponse | null>(null);
+
+  useEffect(() => {
+    fetch('/api/accounts')
+      .then((response) => (response.ok ? response.json() : { accounts: [] }))
+      .then((result) => setAccounts(result.accounts))
+      .catch((err) => console.warn('Failed to fetch accounts:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!dateRange) return;
+
+    async function fetchCorrelation(range: DateRange) {
+      try {
+        setLoading(true);
+        const query = new URLSearchParams({ frequency });
+        if (accountId !== null) query.set('account', String(accountId));
+        if (range.start) query.set('start', range.start);
+        if (range.end) query.set('end', range.end);
+        const response = await fetch(`/api/analytics/correlation?${query}`);
+        if (!response.ok) throw new Error('Failed to fetch fund correlations');
+        setCorrelation(await response.json());
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchCorrelation(dateRange);
+  }, [accountId, dateRange, frequency]);
+
+  // Rolling returns are supplementary - don't fail the page without them
+  useEffect(() => {
+    const query = new URLSearchParams({ years: String(rollingYears) });
+    if (accountId !== null) query.set('account', String(accountId));
+    fetch(`/api/analytics/rolling-returns?${query}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setRolling(result))
+      .catch((err) => console.warn('Failed to fetch rolling returns:', err));
+  }, [accountId, rollingYears]);
+
+  useEffect(() => {
+    const query = new URLSearchParams({ basis: annualBasis });
+    if (accountId !== null) query.set('account', String(accountId));
+    fetch(`/api/analytics/annual-returns?${query}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setAnnual(result))
+      .catch((err) => console.warn('Failed to fetch annual returns:', err));
+  }, [accountId, annualBasis]);
+
+  // The portfolio's own rolling and annual returns come from its value
+  // history, in pounds like the fund prices it's compared with
+  useEffect(() => {
+    const query = new URLSearchParams({ currency: 'GBP' });
+    if (accountId !== null) query.set('account', String(accountId));
+    fetch(`/api/portfolio-history?${query}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setPortfolio(result))
+      .catch((err) => console.warn('Failed to fetch portfolio history:', err));
+  }, [accountId]);
+
+  // Only comparable with the funds' annual and rolling returns in pounds
+  const portfolioIndex = useMemo(() => {
+    if (!portfolio?.portfolioHistory.length || portfolio.currency !== 'GBP') return [];
+    return buildGrowthIndex(portfolio.portfolioHistory, portfolio.cashFlows);
+  }, [portfolio]);
+
+  const portfolioRolling = useMemo(
+    () => calculateRollingReturns(portfolioIndex, rollingYears),
+    [portfolioIndex, rollingYears]
+  );
+
+  const rollingChartData = useMemo(() => {
+    if (!rolling) return [];
+    const portfolioByDate = new Map(portfolioRolling.map((p) => [p.date, p.value]));
+    const dates = new Set([...rolling.series.map((p) => p.date), ...portfolioByDate.keys()]);
+    const seriesByDate = new Map(rolling.series.map((p) => [p.date, p]));
+
+    return Array.from(dates).sort().map((date) => {
+      const portfolioValue = portfolioByDate.get(date);
+      return {
+        ...(seriesByDate.get(date) ?? { date }),
+        ...(portfolioValue !== undefined ? { [PORTFOLIO_KEY]: portfolioValue } : {}),
+      };
+    });
+  }, [rolling, portfolioRolling]);
+
+  const rollingSummaries = useMemo(() => {
+    const rows = (rolling?.funds ?? []).flatMap((f) => (f.summary ? [{ symbol: f.symbol, name: f.name, ...f.summary }] : []));
+    const portfolioSummary = summariseRollingReturns(portfolioRolling);
+    return portfolioSummary ? [{ symbol: PORTFOLIO_KEY, name: 'Portfolio', ...portfolioSummary }, ...rows] : rows;
+  }, [rolling, portfolioRolling]);
+
+  const annualRows = useMemo(() => {
+    if (!annual) return [];
+    const portfolioReturns = calculateAnnualReturns(portfolioIndex, annual.basis);
+    return [
+      ...(portfolioReturns.length > 0
+        ? [{ symbol: PORTFOLIO_KEY, name: 'Portfolio', returns: portfolioReturns, kind: 'portfolio' as const }]
+        : []),
+      ...(annual.benchmark
+        ? [{ symbol: annual.benchmark.symbol, name: 'Benchmark', returns: annual.benchmark.returns, kind: 'benchmark' as const }]
+        : []),
+      ...annual.funds.map((f) => ({ ...f, kind: 'fund' as const })),
+    ];
+  }, [annual, portfolioIndex]);
+
+  const handleDateRangeChange = (start: string | null, end: string | null) => {
+    setDateRange({ start, end });
+  };
+
+  const measured = correlation?.pairs.filter((p) => p.correlation !== null) ?? [];
+  const highlyCorrelated = measured
+    .filter((p) => p.correlation! >= threshold)
+    .sort((a, b) => b.correlation! - a.correlation!);
+  const averageCorrelation = measured.length > 0
+    ? measured.reduce((sum, p) => sum + p.correlation!, 0) / measured.length
+    : null;
+  const fundName = (symbol: string) => correlation?.funds.find((f) => f.symbol === symbol)?.name ?? symbol;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Analytics</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          How your funds behave together
+        </p>
+      </div>
+
+      {accounts.length > 1 && (
+        <AccountFilter accounts={accounts} selectedId={accountId} onAccountChange={setAccountId} />
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <span className="text-sm text-gray-500">Time period:</span>
+        <DateRangeFilter onRangeChange={handleDateRangeChange} initialPreset="3Y" />
+      </div>
+
+      {/* Correlation */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>Fund Correlation</CardTitle>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                How closely each pair of funds&apos; returns move together, from -1 (opposite) to 1 (in step),
+                in pounds over the dates both have prices for
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
+              <div className="flex items-center gap-1">
+                {FREQUENCIES.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setFrequency(option.value)}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      frequency === option.value
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2">
+                Highlight above
+                <input
+                  type="number"
+                  min={-1}
+                  max={1}
+                  step={0.05}
+                  value={threshold}
+                  onChange={(e) => e.target.value !== '' && setThreshold(Number(e.target.value))}
+                  className="w-20 px-2 py-1 text-sm border rounded-md dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+                />
+              </label>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && !correlation ? (
+            <div className="flex flex-col items-center justify-center min-h-[200px] gap-4">
+              <LoadingSpinner />
+              <p className="text-gray-500">Calculating correlations...</p>
+            </div>
+          ) : error || !correlation ? (
+            <p className="text-center text-red-600 py-8">{error || 'No correlation data available'}</p>
+          ) : (
+            <div className="space-y-6">
+              {correlation.refreshing.length > 0 && (
+                <p className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Updating prices for {correlation.refreshing.length}{' '}
+                  {correlation.refreshing.length === 1 ? 'fund' : 'funds'} in the background
+                </p>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <SummaryCard
+                  title="Average Correlation"
+                  value={averageCorrelation !== null ? formatNumber(averageCorrelation) : 'N/A'}
+                  subtitle={`across ${measured.length} ${measured.length === 1 ? 'pair' : 'pairs'} of funds`}
+                />
+                <SummaryCard
+                  title="Highly Correlated Pairs"
+                  value={highlyCorrelated.length.toString()}
+                  subtitle={`at ${formatNumber(threshold)} or above`}
+                />
+              </div>
+
+              <CorrelationMatrix funds={correlation.funds} pairs={correlation.pairs} threshold={threshold} />
+
+              {highlyCorrelated.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-gray-900 dark:text-white mb-2">Moving as One</h3>
+                  <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                    {highlyCorrelated.map((pair) => (
+                      <li key={`${pair.fundA}-${pair.fundB}`}>
+                        <span className="font-medium">{fundName(pair.fundA)}</span> and{' '}
+                        <span className="font-medium">{fundName(pair.fundB)}</span>: {formatNumber(pair.correlation!)}
+                        <span className="text-gray-500"> ({pair.observations} {frequency} returns)</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rolling Returns */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>Rolling Returns</CardTitle>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Annualised return over every {rollingYears}-year window, so the result doesn&apos;t depend on the
+                day it&apos;s measured from. Funds are measured on their price in pounds.
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              {ROLLING_WINDOWS.map((years) => (
+                <button
+                  key={years}
+                  onClick={() => setRollingYears(years)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                    rollingYears === years
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {years}Y
+                </button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {rolling ? (
+            <div className="space-y-6">
+              <FundsBreakdownChart
+                data={rollingChartData}
+                funds={[...(portfolioRolling.length > 0 ? [PORTFOLIO_KEY] : []), ...rolling.funds.map((f) => f.symbol)]}
+                fundLabels={{
+                  [PORTFOLIO_KEY]: 'Portfolio',
+                  ...Object.fromEntries(rolling.funds.map((f) => [f.symbol, f.name])),
+                }}
+              />
+              {rollingSummaries.length > 0 ? (
+                <RollingReturnsTable data={rollingSummaries} />
+              ) : (
+                <p className="text-center text-gray-500 py-8">
+                  Not enough price history for any {rollingYears}-year windows yet
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Annual Returns */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>Annual Returns</CardTitle>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Return in each {annualBasis === 'tax' ? 'tax year, from 6 April' : 'calendar year'}, with the best
+                and worst fund of each full year highlighted. Years only partly covered are shown in italics.
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              {ANNUAL_BASES.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setAnnualBasis(option.value)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                    annualBasis === option.value
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {annual ? (
+            annualRows.some((row) => row.returns.length > 0) ? (
+              <AnnualReturnsTable data={annualRows} />
+            ) : (
+              <p className="text-center text-gray-500 py-8">No price history yet</p>
+            )
+          ) : (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { getAccounts, getAccountByName, createAccount, getHoldingPositions } from '@/lib/db';
+import type { AccountSummary, AccountType } from '@/types';
+
+const ACCOUNT_TYPES: AccountType[] = ['ISA', 'SIPP', 'Trading'];
+
+export async function GET() {
+  try {
+    const positions = getHoldingPositions();
+
+    const accounts: AccountSummary[] = getAccounts().map((account) => {
+      const holdings = positions.filter((h) => h.account_id === account.id);
+      const totalValue = holdings.reduce((sum, h) => sum + h.market_value, 0);
+      const totalInvested = holdings.reduce((sum, h) => sum + h.book_cost, 0);
+
+      return {
+        id: account.id,
+        name: account.name,
+        type: account.type,
+        holdingsCount: holdings.length,
+        totalValue,
+        totalInvested,
+        gainLoss: totalValue - totalInvested,
+        gainLossPercent: totalInvested > 0 ? ((totalValue - totalInvested) / totalInvested) * 100 : 0,
+      };
+    });
+
+    return NextResponse.json({ accounts });
+  } catch (error) {
+    console.error('Error fetching accounts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch accounts' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const type = body.type as AccountType;
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Account name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!ACCOUNT_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `Account type must be one of ${ACCOUNT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (getAccountByName(name)) {
+      return NextResponse.json(
+        { error: 'An account with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const account = createAccount({ name, type });
+
+    return NextResponse.json({ id: account.id, name: account.name, type: account.type });
+  } catch (error) {
+    console.error('Error creating account:', error);
+    return NextResponse.json(
+      { error: 'Failed to create account' },
+      { status: 500 }
+    );
+  }
+}
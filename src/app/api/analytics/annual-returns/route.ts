@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { getAllHoldings, getSettings } from '@/lib/db';
+import { parseAccountParam, loadGbpPrices } from '@/lib/api';
+import { calculateAnnualReturns } from '@/lib/utils';
+import type { AnnualReturnBasis, AnnualReturnsResponse } from '@/types';
+
+const BASES: AnnualReturnBasis[] = ['calendar', 'tax'];
+
+/**
+ * Calendar year or tax year (`?basis=`) returns of each held fund's price,
+ * and of the portfolio's benchmark
+ */
+export async function GET(request: Request) {
+  try {
+    const account = parseAccountParam(request);
+    if ('error' in account) return account.error;
+    const { accountId } = account;
+
+    const { searchParams } = new URL(request.url);
+
+    const basis = (searchParams.get('basis') ?? 'calendar') as AnnualReturnBasis;
+    if (!BASES.includes(basis)) {
+      return NextResponse.json(
+        { error: `Basis must be one of ${BASES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const holdings = getAllHoldings(accountId);
+    const { benchmark } = getSettings();
+    const symbols = Array.from(new Set([...holdings.map((h) => h.symbol), ...(benchmark ? [benchmark] : [])]));
+
+    // Measured in pounds, as they're held
+    const { prices, refreshing } = loadGbpPrices(symbols);
+
+    const annualReturns = (symbol: string) =>
+      calculateAnnualReturns(
+        (prices.get(symbol) ?? []).map((p) => ({ date: p.date, value: p.price })),
+        basis
+      );
+
+    const response: AnnualReturnsResponse = {
+      basis,
+      funds: holdings.map((h) => ({
+        symbol: h.symbol,
+        name: h.name,
+        returns: annualReturns(h.symbol),
+      })),
+      benchmark: benchmark
+        ? { symbol: benchmark, returns: annualReturns(benchmark) }
+        : null,
+      refreshing,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error calculating annual returns:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate annual returns' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getAllHoldings } from '@/lib/db';
+import { parseAccountParam, loadGbpPrices } from '@/lib/api';
+import { filterByDateRange, calculateCorrelationMatrix } from '@/lib/utils';
+import type { CorrelationResponse, ReturnFrequency } from '@/types';
+
+const FREQUENCIES: ReturnFrequency[] = ['daily', 'weekly'];
+
+/**
+ * Correlation of returns between every pair of held funds, over
+ * `?start=&end=` (the whole price history by default), sampled `?frequency=`
+ * daily or weekly
+ */
+export async function GET(request: Request) {
+  try {
+    const account = parseAccountParam(request);
+    if ('error' in account) return account.error;
+    const { accountId } = account;
+
+    const { searchParams } = new URL(request.url);
+
+    const frequency = (searchParams.get('frequency') ?? 'daily') as ReturnFrequency;
+    if (!FREQUENCIES.includes(frequency)) {
+      return NextResponse.json(
+        { error: `Frequency must be one of ${FREQUENCIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const holdings = getAllHoldings(accountId);
+
+    // Compared in pounds, as they're held
+    const { prices, refreshing } = loadGbpPrices(holdings.map((h) => h.symbol));
+
+    const funds = holdings.map((h) => ({
+      symbol: h.symbol,
+      prices: filterByDateRange(
+        prices.get(h.symbol) ?? [],
+        searchParams.get('start'),
+        searchParams.get('end')
+      ),
+    }));
+
+    const response: CorrelationResponse = {
+      funds: holdings.map((h) => ({ symbol: h.symbol, name: h.name })),
+      pairs: calculateCorrelationMatrix(funds, frequency),
+      frequency,
+      refreshing,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error calculating fund correlations:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate fund correlations' },
+      { status: 500 }
+    );
+  }
+}
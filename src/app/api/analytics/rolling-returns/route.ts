@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { getAllHoldings } from '@/lib/db';
+import { parseAccountParam, loadGbpPrices } from '@/lib/api';
+import { calculateRollingReturns, summariseRollingReturns } from '@/lib/utils';
+import type { FundPerformancePoint, RollingReturnsResponse, RollingWindowYears } from '@/types';
+
+const WINDOWS: RollingWindowYears[] = [1, 3, 5];
+
+/**
+ * Rolling annualised returns of each held fund's price over `?years=` 1, 3
+ * or 5 year windows
+ */
+export async function GET(request: Request) {
+  try {
+    const account = parseAccountParam(request);
+    if ('error' in account) return account.error;
+    const { accountId } = account;
+
+    const { searchParams } = new URL(request.url);
+
+    const years = Number(searchParams.get('years') ?? 1) as RollingWindowYears;
+    if (!WINDOWS.includes(years)) {
+      return NextResponse.json(
+        { error: `Years must be one of ${WINDOWS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const holdings = getAllHoldings(accountId);
+
+    // Measured in pounds, as they're held
+    const { prices, refreshing } = loadGbpPrices(holdings.map((h) => h.symbol));
+
+    const byDate = new Map<string, FundPerformancePoint>();
+    const funds = holdings.map((h) => {
+      const rolling = calculateRollingReturns(
+        (prices.get(h.symbol) ?? []).map((p) => ({ date: p.date, value: p.price })),
+        years
+      );
+
+      for (const point of rolling) {
+        const entry = byDate.get(point.date) ?? { date: point.date };
+        entry[h.symbol] = point.value;
+        byDate.set(point.date, entry);
+      }
+
+      return { symbol: h.symbol, name: h.name, summary: summariseRollingReturns(rolling) };
+    });
+
+    const response: RollingReturnsResponse = {
+      years,
+      series: Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date)),
+      funds,
+      refreshing,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error calculating rolling returns:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate rolling returns' },
+      { status: 500 }
+    );
+  }
+}
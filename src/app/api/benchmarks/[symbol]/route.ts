@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { getBenchmarkSymbols, getCachedPriceHistory, getFxRates } from '@/lib/db';
+import { queuePriceRefreshes, queueFxRefreshes } from '@/lib/jobs/queue';
+import { SUPPORTED_CURRENCIES, getCurrencyPair, createRateLookup, convertPrices } from '@/lib/utils';
+import type { BenchmarkResponse } from '@/types';
+
+/**
+ * Prices for a benchmark set on the portfolio or a fund, converted to the
+ * currency of the values it's compared with (`?currency=`, GBP by default)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const { symbol } = await params;
+    const decodedSymbol = decodeURIComponent(symbol);
+    const currency = new URL(request.url).searchParams.get('currency') ?? 'GBP';
+
+    if (!(SUPPORTED_CURRENCIES as readonly string[]).includes(currency)) {
+      return NextResponse.json(
+        { error: `Currency must be one of ${SUPPORTED_CURRENCIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!getBenchmarkSymbols().includes(decodedSymbol)) {
+      return NextResponse.json({ error: 'Benchmark not found' }, { status: 404 });
+    }
+
+    // Prices come from the cache and are refreshed in the background
+    const refreshing = queuePriceRefreshes([decodedSymbol]);
+    const cached = getCachedPriceHistory(decodedSymbol);
+
+    const currencies = Array.from(new Set(cached.map((p) => p.currency))).filter((c) => c !== currency);
+    const ratesRefreshing = queueFxRefreshes(currencies.map((c) => getCurrencyPair(c, currency)));
+    const rateLookups = Object.fromEntries(
+      currencies.map((c) => [c, createRateLookup(getFxRates(c, currency))])
+    );
+
+    const response: BenchmarkResponse = {
+      symbol: decodedSymbol,
+      prices: convertPrices(cached, currency, rateLookups),
+      refreshing: refreshing.length > 0 || ratesRefreshing.length > 0,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching benchmark prices:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch benchmark prices' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,13 @@
 import { NextResponse } from 'next/server';
-import { clearHoldings, clearPriceCache } from '@/lib/db';
+import { clearHoldings, clearTransactions, clearImports, clearPriceCache, clearFxRates } from '@/lib/db';
 
 export async function POST() {
   try {
     clearHoldings();
+    clearTransactions();
+    clearImports();
     clearPriceCache();
+    clearFxRates();
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getAllHoldings } from '@/lib/db';
+import { parseAccountParam } from '@/lib/api';
+import { getCachedHoldings } from '@/lib/holdings-fetcher';
+import { queueHoldingsRefresh, queueHoldingDetailsRefresh } from '@/lib/jobs/queue';
+import {
+  calculateCurrencyExposure,
+  calculateSectorExposure,
+  calculateRegionExposure,
+} from '@/lib/utils';
+import type { ExposureResponse } from '@/types';
+
+export async function GET(request: Request) {
+  try {
+    const account = parseAccountParam(request);
+    if ('error' in account) return account.error;
+    const { accountId } = account;
+
+    const holdings = getAllHoldings(accountId);
+
+    // Look-through holdings come from the cache; stale ones, and sectors and
+    // countries the provider didn't give, are fetched in the background
+    const refreshing = holdings
+      .filter((h) => {
+        const holdingsQueued = queueHoldingsRefresh(h.symbol);
+        const detailsQueued = queueHoldingDetailsRefresh(h.symbol);
+        return holdingsQueued || detailsQueued;
+      })
+      .map((h) => h.symbol);
+
+    const funds = holdings.map((h) => ({
+      marketValue: h.market_value,
+      holdings: getCachedHoldings(h.symbol)?.holdings ?? [],
+    }));
+
+    const response: ExposureResponse = {
+      currency: calculateCurrencyExposure(funds),
+      sector: calculateSectorExposure(funds),
+      region: calculateRegionExposure(funds),
+      refreshing,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error calculating exposure:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate exposure' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getHolding, getFundBenchmark, setFundBenchmark, clearFundBenchmark } from '@/lib/db';
+import { queuePriceRefreshes } from '@/lib/jobs/queue';
+import { normaliseBenchmarkSymbol } from '@/lib/utils';
+
+/**
+ * Set the benchmark the fund is compared against (or clear it with
+ * `benchmark: null`). Its prices are fetched in the background.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const { symbol } = await params;
+    const decodedSymbol = decodeURIComponent(symbol);
+
+    if (!getHolding(decodedSymbol)) {
+      return NextResponse.json({ error: 'Fund not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const benchmark = typeof body.benchmark === 'string' ? normaliseBenchmarkSymbol(body.benchmark) : null;
+
+    if (benchmark) {
+      setFundBenchmark(decodedSymbol, benchmark);
+      queuePriceRefreshes([benchmark]);
+    } else {
+      clearFundBenchmark(decodedSymbol);
+    }
+
+    return NextResponse.json({ symbol: decodedSymbol, benchmark: getFundBenchmark(decodedSymbol) });
+  } catch (error) {
+    console.error('Error setting benchmark:', error);
+    return NextResponse.json(
+      { error: 'Failed to set benchmark' },
+      { status: 500 }
+    );
+  }
+}
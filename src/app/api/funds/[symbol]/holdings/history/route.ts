@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { getHolding, getFundHoldingsDates } from '@/lib/db';
+import { getCachedHoldingsAt } from '@/lib/holdings-fetcher';
+import { compareFundHoldings, isIsoDate } from '@/lib/utils';
+import type { FundHoldingsHistoryResponse } from '@/types';
+
+/**
+ * Compare a fund's underlying holdings on two as-of dates. `to` defaults to
+ * the latest date cached and `from` to the date before it.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const { symbol } = await params;
+    const decodedSymbol = decodeURIComponent(symbol);
+
+    if (!getHolding(decodedSymbol)) {
+      return NextResponse.json({ error: 'Fund not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const toParam = searchParams.get('to');
+    const fromParam = searchParams.get('from');
+
+    if ((toParam !== null && !isIsoDate(toParam)) || (fromParam !== null && !isIsoDate(fromParam))) {
+      return NextResponse.json(
+        { error: 'From and to must be dates (YYYY-MM-DD)' },
+        { status: 400 }
+      );
+    }
+
+    const dates = getFundHoldingsDates(decodedSymbol);
+    const notCached = (date: string | null) => date !== null && !dates.includes(date);
+
+    // `from` defaults to the date before `to`, so `to` has to be one we have
+    if (notCached(toParam) || notCached(fromParam)) {
+      return NextResponse.json(
+        { error: 'No holdings cached for that date' },
+        { status: 404 }
+      );
+    }
+
+    const to = toParam ?? dates[0];
+    const from = fromParam ?? dates[dates.indexOf(to) + 1];
+
+    if (from && to && from >= to) {
+      return NextResponse.json(
+        { error: 'From must be before to' },
+        { status: 400 }
+      );
+    }
+
+    const response: FundHoldingsHistoryResponse = {
+      fundSymbol: decodedSymbol,
+      dates,
+      comparison:
+        from && to
+          ? {
+              from,
+              to,
+              ...compareFundHoldings(
+                getCachedHoldingsAt(decodedSymbol, from),
+                getCachedHoldingsAt(decodedSymbol, to)
+              ),
+            }
+          : null,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error comparing fund holdings:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare fund holdings' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,7 @@
 import { NextResponse } from 'next/server';
-import { getHolding, hasRecentHoldings } from '@/lib/db';
-import {
-  fetchHoldingsWithFallback,
-  getCachedHoldings,
-} from '@/lib/holdings-fetcher';
-import { cacheFundHoldingsBatch, type FundHoldingRow } from '@/lib/db';
+import { getHolding } from '@/lib/db';
+import { getCachedHoldings } from '@/lib/holdings-fetcher';
+import { queueHoldingsRefresh, queueHoldingDetailsRefresh } from '@/lib/jobs/queue';
 
 export async function GET(
   request: Request,
@@ -20,28 +17,14 @@ export async function GET(
       return NextResponse.json({ error: 'Fund not found' }, { status: 404 });
     }
 
-    // Check if we have recent cached holdings (within 7 days)
-    if (hasRecentHoldings(decodedSymbol, 7)) {
-      const cached = getCachedHoldings(decodedSymbol);
-      if (cached) {
-        const topHoldings = cached.holdings.slice(0, 10);
-        return NextResponse.json({
-          fundSymbol: decodedSymbol,
-          fundName: holding.name,
-          asOfDate: cached.asOfDate,
-          numberOfHoldings: cached.holdings.length,
-          holdings: cached.holdings,
-          topHoldings,
-        });
-      }
-    }
-
-    // Fetch fresh holdings data
-    const result = await fetchHoldingsWithFallback(decodedSymbol, {
-      morningstarId: holding.morningstar_id || undefined,
-    });
+    // Serve whatever is cached; holdings older than a week, and sectors and
+    // countries the provider didn't give, are fetched in the background
+    const holdingsQueued = queueHoldingsRefresh(decodedSymbol);
+    const detailsQueued = queueHoldingDetailsRefresh(decodedSymbol);
+    const refreshing = holdingsQueued || detailsQueued;
+    const cached = getCachedHoldings(decodedSymbol);
 
-    if (!result) {
+    if (!cached) {
       return NextResponse.json({
         fundSymbol: decodedSymbol,
         fundName: holding.name,
@@ -49,36 +32,19 @@ export async function GET(
         numberOfHoldings: 0,
         holdings: [],
         topHoldings: [],
-        message: 'Holdings data not available',
+        refreshing,
+        message: refreshing ? 'Holdings data is being fetched' : 'Holdings data not available',
       });
     }
 
-    // Cache the results
-    const holdingsToCache: Array<Omit<FundHoldingRow, 'id' | 'fetched_at'>> =
-      result.holdings.map((h) => ({
-        fund_symbol: decodedSymbol,
-        holding_symbol: h.symbol || null,
-        holding_name: h.name,
-        cusip: h.cusip || null,
-        isin: h.isin || null,
-        asset_type: h.assetType || null,
-        weight_percent: h.weightPercent,
-        shares_held: h.sharesHeld || null,
-        market_value: h.marketValue || null,
-        as_of_date: result.asOfDate,
-      }));
-
-    cacheFundHoldingsBatch(holdingsToCache);
-
-    const topHoldings = result.holdings.slice(0, 10);
-
     return NextResponse.json({
       fundSymbol: decodedSymbol,
       fundName: holding.name,
-      asOfDate: result.asOfDate,
-      numberOfHoldings: result.holdings.length,
-      holdings: result.holdings,
-      topHoldings,
+      asOfDate: cached.asOfDate,
+      numberOfHoldings: cached.holdings.length,
+      holdings: cached.holdings,
+      topHoldings: cached.holdings.slice(0, 10),
+      refreshing,
     });
   } catch (error) {
     console.error('Error fetching fund holdings:', error);
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import {
+  getHolding,
+  getPinnedPriceSource,
+  getPriceSourceSummaries,
+  pinPriceSource,
+  unpinPriceSource,
+  clearCachedPrices,
+} from '@/lib/db';
+import { getAllPriceProviders, hasPriceProvider } from '@/lib/prices/registry';
+import { queueJob } from '@/lib/jobs/queue';
+import type { PriceSourceResponse } from '@/types';
+
+function buildResponse(symbol: string): PriceSourceResponse {
+  return {
+    symbol,
+    pinned: getPinnedPriceSource(symbol),
+    available: getAllPriceProviders().map((p) => ({ name: p.name, displayName: p.displayName })),
+    sources: getPriceSourceSummaries(symbol),
+  };
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const { symbol } = await params;
+    const decodedSymbol = decodeURIComponent(symbol);
+
+    if (!getHolding(decodedSymbol)) {
+      return NextResponse.json({ error: 'Fund not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(buildResponse(decodedSymbol));
+  } catch (error) {
+    console.error('Error fetching price sources:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch price sources' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Pin a price source for the fund (or clear the pin with `provider: null`).
+ * Pinning throws away the cached prices and fetches them all again from the
+ * pinned source.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const { symbol } = await params;
+    const decodedSymbol = decodeURIComponent(symbol);
+
+    if (!getHolding(decodedSymbol)) {
+      return NextResponse.json({ error: 'Fund not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const provider = typeof body.provider === 'string' ? body.provider : null;
+
+    if (provider !== null && !hasPriceProvider(provider)) {
+      return NextResponse.json(
+        { error: `Unknown price source: ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    if (provider === null) {
+      unpinPriceSource(decodedSymbol);
+    } else if (provider !== getPinnedPriceSource(decodedSymbol)) {
+      pinPriceSource(decodedSymbol, provider);
+      clearCachedPrices(decodedSymbol);
+      queueJob('refresh-prices', { symbol: decodedSymbol });
+    }
+
+    return NextResponse.json(buildResponse(decodedSymbol));
+  } catch (error) {
+    console.error('Error pinning price source:', error);
+    return NextResponse.json(
+      { error: 'Failed to update price source' },
+      { status: 500 }
+    );
+  }
+}
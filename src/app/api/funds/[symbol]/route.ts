@@ -1,6 +1,20 @@
 import { NextResponse } from 'next/server';
-import { getHolding, getCachedPrices } from '@/lib/db';
-import { fetchAndCachePrices, getYahooSymbol } from '@/lib/price-fetcher';
+import {
+  getHolding,
+  getHoldingPositions,
+  getTransactionsBySymbol,
+  getFundBenchmark,
+} from '@/lib/db';
+import { loadGbpPrices } from '@/lib/api';
+import { getYahooSymbol } from '@/lib/prices/yahoo-fetcher';
+import {
+  buildPositionLedger,
+  getPositionAtDate,
+  getPositionKey,
+  buildCashFlows,
+  alignCashFlows,
+  mergeCashFlows,
+} from '@/lib/utils';
 
 export async function GET(
   request: Request,
@@ -19,21 +33,52 @@ export async function GET(
       );
     }
 
-    // Fetch and cache prices if we have a Yahoo symbol
     const yahooSymbol = getYahooSymbol(holding.symbol, holding.sedol);
-    let priceHistory: Array<{ date: string; price: number }> = [];
 
-    if (yahooSymbol) {
-      await fetchAndCachePrices(holding.symbol, holding.sedol, 5);
-      priceHistory = getCachedPrices(holding.symbol);
-    }
+    // Prices come from the cache, refreshed in the background when out of
+    // date. The chart shows prices as quoted; values are in pounds like the
+    // rest of the holding, so foreign prices are converted first.
+    const { cached, prices, refreshing, ratesRefreshing } = loadGbpPrices([holding.symbol]);
+    const priceHistory = cached.get(holding.symbol) ?? [];
+    const gbpPrices = prices.get(holding.symbol) ?? [];
+    const pricesRefreshing = refreshing.length > 0 || ratesRefreshing.length > 0;
+
+    // Calculate value history (units held * price over time) across every
+    // account holding the fund. With transaction history we use the units held
+    // on each date, otherwise today's quantity.
+    const transactions = getTransactionsBySymbol(holding.symbol);
+    const ledger = buildPositionLedger(transactions, getPositionKey);
+    const transactionFlows = buildCashFlows(transactions, getPositionKey);
+    const positions = getHoldingPositions().filter((p) => p.symbol === holding.symbol);
+
+    const positionValues = positions.map((position) => {
+      const entries = ledger.get(getPositionKey(position));
+      return gbpPrices.map((p) => {
+        const units = entries
+          ? getPositionAtDate(entries, p.date)?.units ?? 0
+          : position.quantity;
+        return { date: p.date, value: units * p.price };
+      });
+    });
 
-    // Calculate value history (quantity * price over time)
-    const valueHistory = priceHistory.map((p) => ({
+    const unitValues = gbpPrices.map((p, i) => ({
       date: p.date,
-      value: holding.quantity * p.price,
+      value: positionValues.reduce((sum, values) => sum + values[i].value, 0),
     }));
 
+    // Skip the period before the first purchase
+    const firstHeld = unitValues.findIndex((v) => v.value > 0);
+    const valueHistory = firstHeld === -1 ? [] : unitValues.slice(firstHeld);
+
+    const cashFlows = firstHeld === -1 ? [] : mergeCashFlows(
+      positions.map((position, i) =>
+        alignCashFlows(
+          positionValues[i].slice(firstHeld),
+          transactionFlows.get(getPositionKey(position)) ?? []
+        )
+      )
+    );
+
     return NextResponse.json({
       symbol: holding.symbol,
       sedol: holding.sedol,
@@ -45,8 +90,12 @@ export async function GET(
       gainLoss: holding.market_value - holding.book_cost,
       gainLossPercent: ((holding.market_value - holding.book_cost) / holding.book_cost) * 100,
       hasYahooSymbol: !!yahooSymbol,
+      hasTransactionHistory: positions.some((p) => ledger.has(getPositionKey(p))),
       priceHistory,
+      pricesRefreshing,
       valueHistory,
+      cashFlows,
+      benchmark: getFundBenchmark(holding.symbol),
     });
   } catch (error) {
     console.error('Error fetching fund details:', error);
@@ -1,15 +1,163 @@
 import { NextResponse } from 'next/server';
-import { parseHoldingsCSV } from '@/lib/csv-parser';
+import { parseHoldingsCSV, parseTransactionsCSV, detectExportType } from '@/lib/csv-parser';
 import {
-  upsertHolding,
-  clearHoldings,
-  clearPriceCache,
+  saveHoldingsImport,
+  saveTransactionsImport,
+  countNewTransactions,
+  getAllHoldings,
+  getAccount,
+  DEFAULT_ACCOUNT_ID,
   cacheFundHoldingsWithProvider,
   updateHoldingProviderInfo,
   logFetchAttempt,
 } from '@/lib/db';
 import { fetchAllHoldingsWithProgress } from '@/lib/providers/orchestrator';
-import type { FundMetadata } from '@/types';
+import { diffHoldingsSnapshots } from '@/lib/utils';
+import type {
+  FundMetadata,
+  ExportType,
+  FundFetchResult,
+  ProgressUpdate,
+  HoldingsImportResponse,
+  ImportStreamEvent,
+} from '@/types';
+
+function importTransactions(content: string, accountId: number, dryRun: boolean, filename: string) {
+  const { transactions, errors } = parseTransactionsCSV(content);
+
+  if (transactions.length === 0) {
+    return NextResponse.json(
+      {
+        error: 'No valid transactions found in file',
+        errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  const rows = transactions.map((tx) => ({
+    account_id: accountId,
+    date: tx.date,
+    symbol: tx.symbol,
+    sedol: tx.sedol ?? null,
+    fund_name: tx.name,
+    type: tx.type,
+    description: tx.description,
+    units: tx.units ?? null,
+    price: tx.price ?? null,
+    total: tx.total,
+  }));
+
+  // Duplicate rows (same date, symbol, type, total and units) are ignored,
+  // so overlapping exports can be imported safely. The import is recorded
+  // with the transactions it added, so it can be rolled back.
+  const { importId, inserted } = dryRun
+    ? { importId: null, inserted: countNewTransactions(rows) }
+    : saveTransactionsImport(accountId, rows, filename);
+
+  const dates = transactions.map((tx) => tx.date).sort();
+
+  return NextResponse.json({
+    success: true,
+    dryRun,
+    exportType: 'transactions',
+    accountId,
+    importId,
+    transactionsParsed: transactions.length,
+    transactionsImported: inserted,
+    duplicatesSkipped: transactions.length - inserted,
+    dateRange: { start: dates[0], end: dates[dates.length - 1] },
+    errors,
+  });
+}
+
+/**
+ * Fetch the underlying holdings of each imported fund, reporting progress as
+ * each provider is tried, then record which provider worked
+ */
+async function fetchFundHoldings(
+  fundsMetadata: FundMetadata[],
+  onProgress?: (update: ProgressUpdate) => void
+): Promise<FundFetchResult[]> {
+  console.log(`\n=== Starting holdings fetch for ${fundsMetadata.length} funds ===\n`);
+
+  const startTime = Date.now();
+
+  const fetchResults = await fetchAllHoldingsWithProgress(
+    fundsMetadata,
+    (progress) => {
+      // Log progress to console
+      console.log(
+        `[${progress.fundSymbol}] ${progress.status} - ${progress.provider}${
+          progress.holdingsCount ? ` (${progress.holdingsCount} holdings)` : ''
+        }${progress.error ? ` Error: ${progress.error}` : ''}`
+      );
+      onProgress?.(progress);
+    }
+  );
+
+  // Update metadata and log fetch attempts
+  for (const result of fetchResults) {
+    // Log fetch attempt
+    logFetchAttempt({
+      fund_symbol: result.symbol,
+      provider: result.provider,
+      status: result.status === 'success' ? 'success' : 'failed',
+      holdings_count: result.holdingsCount,
+      data_quality: result.dataQuality,
+      error_message: result.error,
+      response_time_ms: undefined, // Could be tracked in orchestrator
+    });
+
+    // Update holding with provider info
+    updateHoldingProviderInfo(result.symbol, result.provider, result.dataQuality);
+  }
+
+  const totalTime = Date.now() - startTime;
+  console.log(`\n=== Holdings fetch completed in ${(totalTime / 1000).toFixed(1)}s ===\n`);
+
+  return fetchResults;
+}
+
+/**
+ * Stream fund holdings fetch progress as newline-delimited JSON, finishing
+ * with the import result
+ */
+function streamFundHoldings(
+  fundsMetadata: FundMetadata[],
+  buildResult: (fetchResults: FundFetchResult[]) => HoldingsImportResponse
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: ImportStreamEvent) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      send({ type: 'start', funds: fundsMetadata.map((f) => ({ symbol: f.symbol, name: f.name })) });
+
+      try {
+        const fetchResults = await fetchFundHoldings(fundsMetadata, (update) =>
+          send({ type: 'progress', update })
+        );
+        send({ type: 'complete', result: buildResult(fetchResults) });
+      } catch (error) {
+        console.error('Error fetching fund holdings:', error);
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
 
 export async function POST(request: Request) {
   try {
@@ -23,7 +171,27 @@ export async function POST(request: Request) {
       );
     }
 
+    const accountId = Number(formData.get('accountId') ?? DEFAULT_ACCOUNT_ID);
+    if (!getAccount(accountId)) {
+      return NextResponse.json(
+        { error: 'Account not found' },
+        { status: 400 }
+      );
+    }
+
+    // A dry run parses the file and reports what would change, without saving anything
+    const dryRun = formData.get('dryRun') === 'true';
+
     const content = await file.text();
+    const requestedType = formData.get('type') as ExportType | null;
+    const exportType = requestedType && requestedType !== 'unknown'
+      ? requestedType
+      : detectExportType(content);
+
+    if (exportType === 'transactions') {
+      return importTransactions(content, accountId, dryRun, file.name);
+    }
+
     const { holdings, errors } = parseHoldingsCSV(content);
 
     if (holdings.length === 0) {
@@ -36,26 +204,30 @@ export async function POST(request: Request) {
       );
     }
 
-    // Clear existing holdings and reimport
-    clearHoldings();
-    // Also clear price cache to refetch fresh data
-    clearPriceCache();
-
-    // Step 1: Insert fund metadata
-    for (const holding of holdings) {
-      upsertHolding({
-        symbol: holding.symbol,
-        sedol: holding.sedol,
-        isin: holding.isin,
-        morningstarId: null,
-        name: holding.name,
-        quantity: holding.quantity,
-        bookCost: holding.bookCost,
-        currentPrice: holding.currentPrice,
-        marketValue: holding.marketValue,
+    if (dryRun) {
+      const current = getAllHoldings(accountId).map((h) => ({
+        symbol: h.symbol,
+        name: h.name,
+        quantity: h.quantity,
+        bookCost: h.book_cost,
+        marketValue: h.market_value,
+      }));
+
+      return NextResponse.json({
+        success: true,
+        dryRun,
+        exportType: 'holdings',
+        accountId,
+        fundsParsed: holdings.length,
+        diff: diffHoldingsSnapshots(current, holdings),
+        errors,
       });
     }
 
+    // Step 1: Store the statement as a new snapshot, which becomes the
+    // account's current holdings. Earlier snapshots and cached prices are kept.
+    const importId = saveHoldingsImport(accountId, holdings, file.name);
+
     // Step 2: Convert holdings to FundMetadata format
     const fundsMetadata: FundMetadata[] = holdings.map((h) => ({
       symbol: h.symbol,
@@ -66,46 +238,13 @@ export async function POST(request: Request) {
       quantity: h.quantity,
     }));
 
-    // Step 3: Fetch holdings for all funds (BLOCKING)
-    console.log(`\n=== Starting holdings fetch for ${fundsMetadata.length} funds ===\n`);
-
-    const startTime = Date.now();
-
-    const fetchResults = await fetchAllHoldingsWithProgress(
-      fundsMetadata,
-      (progress) => {
-        // Log progress to console
-        console.log(
-          `[${progress.fundSymbol}] ${progress.status} - ${progress.provider}${
-            progress.holdingsCount ? ` (${progress.holdingsCount} holdings)` : ''
-          }${progress.error ? ` Error: ${progress.error}` : ''}`
-        );
-      }
-    );
-
-    // Step 4: Update metadata and log fetch attempts
-    for (const result of fetchResults) {
-      // Log fetch attempt
-      logFetchAttempt({
-        fund_symbol: result.symbol,
-        provider: result.provider,
-        status: result.status === 'success' ? 'success' : 'failed',
-        holdings_count: result.holdingsCount,
-        data_quality: result.dataQuality,
-        error_message: result.error,
-        response_time_ms: undefined, // Could be tracked in orchestrator
-      });
-
-      // Update holding with provider info
-      updateHoldingProviderInfo(result.symbol, result.provider, result.dataQuality);
-    }
-
-    const totalTime = Date.now() - startTime;
-    console.log(`\n=== Holdings fetch completed in ${(totalTime / 1000).toFixed(1)}s ===\n`);
-
-    // Step 5: Return results
-    return NextResponse.json({
+    // Step 3: Fetch holdings for all funds. Clients that accept NDJSON get
+    // progress as it happens; otherwise the request blocks until done.
+    const buildResult = (fetchResults: FundFetchResult[]): HoldingsImportResponse => ({
       success: true,
+      exportType: 'holdings',
+      accountId,
+      importId,
       fundsImported: holdings.length,
       holdings: holdings.map((h) => ({
         symbol: h.symbol,
@@ -117,6 +256,15 @@ export async function POST(request: Request) {
       holdingsResults: fetchResults,
       errors,
     });
+
+    if (request.headers.get('accept')?.includes('application/x-ndjson')) {
+      return streamFundHoldings(fundsMetadata, buildResult);
+    }
+
+    const fetchResults = await fetchFundHoldings(fundsMetadata);
+
+    // Step 4: Return results
+    return NextResponse.json(buildResult(fetchResults));
   } catch (error) {
     console.error('Error importing CSV:', error);
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getImport, getImports, rollbackImport } from '@/lib/db';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const snapshot = getImport(Number(id));
+
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: 'Import not found' },
+        { status: 404 }
+      );
+    }
+
+    // Rolling back anything but the latest import would leave later imports
+    // built on holdings that no longer exist
+    const latest = getImports(snapshot.accountId)[0];
+    if (latest.id !== snapshot.id) {
+      return NextResponse.json(
+        { error: 'Only the latest import for an account can be rolled back' },
+        { status: 409 }
+      );
+    }
+
+    const current = rollbackImport(snapshot);
+
+    return NextResponse.json({
+      success: true,
+      rolledBack: snapshot,
+      current,
+    });
+  } catch (error) {
+    console.error('Error rolling back import:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back import' },
+      { status: 500 }
+    );
+  }
+}
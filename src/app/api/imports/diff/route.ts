@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { getImport, getPreviousImport, getImportHoldings } from '@/lib/db';
+import { diffHoldingsSnapshots } from '@/lib/utils';
+import type { SnapshotHolding } from '@/types';
+
+function getSnapshotHoldings(importId: number): SnapshotHolding[] {
+  return getImportHoldings(importId).map((h) => ({
+    symbol: h.symbol,
+    name: h.name,
+    quantity: h.quantity,
+    bookCost: h.book_cost,
+    marketValue: h.market_value ?? 0,
+  }));
+}
+
+/**
+ * Compare two holdings imports. `to` is required; `from` defaults to the
+ * import before it in the same account.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const toParam = searchParams.get('to');
+    const fromParam = searchParams.get('from');
+
+    const to = toParam ? getImport(Number(toParam)) : undefined;
+    if (!to) {
+      return NextResponse.json(
+        { error: 'Import not found' },
+        { status: 404 }
+      );
+    }
+
+    const from = fromParam ? getImport(Number(fromParam)) : getPreviousImport(to.id);
+    if (fromParam && !from) {
+      return NextResponse.json(
+        { error: 'Import not found' },
+        { status: 404 }
+      );
+    }
+
+    if (to.type !== 'holdings' || (from && from.type !== 'holdings')) {
+      return NextResponse.json(
+        { error: 'Only holdings imports can be compared' },
+        { status: 400 }
+      );
+    }
+
+    const diff = diffHoldingsSnapshots(
+      from ? getSnapshotHoldings(from.id) : [],
+      getSnapshotHoldings(to.id)
+    );
+
+    return NextResponse.json({ from: from ?? null, to, ...diff });
+  } catch (error) {
+    console.error('Error comparing imports:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare imports' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getImports } from '@/lib/db';
+import { parseAccountParam } from '@/lib/api';
+
+export async function GET(request: Request) {
+  try {
+    const account = parseAccountParam(request);
+    if ('error' in account) return account.error;
+    const { accountId } = account;
+
+    return NextResponse.json({ imports: getImports(accountId) });
+  } catch (error) {
+    console.error('Error fetching imports:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch imports' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getAllHoldings, getAllTransactions } from '@/lib/db';
+import { parseAccountParam } from '@/lib/api';
+import { extractIncomePayments, buildIncomeSummary } from '@/lib/utils';
+
+export async function GET(request: Request) {
+  try {
+    const account = parseAccountParam(request);
+    if ('error' in account) return account.error;
+    const { accountId } = account;
+
+    const holdings = getAllHoldings(accountId).map((h) => ({
+      symbol: h.symbol,
+      name: h.name,
+      bookCost: h.book_cost,
+      marketValue: h.market_value,
+    }));
+
+    const payments = extractIncomePayments(getAllTransactions(accountId), holdings);
+
+    return NextResponse.json(buildIncomeSummary(payments, holdings));
+  } catch (error) {
+    console.error('Error fetching income:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch income' },
+      { status: 500 }
+    );
+  }
+}
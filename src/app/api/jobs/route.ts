@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { getAllHoldings, getHolding, getJobs, getJobCounts, getJob } from '@/lib/db';
+import { queueJob } from '@/lib/jobs/queue';
+import type { JobStatus, JobType, JobsResponse } from '@/types';
+
+const JOB_TYPES: JobType[] = ['refresh-prices', 'refresh-fund-holdings', 'refresh-fx', 'refresh-holding-details'];
+const JOB_STATUSES: JobStatus[] = ['pending', 'running', 'completed', 'failed'];
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as JobStatus | null;
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Status must be one of ${JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const response: JobsResponse = {
+      jobs: getJobs(status ?? undefined),
+      counts: getJobCounts(),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Queue a refresh for one fund, or for every fund held when no symbol is
+ * given. Exchange rate refreshes take a currency pair (e.g. 'USDGBP') instead.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const type = body.type as JobType;
+    const symbol = typeof body.symbol === 'string' ? body.symbol.trim() : '';
+
+    if (!JOB_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `Job type must be one of ${JOB_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (type === 'refresh-fx') {
+      if (!/^[A-Z]{6}$/.test(symbol)) {
+        return NextResponse.json(
+          { error: 'A currency pair such as USDGBP is required' },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json({ jobs: [getJob(queueJob(type, { symbol }))] }, { status: 202 });
+    }
+
+    if (symbol && !getHolding(symbol)) {
+      return NextResponse.json(
+        { error: 'Fund not found' },
+        { status: 404 }
+      );
+    }
+
+    const symbols = symbol ? [symbol] : getAllHoldings().map((h) => h.symbol);
+    const jobs = symbols.map((s) => getJob(queueJob(type, { symbol: s })));
+
+    return NextResponse.json({ jobs }, { status: 202 });
+  } catch (error) {
+    console.error('Error queueing jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getAllHoldings } from '@/lib/db';
+import { parseAccountParam } from '@/lib/api';
+import { getCachedHoldings } from '@/lib/holdings-fetcher';
+import { queueHoldingsRefresh } from '@/lib/jobs/queue';
+import { calculateFundOverlap } from '@/lib/utils';
+
+export async function GET(request: Request) {
+  try {
+    const account = parseAccountParam(request);
+    if ('error' in account) return account.error;
+    const { accountId } = account;
+
+    const holdings = getAllHoldings(accountId);
+
+    const refreshing = holdings
+      .filter((h) => queueHoldingsRefresh(h.symbol))
+      .map((h) => h.symbol);
+
+    const funds = holdings.map((h) => {
+      const cached = getCachedHoldings(h.symbol);
+      return {
+        symbol: h.symbol,
+        name: h.name,
+        asOfDate: cached?.asOfDate ?? null,
+        holdings: cached?.holdings ?? [],
+      };
+    });
+
+    return NextResponse.json({
+      funds: funds.map((f) => ({
+        symbol: f.symbol,
+        name: f.name,
+        asOfDate: f.asOfDate,
+        numberOfHoldings: f.holdings.length,
+      })),
+      pairs: calculateFundOverlap(funds),
+      refreshing,
+    });
+  } catch (error) {
+    console.error('Error calculating fund overlap:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate fund overlap' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getAllHoldings } from '@/lib/db';
+import { parseAccountParam } from '@/lib/api';
+import { getCachedHoldings } from '@/lib/holdings-fetcher';
+import { queueHoldingsRefresh } from '@/lib/jobs/queue';
+import { aggregateLookthroughHoldings } from '@/lib/utils';
+
+export async function GET(request: Request) {
+  try {
+    const account = parseAccountParam(request);
+    if ('error' in account) return account.error;
+    const { accountId } = account;
+
+    const holdings = getAllHoldings(accountId);
+
+    // Look-through holdings come from the cache; stale ones are refreshed in
+    // the background
+    const refreshing = holdings
+      .filter((h) => queueHoldingsRefresh(h.symbol))
+      .map((h) => h.symbol);
+
+    const funds = holdings.map((h) => ({
+      symbol: h.symbol,
+      name: h.name,
+      marketValue: h.market_value,
+      holdings: getCachedHoldings(h.symbol)?.holdings ?? [],
+    }));
+
+    const totalValue = funds.reduce((sum, f) => sum + f.marketValue, 0);
+    const coveredValue = funds
+      .filter((f) => f.holdings.length > 0)
+      .reduce((sum, f) => sum + f.marketValue, 0);
+
+    return NextResponse.json({
+      holdings: aggregateLookthroughHoldings(funds, totalValue),
+      totalValue,
+      coveragePercent: totalValue > 0 ? (coveredValue / totalValue) * 100 : 0,
+      refreshing,
+    });
+  } catch (error) {
+    console.error('Error aggregating look-through holdings:', error);
+    return NextResponse.json(
+      { error: 'Failed to aggregate look-through holdings' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,114 +1,144 @@
 import { NextResponse } from 'next/server';
-import { getAllHoldings } from '@/lib/db';
-import { fetchAllHoldingsPrices, getYahooSymbol } from '@/lib/price-fetcher';
-
-export async function GET() {
+import {
+  getAllHoldings,
+  getHoldingPositions,
+  getAllTransactions,
+  getFxRates,
+  getSettings,
+} from '@/lib/db';
+import { parseAccountParam, loadGbpPrices } from '@/lib/api';
+import { format } from 'date-fns';
+import { getYahooSymbol } from '@/lib/prices/yahoo-fetcher';
+import { queueFxRefreshes } from '@/lib/jobs/queue';
+import {
+  buildPositionLedger,
+  buildPortfolioHistory,
+  getPositionKey,
+  buildCashFlows,
+  alignCashFlows,
+  mergeCashFlows,
+  extractIncomePayments,
+  buildIncomeSummary,
+  getCurrencyPair,
+  createRateLookup,
+} from '@/lib/utils';
+
+/**
+ * Portfolio value, cash flows and holdings over time, in the base currency
+ * or in pounds (`?currency=GBP`) to compare with fund prices
+ */
+export async function GET(request: Request) {
   try {
-    const holdings = getAllHoldings();
+    const account = parseAccountParam(request);
+    if ('error' in account) return account.error;
+    const { accountId } = account;
+
+    const { searchParams } = new URL(request.url);
+
+    const { baseCurrency } = getSettings();
+    const currencies = Array.from(new Set(['GBP', baseCurrency]));
+    const targetCurrency = searchParams.get('currency') ?? baseCurrency;
+    if (!currencies.includes(targetCurrency)) {
+      return NextResponse.json(
+        { error: `Currency must be one of ${currencies.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const holdings = getAllHoldings(accountId);
 
     if (holdings.length === 0) {
       return NextResponse.json({
         holdings: [],
         portfolioHistory: [],
         fundPerformance: [],
+        cashFlows: [],
+        currency: targetCurrency,
+        refreshing: [],
+        ratesRefreshing: [],
         summary: null,
       });
     }
 
-    // Fetch historical prices for all holdings (15 years back)
-    const pricesMap = await fetchAllHoldingsPrices(
-      holdings.map((h) => ({
-        symbol: h.symbol,
-        sedol: h.sedol,
-        name: h.name,
-        isin: h.isin || undefined,
-        morningstar_id: h.morningstar_id || undefined,
-      })),
-      15
-    );
-
-    // Get all unique dates across all funds
-    const allDates = new Set<string>();
-    pricesMap.forEach((prices) => {
-      prices.forEach((p) => allDates.add(p.date));
-    });
-    const sortedDates = Array.from(allDates).sort();
-
-    // Build price lookup maps for each fund
-    const priceLookup = new Map<string, Map<string, number>>();
-    pricesMap.forEach((prices, symbol) => {
-      const lookup = new Map<string, number>();
-      prices.forEach((p) => lookup.set(p.date, p.price));
-      priceLookup.set(symbol, lookup);
-    });
-
-    // Calculate portfolio value and fund performance for each date
-    const portfolioHistory: Array<{ date: string; value: number; invested: number }> = [];
-    const fundPerformanceByDate: Array<{ date: string; [symbol: string]: number | string }> = [];
-
-    // Track last known prices for interpolation
-    const lastPrices = new Map<string, number>();
-
-    for (const date of sortedDates) {
-      let totalValue = 0;
-      let totalInvested = 0;
-      const fundGains: { date: string; [symbol: string]: number | string } = { date };
-
-      for (const holding of holdings) {
-        const priceMap = priceLookup.get(holding.symbol);
-        let price = priceMap?.get(date);
-
-        // Use last known price if no price for this date
-        if (price === undefined) {
-          price = lastPrices.get(holding.symbol);
-        } else {
-          lastPrices.set(holding.symbol, price);
-        }
-
-        if (price !== undefined) {
-          const value = holding.quantity * price;
-          totalValue += value;
-          totalInvested += holding.book_cost;
-
-          // Calculate % gain/loss for this fund
-          const gainPercent = ((value - holding.book_cost) / holding.book_cost) * 100;
-          fundGains[holding.symbol] = gainPercent;
-        }
-      }
+    // Funds sold since are valued while they were held, so they're priced too
+    const transactions = getAllTransactions(accountId);
+    const positions = getHoldingPositions(accountId);
+    const ledger = buildPositionLedger(transactions, getPositionKey);
+    const symbols = Array.from(new Set([
+      ...holdings.map((h) => h.symbol),
+      ...transactions.filter((tx) => ledger.has(getPositionKey(tx))).map((tx) => tx.symbol),
+    ]));
+
+    // ii reports book cost, value and cash flows in pounds, so prices quoted
+    // in other currencies are converted to pounds. Anything out of date is
+    // refreshed in the background and picked up on a later load. Totals are
+    // then converted to the base currency unless pounds were asked for,
+    // staying in pounds until its rates are cached.
+    const { prices: pricesMap, refreshing, ratesRefreshing: gbpRatesRefreshing } = loadGbpPrices(symbols);
+
+    const ratesRefreshing = targetCurrency === 'GBP'
+      ? gbpRatesRefreshing
+      : [...gbpRatesRefreshing, ...queueFxRefreshes([getCurrencyPair('GBP', targetCurrency)])];
+
+    const baseRates = targetCurrency === 'GBP' ? [] : getFxRates('GBP', targetCurrency);
+    const currency = baseRates.length > 0 ? targetCurrency : 'GBP';
+    const baseRateOn = createRateLookup(baseRates);
+    const rateOn = (date: string) => baseRateOn(date) ?? 1;
+    const currentRate = rateOn(format(new Date(), 'yyyy-MM-dd'));
+
+    // Value every position over time, including those since closed
+    const { history, fundPerformance, positionSeries } = buildPortfolioHistory(positions, transactions, pricesMap);
+    const portfolioHistory = history.map((p) => ({
+      date: p.date,
+      value: p.value * rateOn(p.date),
+      invested: p.invested * rateOn(p.date),
+    }));
 
-      if (totalValue > 0) {
-        portfolioHistory.push({
-          date,
-          value: totalValue,
-          invested: totalInvested,
-        });
-        fundPerformanceByDate.push(fundGains);
-      }
-    }
+    // External cash flows for time- and money-weighted returns
+    const transactionFlows = buildCashFlows(transactions, getPositionKey);
+    const positionKeys = new Set([...positions.map(getPositionKey), ...ledger.keys()]);
+    const cashFlows = mergeCashFlows(
+      Array.from(positionKeys, (key) => alignCashFlows(positionSeries.get(key) ?? [], transactionFlows.get(key) ?? []))
+    ).map((f) => ({ date: f.date, amount: f.amount * rateOn(f.date) }));
 
     // Calculate current summary
-    const totalInvested = holdings.reduce((sum, h) => sum + h.book_cost, 0);
-    const totalValue = holdings.reduce((sum, h) => sum + h.market_value, 0);
+    const totalInvested = holdings.reduce((sum, h) => sum + h.book_cost, 0) * currentRate;
+    const totalValue = holdings.reduce((sum, h) => sum + h.market_value, 0) * currentRate;
+
+    // Trailing 12-month dividend income per fund
+    const incomeHoldings = holdings.map((h) => ({
+      symbol: h.symbol,
+      name: h.name,
+      bookCost: h.book_cost,
+      marketValue: h.market_value,
+    }));
+    const income = buildIncomeSummary(extractIncomePayments(transactions, incomeHoldings), incomeHoldings);
+    const incomeBySymbol = new Map(income.byFund.map((f) => [f.symbol, f.trailing12m]));
 
     // Build holdings response with Yahoo symbol status
     const holdingsResponse = holdings.map((h) => ({
       symbol: h.symbol,
       name: h.name,
       quantity: h.quantity,
-      bookCost: h.book_cost,
-      currentPrice: h.current_price,
-      marketValue: h.market_value,
-      gainLoss: h.market_value - h.book_cost,
+      bookCost: h.book_cost * currentRate,
+      currentPrice: h.current_price * currentRate,
+      marketValue: h.market_value * currentRate,
+      gainLoss: (h.market_value - h.book_cost) * currentRate,
       gainLossPercent: ((h.market_value - h.book_cost) / h.book_cost) * 100,
       hasYahooSymbol: !!getYahooSymbol(h.symbol, h.sedol),
+      income12m: (incomeBySymbol.get(h.symbol) ?? 0) * currentRate,
     }));
 
     return NextResponse.json({
       holdings: holdingsResponse,
       portfolioHistory,
-      fundPerformance: fundPerformanceByDate,
+      fundPerformance,
+      cashFlows,
       fundNames: holdings.map((h) => h.symbol),
       fundLabels: Object.fromEntries(holdings.map((h) => [h.symbol, h.name])),
+      currency,
+      refreshing,
+      ratesRefreshing,
       summary: {
         totalValue,
         totalInvested,
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getSecurity } from '@/lib/db';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const security = getSecurity(Number(id));
+
+    if (!security) {
+      return NextResponse.json(
+        { error: 'Security not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(security);
+  } catch (error) {
+    console.error('Error fetching security:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch security' },
+      { status: 500 }
+    );
+  }
+}
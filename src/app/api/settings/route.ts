@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getSettings, setSetting, deleteSetting } from '@/lib/db';
+import { queuePriceRefreshes } from '@/lib/jobs/queue';
+import { SUPPORTED_CURRENCIES, normaliseBenchmarkSymbol } from '@/lib/utils';
+
+export async function GET() {
+  try {
+    return NextResponse.json(getSettings());
+  } catch (error) {
+    console.error('Error fetching settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    if (body.baseCurrency !== undefined) {
+      if (!(SUPPORTED_CURRENCIES as readonly string[]).includes(body.baseCurrency)) {
+        return NextResponse.json(
+          { error: `Base currency must be one of ${SUPPORTED_CURRENCIES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      setSetting('base_currency', body.baseCurrency);
+    }
+
+    if (body.riskFreeRate !== undefined) {
+      if (typeof body.riskFreeRate !== 'number' || !isFinite(body.riskFreeRate) || Math.abs(body.riskFreeRate) > 25) {
+        return NextResponse.json(
+          { error: 'Risk-free rate must be a percentage between -25 and 25' },
+          { status: 400 }
+        );
+      }
+      setSetting('risk_free_rate', String(body.riskFreeRate));
+    }
+
+    // Any symbol the price sources can find; null or blank clears it
+    if (body.benchmark !== undefined) {
+      const benchmark = typeof body.benchmark === 'string' ? normaliseBenchmarkSymbol(body.benchmark) : null;
+      if (benchmark) {
+        setSetting('benchmark', benchmark);
+        queuePriceRefreshes([benchmark]);
+      } else {
+        deleteSetting('benchmark');
+      }
+    }
+
+    return NextResponse.json(getSettings());
+  } catch (error) {
+    console.error('Error saving settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { getAccounts, getAllTransactions } from '@/lib/db';
+import { calculateCapitalGains, summariseTaxYear, getTaxYear } from '@/lib/utils';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const taxYear = searchParams.get('year') || getTaxYear(today);
+
+    // Gains in ISAs and SIPPs are sheltered, so only Trading accounts count.
+    // Holdings of the same fund across Trading accounts share one pool.
+    const taxableAccounts = new Set(
+      getAccounts().filter((a) => a.type === 'Trading').map((a) => a.id)
+    );
+    const disposals = calculateCapitalGains(
+      getAllTransactions().filter((tx) => taxableAccounts.has(tx.account_id))
+    );
+    const report = summariseTaxYear(disposals, taxYear);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Invalid tax year, expected a format like 2024-25' },
+        { status: 400 }
+      );
+    }
+
+    // Tax years with disposals, newest first, always including the requested year
+    const availableYears = Array.from(
+      new Set([taxYear, ...disposals.map((d) => d.taxYear)])
+    ).sort().reverse();
+
+    return NextResponse.json({ ...report, availableYears });
+  } catch (error) {
+    console.error('Error calculating capital gains:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate capital gains' },
+      { status: 500 }
+    );
+  }
+}
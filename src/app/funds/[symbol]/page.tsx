@@ -3,15 +3,47 @@
 import { useEffect, useState, useMemo } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, Info } from 'lucide-react';
+import { ArrowLeft, Info, Loader2 } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { SummaryCard } from '@/components/ui/summary-card';
 import { LoadingSpinner } from '@/components/ui/loading';
 import { DateRangeFilter } from '@/components/ui/date-range-filter';
+import { BenchmarkPicker } from '@/components/ui/benchmark-picker';
+import { RiskMetricsPanel } from '@/components/ui/risk-metrics-panel';
 import { FundValueChart } from '@/components/charts/fund-value-chart';
+import { FundPriceChart } from '@/components/charts/fund-price-chart';
 import { HoldingsPieChart } from '@/components/charts/holdings-pie-chart';
+import { ExposureBarChart } from '@/components/charts/exposure-bar-chart';
+import { UnderwaterChart } from '@/components/charts/underwater-chart';
 import { HoldingsCompositionTable } from '@/components/tables/holdings-composition-table';
-import type { FundHoldingsData } from '@/types';
+import { FundChangesTable } from '@/components/tables/fund-changes-table';
+import { DrawdownEpisodesTable } from '@/components/tables/drawdown-episodes-table';
+import type {
+  FundHoldingsData,
+  FundHoldingsHistoryResponse,
+  CashFlow,
+  SourcedPricePoint,
+  PriceSourceResponse,
+  BenchmarkResponse,
+  AppSettings,
+  DateRange,
+  DrawdownEpisode,
+} from '@/types';
+import {
+  calculateReturns,
+  filterByDateRange,
+  formatDate,
+  calculateSectorExposure,
+  calculateRegionExposure,
+  rebasePercentageData,
+  addBenchmarkGrowth,
+  getBenchmarkReturn,
+  BENCHMARK_KEY,
+  calculateRiskMetrics,
+  DEFAULT_RISK_FREE_RATE,
+  calculateUnderwaterSeries,
+  getWorstDrawdowns,
+} from '@/lib/utils';
 
 interface FundData {
   symbol: string;
@@ -24,9 +56,14 @@ interface FundData {
   gainLoss: number;
   gainLossPercent: number;
   hasYahooSymbol: boolean;
-  priceHistory: Array<{ date: string; price: number }>;
+  hasTransactionHistory: boolean;
+  priceHistory: SourcedPricePoint[];
+  pricesRefreshing: boolean;
   valueHistory: Array<{ date: string; value: number }>;
+  cashFlows: CashFlow[];
+  benchmark: string | null;
   holdingsData?: FundHoldingsData | null;
+  holdingsRefreshing?: boolean;
 }
 
 export default function FundPage() {
@@ -39,6 +76,25 @@ export default function FundPage() {
     start: null,
     end: null,
   });
+  const [zoomRange, setZoomRange] = useState<DateRange | null>(null);
+  const [priceSource, setPriceSource] = useState<PriceSourceResponse | null>(null);
+  const [isPinning, setIsPinning] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [holdingsTab, setHoldingsTab] = useState<'current' | 'changes'>('current');
+  const [history, setHistory] = useState<FundHoldingsHistoryResponse | null>(null);
+  const [compareRange, setCompareRange] = useState<{ from: string | null; to: string | null }>({
+    from: null,
+    to: null,
+  });
+  const [benchmarkData, setBenchmarkData] = useState<BenchmarkResponse | null>(null);
+  const [riskFreeRate, setRiskFreeRate] = useState(DEFAULT_RISK_FREE_RATE);
+
+  useEffect(() => {
+    fetch('/api/settings')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result: AppSettings | null) => result && setRiskFreeRate(result.riskFreeRate))
+      .catch((err) => console.warn('Failed to fetch settings:', err));
+  }, []);
 
   useEffect(() => {
     async function fetchFund() {
@@ -55,10 +111,12 @@ export default function FundPage() {
 
         // Fetch holdings data separately (non-blocking)
         let holdingsData = null;
+        let holdingsRefreshing = false;
         try {
           const holdingsResponse = await fetch(`/api/funds/${encodeURIComponent(symbol)}/holdings`);
           if (holdingsResponse.ok) {
             holdingsData = await holdingsResponse.json();
+            holdingsRefreshing = !!holdingsData?.refreshing;
             // Only include if we have actual holdings
             if (holdingsData?.holdings?.length === 0) {
               holdingsData = null;
@@ -69,7 +127,7 @@ export default function FundPage() {
           // Don't fail the whole page if holdings fetch fails
         }
 
-        setFund({ ...data, holdingsData });
+        setFund({ ...data, holdingsData, holdingsRefreshing });
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred');
       } finally {
@@ -79,7 +137,89 @@ export default function FundPage() {
     if (symbol) {
       fetchFund();
     }
-  }, [symbol]);
+  }, [symbol, reloadKey]);
+
+  // Price source details are supplementary - don't fail the page without them
+  useEffect(() => {
+    if (!symbol) return;
+    fetch(`/api/funds/${encodeURIComponent(symbol)}/price-source`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setPriceSource(result))
+      .catch((err) => console.warn('Failed to fetch price sources:', err));
+  }, [symbol, reloadKey]);
+
+  // Holdings history is only loaded once the changes tab is opened
+  useEffect(() => {
+    if (!symbol || holdingsTab !== 'changes') return;
+    const query = new URLSearchParams();
+    if (compareRange.from) query.set('from', compareRange.from);
+    if (compareRange.to) query.set('to', compareRange.to);
+    fetch(`/api/funds/${encodeURIComponent(symbol)}/holdings/history?${query}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setHistory(result))
+      .catch((err) => console.warn('Failed to fetch holdings history:', err));
+  }, [symbol, holdingsTab, compareRange.from, compareRange.to]);
+
+  // Benchmark prices are supplementary too, and fetched in the background
+  const benchmarkUrl = fund?.benchmark ? `/api/benchmarks/${encodeURIComponent(fund.benchmark)}` : null;
+
+  useEffect(() => {
+    if (!benchmarkUrl) {
+      setBenchmarkData(null);
+      return;
+    }
+    fetch(benchmarkUrl)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setBenchmarkData(result))
+      .catch((err) => console.warn('Failed to fetch benchmark prices:', err));
+  }, [benchmarkUrl]);
+
+  useEffect(() => {
+    if (!benchmarkUrl || !benchmarkData?.refreshing) return;
+
+    const timer = setTimeout(() => {
+      fetch(benchmarkUrl)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((result) => result && setBenchmarkData(result))
+        .catch((err) => console.warn('Failed to reload benchmark prices:', err));
+    }, 10000);
+    return () => clearTimeout(timer);
+  }, [benchmarkUrl, benchmarkData]);
+
+  const handleBenchmarkChange = async (benchmark: string | null) => {
+    try {
+      const response = await fetch(`/api/funds/${encodeURIComponent(symbol)}/benchmark`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ benchmark }),
+      });
+      if (!response.ok) throw new Error('Failed to save benchmark');
+      const result: { benchmark: string | null } = await response.json();
+      setFund((prev) => prev && { ...prev, benchmark: result.benchmark });
+    } catch (err) {
+      console.warn('Failed to update benchmark:', err);
+    }
+  };
+
+  const handlePinSource = async (provider: string | null) => {
+    setIsPinning(true);
+    try {
+      const response = await fetch(`/api/funds/${encodeURIComponent(symbol)}/price-source`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update price source');
+      }
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      console.warn('Failed to update price source:', err);
+    } finally {
+      setIsPinning(false);
+    }
+  };
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-GB', {
@@ -97,14 +237,84 @@ export default function FundPage() {
 
   // Filter value history based on date range
   const filteredValueHistory = useMemo(() => {
-    if (!fund?.valueHistory || !dateRange.start) return fund?.valueHistory ?? [];
-    return fund.valueHistory.filter((v) => v.date >= dateRange.start!);
-  }, [fund?.valueHistory, dateRange.start]);
+    if (!fund?.valueHistory) return [];
+    return filterByDateRange(fund.valueHistory, dateRange.start, dateRange.end);
+  }, [fund?.valueHistory, dateRange.start, dateRange.end]);
+
+  const filteredPriceHistory = useMemo(() => {
+    if (!fund?.priceHistory) return [];
+    return filterByDateRange(fund.priceHistory, dateRange.start, dateRange.end);
+  }, [fund?.priceHistory, dateRange.start, dateRange.end]);
+
+  // Drawdowns of the fund's price: in the selected period, and the worst ever
+  const underwater = useMemo(
+    () => calculateUnderwaterSeries(filteredPriceHistory.map((p) => ({ date: p.date, value: p.price }))),
+    [filteredPriceHistory]
+  );
+
+  const worstDrawdowns = useMemo(() => {
+    if (!fund?.priceHistory) return [];
+    return getWorstDrawdowns(fund.priceHistory.map((p) => ({ date: p.date, value: p.price })));
+  }, [fund?.priceHistory]);
+
+  // The benchmark's growth over the range, starting from the fund's price
+  // on its first day
+  const priceChartData = useMemo(() => {
+    if (!benchmarkData) return filteredPriceHistory;
+    const rebased = rebasePercentageData(
+      addBenchmarkGrowth(filteredPriceHistory.map((p) => ({ date: p.date })), benchmarkData.prices)
+    );
+    const start = rebased.findIndex((p) => p[BENCHMARK_KEY] !== undefined);
+    if (start === -1) return filteredPriceHistory;
+
+    const basePrice = filteredPriceHistory[start].price;
+    return filteredPriceHistory.map((p, i) => {
+      const growth = rebased[i][BENCHMARK_KEY];
+      return growth !== undefined ? { ...p, benchmark: basePrice * (1 + growth / 100) } : p;
+    });
+  }, [filteredPriceHistory, benchmarkData]);
+
+  // Risk is measured on the fund's price, so buying and selling doesn't affect it
+  const riskMetrics = useMemo(() => {
+    if (!fund?.priceHistory.length) return null;
+    return calculateRiskMetrics(
+      fund.priceHistory.map((p) => ({ date: p.date, value: p.price })),
+      [],
+      riskFreeRate,
+      dateRange.start,
+      dateRange.end
+    );
+  }, [fund?.priceHistory, riskFreeRate, dateRange.start, dateRange.end]);
+
+  const benchmarkReturn = useMemo(() => {
+    if (!benchmarkData) return null;
+    return getBenchmarkReturn(benchmarkData.prices, filteredValueHistory.map((v) => v.date));
+  }, [filteredValueHistory, benchmarkData]);
+
+  const periodReturns = useMemo(() => {
+    if (!fund?.valueHistory) return null;
+    return calculateReturns(fund.valueHistory, fund.cashFlows ?? [], dateRange.start, dateRange.end);
+  }, [fund?.valueHistory, fund?.cashFlows, dateRange.start, dateRange.end]);
+
+  // Sector and region split of the fund's own holdings
+  const breakdowns = useMemo(() => {
+    const holdings = fund?.holdingsData?.holdings;
+    if (!holdings || holdings.length === 0) return null;
+    const funds = [{ marketValue: fund.marketValue, holdings }];
+    return { sector: calculateSectorExposure(funds), region: calculateRegionExposure(funds) };
+  }, [fund?.holdingsData?.holdings, fund?.marketValue]);
 
   const handleDateRangeChange = (start: string | null, end: string | null) => {
     setDateRange({ start, end });
   };
 
+  // Zoom from the high before a drawdown to its recovery (or today)
+  const handleDrawdownSelect = (episode: DrawdownEpisode) => {
+    const range = { start: episode.peakDate, end: episode.recoveryDate };
+    setZoomRange(range);
+    setDateRange(range);
+  };
+
   if (loading) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
@@ -134,6 +344,34 @@ export default function FundPage() {
   const isPositive = fund.gainLoss >= 0;
   const avgCostPerUnit = fund.bookCost / fund.quantity;
 
+  const sourceLabels = Object.fromEntries(
+    (priceSource?.available ?? []).map((p) => [p.name, p.displayName])
+  );
+  const describeSource = (source: string | null) =>
+    source ? sourceLabels[source] ?? source : 'Unknown source';
+
+  const priceSourceControl = priceSource && (
+    <div className="flex items-center gap-2">
+      <label htmlFor="price-source" className="text-sm text-gray-500 dark:text-gray-400">
+        Price source
+      </label>
+      <select
+        id="price-source"
+        value={priceSource.pinned ?? ''}
+        onChange={(e) => handlePinSource(e.target.value || null)}
+        disabled={isPinning}
+        className="px-3 py-1.5 text-sm border rounded-md dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+      >
+        <option value="">Automatic</option>
+        {priceSource.available.map((p) => (
+          <option key={p.name} value={p.name}>
+            {p.displayName}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
   return (
     <div className="space-y-8">
       {/* Back link and header */}
@@ -154,6 +392,16 @@ export default function FundPage() {
             )}
           </div>
         </div>
+        {(fund.pricesRefreshing || fund.holdingsRefreshing) && (
+          <p className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {fund.pricesRefreshing && fund.holdingsRefreshing
+              ? 'Updating prices and fund holdings in the background'
+              : fund.pricesRefreshing
+                ? 'Updating prices in the background'
+                : 'Updating fund holdings in the background'}
+          </p>
+        )}
       </div>
 
       {/* Summary Cards */}
@@ -202,16 +450,126 @@ export default function FundPage() {
         </Card>
       )}
 
-      {/* Top Holdings Table */}
+      {/* Sector and Region Breakdown */}
+      {breakdowns && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Sectors</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ExposureBarChart
+                data={breakdowns.sector.slices}
+                emptyMessage="The holdings provider doesn't give sectors for this fund"
+              />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Regions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ExposureBarChart
+                data={breakdowns.region.slices}
+                emptyMessage="The holdings provider doesn't give countries for this fund"
+              />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Holdings Breakdown and changes between factsheets */}
       {fund.holdingsData && fund.holdingsData.holdings.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle>
-              Holdings Breakdown ({fund.holdingsData.numberOfHoldings} total)
-            </CardTitle>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <CardTitle>
+                {holdingsTab === 'current'
+                  ? `Holdings Breakdown (${fund.holdingsData.numberOfHoldings} total)`
+                  : 'Holdings Changes'}
+              </CardTitle>
+              <div className="flex gap-2">
+                {([
+                  { value: 'current', label: 'Current' },
+                  { value: 'changes', label: 'Changes' },
+                ] as const).map((tab) => (
+                  <button
+                    key={tab.value}
+                    onClick={() => setHoldingsTab(tab.value)}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      holdingsTab === tab.value
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
+            </div>
           </CardHeader>
           <CardContent>
-            <HoldingsCompositionTable data={fund.holdingsData.holdings} />
+            {holdingsTab === 'current' ? (
+              <HoldingsCompositionTable data={fund.holdingsData.holdings} />
+            ) : !history ? (
+              <div className="flex justify-center py-8">
+                <LoadingSpinner />
+              </div>
+            ) : !history.comparison ? (
+              <p className="text-center text-gray-500 py-8">
+                Changes will show once holdings have been fetched for a second date
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  {(['from', 'to'] as const).map((end) => (
+                    <label key={end} className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+                      {end === 'from' ? 'Compare' : 'with'}
+                      <select
+                        value={history.comparison![end]}
+                        onChange={(e) =>
+                          setCompareRange({
+                            from: history.comparison!.from,
+                            to: history.comparison!.to,
+                            [end]: e.target.value,
+                          })
+                        }
+                        className="px-3 py-1.5 text-sm border rounded-md dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+                      >
+                        {history.dates
+                          .filter((date) => (end === 'from' ? date < history.comparison!.to : date > history.comparison!.from))
+                          .map((date) => (
+                            <option key={date} value={date}>
+                              {formatDate(date, 'dd/MM/yyyy')}
+                            </option>
+                          ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <SummaryCard
+                    title="Estimated Turnover"
+                    value={`${history.comparison.turnoverPercent.toFixed(1)}%`}
+                    subtitle="of the fund, including price moves"
+                  />
+                  <SummaryCard title="Added" value={history.comparison.newPositions.toString()} subtitle="new positions" />
+                  <SummaryCard title="Removed" value={history.comparison.closedPositions.toString()} subtitle="positions sold out" />
+                  <SummaryCard
+                    title="Weight Changes"
+                    value={(history.comparison.increasedPositions + history.comparison.reducedPositions).toString()}
+                    subtitle={`${history.comparison.increasedPositions} increased, ${history.comparison.reducedPositions} reduced`}
+                  />
+                </div>
+
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Some providers only list a fund&apos;s largest holdings, so a position dropping out of the list
+                  shows as removed.
+                </p>
+                <FundChangesTable data={history.comparison.changes} />
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -222,14 +580,57 @@ export default function FundPage() {
           {/* Date Range Filter */}
           <div className="flex items-center justify-between">
             <span className="text-sm text-gray-500 dark:text-gray-400">Time period:</span>
-            <DateRangeFilter onRangeChange={handleDateRangeChange} />
+            <DateRangeFilter onRangeChange={handleDateRangeChange} range={zoomRange} />
+          </div>
+
+          {/* Returns for the selected period */}
+          <div className={`grid grid-cols-1 md:grid-cols-2 ${fund.benchmark ? 'lg:grid-cols-3' : ''} gap-4`}>
+            <SummaryCard
+              title="Time-Weighted Return"
+              value={periodReturns?.timeWeighted != null ? formatPercent(periodReturns.timeWeighted) : 'N/A'}
+              trend={(periodReturns?.timeWeighted ?? 0) >= 0 ? 'up' : 'down'}
+              subtitle={
+                periodReturns?.timeWeightedAnnualised != null
+                  ? `${formatPercent(periodReturns.timeWeightedAnnualised)} p.a. - the fund's own performance`
+                  : "the fund's own performance"
+              }
+            />
+            <SummaryCard
+              title="Money-Weighted Return (XIRR)"
+              value={periodReturns?.moneyWeighted != null ? `${formatPercent(periodReturns.moneyWeighted)} p.a.` : 'N/A'}
+              trend={(periodReturns?.moneyWeighted ?? 0) >= 0 ? 'up' : 'down'}
+              subtitle="your return, including the timing of your trades"
+            />
+            {fund.benchmark && (
+              <SummaryCard
+                title={`Relative to ${fund.benchmark}`}
+                value={
+                  periodReturns?.timeWeighted != null && benchmarkReturn !== null
+                    ? formatPercent(periodReturns.timeWeighted - benchmarkReturn)
+                    : 'N/A'
+                }
+                trend={(periodReturns?.timeWeighted ?? 0) - (benchmarkReturn ?? 0) >= 0 ? 'up' : 'down'}
+                subtitle={
+                  benchmarkReturn !== null
+                    ? `time-weighted return vs ${formatPercent(benchmarkReturn)} for ${fund.benchmark}`
+                    : benchmarkData?.refreshing
+                      ? `fetching ${fund.benchmark} prices`
+                      : `no ${fund.benchmark} prices for the selected period`
+                }
+              />
+            )}
           </div>
 
+          {/* Risk of holding the fund over the selected period */}
+          <RiskMetricsPanel metrics={riskMetrics} />
+
           <Card>
             <CardHeader>
               <CardTitle>Position Value Over Time</CardTitle>
               <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                Your investment value based on {fund.quantity.toLocaleString('en-GB', { maximumFractionDigits: 4 })} units
+                {fund.hasTransactionHistory
+                  ? 'Your investment value based on the units held on each date'
+                  : `Your investment value based on ${fund.quantity.toLocaleString('en-GB', { maximumFractionDigits: 4 })} units`}
               </p>
             </CardHeader>
             <CardContent>
@@ -239,13 +640,72 @@ export default function FundPage() {
         </>
       )}
 
+      {/* Price History Chart */}
+      {fund.priceHistory.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>Price History</CardTitle>
+                {priceSource && priceSource.sources.length > 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    {priceSource.sources
+                      .map((s) => `${describeSource(s.source)} (${s.count.toLocaleString('en-GB')} prices, ${s.currency})`)
+                      .join(', ')}
+                  </p>
+                )}
+              </div>
+              {priceSourceControl}
+            </div>
+            <div className="mt-4">
+              <BenchmarkPicker benchmark={fund.benchmark} onBenchmarkChange={handleBenchmarkChange} />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <FundPriceChart
+              data={priceChartData}
+              sourceLabels={sourceLabels}
+              benchmarkLabel={benchmarkData?.symbol}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Drawdowns */}
+      {fund.priceHistory.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Drawdowns</CardTitle>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              How far the fund&apos;s price was below its previous high - useful for judging whether a dip is
+              normal for it
+            </p>
+          </CardHeader>
+          <CardContent>
+            <UnderwaterChart data={underwater} />
+            {worstDrawdowns.length > 0 && (
+              <div className="mt-6">
+                <h3 className="font-medium text-gray-900 dark:text-white">Worst Drawdowns</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+                  Across all cached prices - click one to zoom to it
+                </p>
+                <DrawdownEpisodesTable data={worstDrawdowns} onSelect={handleDrawdownSelect} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* No price data message */}
       {fund.priceHistory.length === 0 && (
         <Card>
           <CardContent className="py-8">
-            <div className="flex items-center justify-center gap-3 text-gray-500 dark:text-gray-400">
-              <Info className="w-5 h-5" />
-              <p>Historical price data is not available for this fund.</p>
+            <div className="flex flex-col items-center gap-4">
+              <div className="flex items-center justify-center gap-3 text-gray-500 dark:text-gray-400">
+                <Info className="w-5 h-5" />
+                <p>Historical price data is not available for this fund.</p>
+              </div>
+              {priceSourceControl}
             </div>
           </CardContent>
         </Card>
@@ -1,13 +1,29 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Upload, CheckCircle, AlertCircle, Trash2 } from 'lucide-react';
+import { Upload, CheckCircle, AlertCircle, Trash2, Plus, Loader2, XCircle, Clock } from 'lucide-react';
+import { detectExportType } from '@/lib/csv-parser';
+import { ImportDiffTable } from '@/components/tables/import-diff-table';
+import type {
+  Account,
+  AccountType,
+  ExportType,
+  FetchStatus,
+  HoldingsDiff,
+  ImportStreamEvent,
+} from '@/types';
+
+const ACCOUNT_TYPES: AccountType[] = ['ISA', 'SIPP', 'Trading'];
 
 interface ImportResult {
   success: boolean;
+  exportType?: ExportType;
   imported?: number;
+  transactionsImported?: number;
+  duplicatesSkipped?: number;
+  dateRange?: { start: string; end: string };
   holdings?: Array<{
     symbol: string;
     name: string;
@@ -20,12 +36,126 @@ interface ImportResult {
   details?: string;
 }
 
+// What an import would change, from a dry run
+interface ImportPreview {
+  file: File;
+  exportType: ExportType;
+  accountId: number | null;
+  fundsParsed?: number;
+  diff?: HoldingsDiff;
+  transactionsParsed?: number;
+  transactionsNew?: number;
+  duplicatesSkipped?: number;
+  dateRange?: { start: string; end: string };
+}
+
+// Live status of one fund while its underlying holdings are fetched
+interface FundProgress {
+  symbol: string;
+  name: string;
+  status: FetchStatus;
+  provider?: string;
+  holdingsCount?: number;
+  error?: string;
+}
+
+function uploadFile(file: File, exportType: ExportType, accountId: number | null, dryRun: boolean) {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('type', exportType);
+  if (accountId !== null) {
+    formData.append('accountId', String(accountId));
+  }
+  if (dryRun) {
+    formData.append('dryRun', 'true');
+  }
+
+  // Ask for fund holdings fetch progress to be streamed as it happens
+  return fetch('/api/import', {
+    method: 'POST',
+    headers: dryRun ? undefined : { Accept: 'application/x-ndjson' },
+    body: formData,
+  });
+}
+
+async function readImportStream(response: Response, onEvent: (event: ImportStreamEvent) => void) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line));
+    }
+  }
+
+  if (buffer.trim()) onEvent(JSON.parse(buffer));
+}
+
 export default function ImportPage() {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadType, setUploadType] = useState<ExportType>('unknown');
   const [result, setResult] = useState<ImportResult | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [fundProgress, setFundProgress] = useState<FundProgress[]>([]);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState<number | null>(null);
+  const [showNewAccount, setShowNewAccount] = useState(false);
+  const [newAccountName, setNewAccountName] = useState('');
+  const [newAccountType, setNewAccountType] = useState<AccountType>('ISA');
+  const [accountError, setAccountError] = useState<string | null>(null);
+
+  // The drop and file input handlers are memoised, so they read the
+  // selected account through a ref rather than a stale closure
+  const accountIdRef = useRef<number | null>(null);
+  useEffect(() => {
+    accountIdRef.current = accountId;
+  }, [accountId]);
+
+  useEffect(() => {
+    fetch('/api/accounts')
+      .then((response) => (response.ok ? response.json() : { accounts: [] }))
+      .then((result: { accounts: Account[] }) => {
+        setAccounts(result.accounts);
+        if (result.accounts.length > 0) {
+          setAccountId((current) => current ?? result.accounts[0].id);
+        }
+      })
+      .catch((err) => console.warn('Failed to fetch accounts:', err));
+  }, []);
+
+  const handleCreateAccount = async () => {
+    setAccountError(null);
+    try {
+      const response = await fetch('/api/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newAccountName, type: newAccountType }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setAccountError(data.error);
+        return;
+      }
+
+      setAccounts((current) => [...current, data]);
+      setAccountId(data.id);
+      setNewAccountName('');
+      setShowNewAccount(false);
+    } catch {
+      setAccountError('Failed to create account. Please try again.');
+    }
+  };
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -53,6 +183,7 @@ export default function ImportPage() {
     }
   }, []);
 
+  // Check the file first and show what it would change before importing it
   const handleFile = async (file: File) => {
     if (!file.name.endsWith('.csv')) {
       setResult({ success: false, error: 'Please upload a CSV file' });
@@ -61,22 +192,100 @@ export default function ImportPage() {
 
     setIsUploading(true);
     setResult(null);
+    setPreview(null);
+    setFundProgress([]);
 
     try {
-      const formData = new FormData();
-      formData.append('file', file);
+      // Work out which export this is so the server and UI agree on it
+      const exportType = detectExportType(await file.text());
+      setUploadType(exportType);
 
-      const response = await fetch('/api/import', {
-        method: 'POST',
-        body: formData,
+      const response = await uploadFile(file, exportType, accountIdRef.current, true);
+      const data = await response.json();
+
+      if (response.ok) {
+        setPreview({
+          file,
+          exportType: data.exportType,
+          accountId: data.accountId,
+          fundsParsed: data.fundsParsed,
+          diff: data.diff,
+          transactionsParsed: data.transactionsParsed,
+          transactionsNew: data.transactionsImported,
+          duplicatesSkipped: data.duplicatesSkipped,
+          dateRange: data.dateRange,
+        });
+      } else {
+        setResult({
+          success: false,
+          error: data.error,
+          errors: data.errors,
+          details: data.details,
+        });
+      }
+    } catch {
+      setResult({
+        success: false,
+        error: 'Failed to read file. Please try again.',
       });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!preview) return;
+
+    setIsUploading(true);
+    setPreview(null);
+    setFundProgress([]);
+
+    try {
+      const response = await uploadFile(preview.file, preview.exportType, preview.accountId, false);
+
+      if (response.headers.get('content-type')?.includes('application/x-ndjson')) {
+        await readImportStream(response, (event) => {
+          if (event.type === 'start') {
+            setFundProgress(event.funds.map((f) => ({ ...f, status: 'pending' })));
+          } else if (event.type === 'progress') {
+            const { fundSymbol, ...update } = event.update;
+            setFundProgress((rows) =>
+              rows.map((row) => (row.symbol === fundSymbol ? { ...row, ...update } : row))
+            );
+          } else if (event.type === 'complete') {
+            const { result } = event;
+            setFundProgress((rows) =>
+              rows.map((row) => {
+                const final = result.holdingsResults.find((r) => r.symbol === row.symbol);
+                return final
+                  ? { ...row, status: final.status, provider: final.provider, holdingsCount: final.holdingsCount, error: final.error }
+                  : row;
+              })
+            );
+            setResult({
+              success: true,
+              exportType: result.exportType,
+              imported: result.fundsImported,
+              holdings: result.holdings,
+              errors: result.errors,
+            });
+          } else {
+            setResult({ success: false, error: 'Failed to fetch fund holdings', details: event.error });
+          }
+        });
+        return;
+      }
 
       const data = await response.json();
 
       if (response.ok) {
         setResult({
           success: true,
-          imported: data.imported,
+          exportType: data.exportType,
+          imported: data.fundsImported,
+          transactionsImported: data.transactionsImported,
+          duplicatesSkipped: data.duplicatesSkipped,
+          dateRange: data.dateRange,
           holdings: data.holdings,
           errors: data.errors,
         });
@@ -129,7 +338,7 @@ export default function ImportPage() {
       <div>
         <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Import Holdings</h1>
         <p className="text-gray-600 dark:text-gray-400 mt-1">
-          Upload your portfolio statement from ii.co.uk
+          Upload your portfolio statement or transaction history from ii.co.uk
         </p>
       </div>
 
@@ -146,6 +355,75 @@ export default function ImportPage() {
             <li>Select CSV format</li>
             <li>Upload the downloaded file below</li>
           </ol>
+          <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+            For your full trade history, export the CSV from the Transactions page instead.
+            The file type is detected automatically, and transactions that were already
+            imported are skipped.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Target Account */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Account</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            Choose which account this file belongs to. Importing a holdings statement
+            replaces the current holdings in that account only - earlier statements
+            are kept in the import history.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={accountId ?? ''}
+              onChange={(e) => setAccountId(Number(e.target.value))}
+              className="px-3 py-2 text-sm border rounded-md dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+            >
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name} ({account.type})
+                </option>
+              ))}
+            </select>
+            {!showNewAccount && (
+              <Button variant="secondary" onClick={() => setShowNewAccount(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                New Account
+              </Button>
+            )}
+          </div>
+
+          {showNewAccount && (
+            <div className="flex flex-wrap items-center gap-3 mt-4">
+              <input
+                type="text"
+                value={newAccountName}
+                onChange={(e) => setNewAccountName(e.target.value)}
+                placeholder="Account name, e.g. Stocks & Shares ISA"
+                className="px-3 py-2 text-sm border rounded-md dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+              />
+              <select
+                value={newAccountType}
+                onChange={(e) => setNewAccountType(e.target.value as AccountType)}
+                className="px-3 py-2 text-sm border rounded-md dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+              >
+                {ACCOUNT_TYPES.map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <Button onClick={handleCreateAccount} disabled={!newAccountName.trim()}>
+                Create
+              </Button>
+              <Button variant="secondary" onClick={() => setShowNewAccount(false)}>
+                Cancel
+              </Button>
+            </div>
+          )}
+
+          {accountError && (
+            <p className="text-sm text-red-600 mt-2">{accountError}</p>
+          )}
         </CardContent>
       </Card>
 
@@ -165,7 +443,11 @@ export default function ImportPage() {
             {isUploading ? (
               <div className="flex flex-col items-center">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mb-4"></div>
-                <p className="text-gray-600 dark:text-gray-400">Processing file...</p>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {uploadType === 'transactions'
+                    ? 'Importing transaction history...'
+                    : 'Processing file...'}
+                </p>
               </div>
             ) : (
               <>
@@ -189,6 +471,98 @@ export default function ImportPage() {
         </CardContent>
       </Card>
 
+      {/* Live fund holdings fetch progress */}
+      {fundProgress.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Fetching fund holdings</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    <th className="px-4 py-2 text-left text-gray-700 dark:text-gray-300">Fund</th>
+                    <th className="px-4 py-2 text-left text-gray-700 dark:text-gray-300">Provider</th>
+                    <th className="px-4 py-2 text-left text-gray-700 dark:text-gray-300">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fundProgress.map((row) => (
+                    <tr key={row.symbol} className="border-b border-gray-100 dark:border-gray-700/50">
+                      <td className="px-4 py-2 text-gray-900 dark:text-gray-100">
+                        <div className="font-medium">{row.name}</div>
+                        <div className="text-xs text-gray-500">{row.symbol}</div>
+                      </td>
+                      <td className="px-4 py-2 text-gray-600 dark:text-gray-400">{row.provider ?? '-'}</td>
+                      <td className="px-4 py-2">
+                        {row.status === 'pending' && (
+                          <span className="flex items-center gap-2 text-gray-500">
+                            <Clock className="w-4 h-4" /> Waiting
+                          </span>
+                        )}
+                        {row.status === 'trying' && (
+                          <span className="flex items-center gap-2 text-blue-600">
+                            <Loader2 className="w-4 h-4 animate-spin" /> Trying
+                          </span>
+                        )}
+                        {row.status === 'success' && (
+                          <span className="flex items-center gap-2 text-green-600">
+                            <CheckCircle className="w-4 h-4" /> {row.holdingsCount} holdings
+                          </span>
+                        )}
+                        {row.status === 'failed' && (
+                          <span className="flex items-center gap-2 text-red-600" title={row.error}>
+                            <XCircle className="w-4 h-4" /> {isUploading ? 'Provider failed' : 'Not available'}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Check before importing</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {preview.exportType === 'transactions' ? (
+              <p className="text-gray-600 dark:text-gray-400">
+                {preview.transactionsNew} new transactions
+                {preview.dateRange && ` from ${preview.dateRange.start} to ${preview.dateRange.end}`}
+                {!!preview.duplicatesSkipped && ` (${preview.duplicatesSkipped} already imported and will be skipped)`}
+              </p>
+            ) : (
+              preview.diff && (
+                <>
+                  <p className="text-gray-600 dark:text-gray-400 mb-4">
+                    {preview.fundsParsed} holdings will replace the current holdings in{' '}
+                    {accounts.find((a) => a.id === preview.accountId)?.name ?? 'this account'}:{' '}
+                    {preview.diff.newPositions} new, {preview.diff.closedPositions} closed,{' '}
+                    {preview.diff.increasedPositions} added to, {preview.diff.reducedPositions} reduced,{' '}
+                    {preview.diff.unchangedPositions} unchanged
+                  </p>
+                  <ImportDiffTable data={preview.diff.changes} />
+                </>
+              )
+            )}
+            <div className="flex gap-3 pt-6">
+              <Button onClick={handleConfirmImport}>Confirm Import</Button>
+              <Button variant="secondary" onClick={() => setPreview(null)}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Result */}
       {result && (
         <Card>
@@ -201,9 +575,17 @@ export default function ImportPage() {
                     <p className="font-medium text-green-700 dark:text-green-400">
                       Import successful!
                     </p>
-                    <p className="text-gray-600 dark:text-gray-400 mt-1">
-                      Imported {result.imported} holdings
-                    </p>
+                    {result.exportType === 'transactions' ? (
+                      <p className="text-gray-600 dark:text-gray-400 mt-1">
+                        Imported {result.transactionsImported} transactions
+                        {result.dateRange && ` from ${result.dateRange.start} to ${result.dateRange.end}`}
+                        {!!result.duplicatesSkipped && ` (${result.duplicatesSkipped} already imported)`}
+                      </p>
+                    ) : (
+                      <p className="text-gray-600 dark:text-gray-400 mt-1">
+                        Imported {result.imported} holdings
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -281,7 +663,7 @@ export default function ImportPage() {
             <div>
               <p className="font-medium text-gray-900 dark:text-white">Delete all data</p>
               <p className="text-sm text-gray-500 dark:text-gray-400">
-                Remove all holdings and cached price data. This cannot be undone.
+                Remove all holdings, transactions, import history and cached price data. This cannot be undone.
               </p>
             </div>
             <Button
@@ -303,8 +685,8 @@ export default function ImportPage() {
               Delete all data?
             </h3>
             <p className="text-gray-600 dark:text-gray-400 mb-6">
-              This will permanently delete all your holdings and cached price data.
-              You will need to re-import your portfolio statement.
+              This will permanently delete all your holdings, transactions and cached price data.
+              You will need to re-import your portfolio statement and transaction history.
             </p>
             <div className="flex gap-3 justify-end">
               <Button
@@ -0,0 +1,304 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { LoadingSpinner } from '@/components/ui/loading';
+import { Button } from '@/components/ui/button';
+import { Undo2 } from 'lucide-react';
+import { ImportDiffTable } from '@/components/tables/import-diff-table';
+import type { ImportSnapshot, ImportDiffResponse } from '@/types';
+import { formatCurrency } from '@/lib/utils';
+
+// SQLite timestamps are UTC, written as "YYYY-MM-DD HH:MM:SS"
+function formatImportedAt(importedAt: string) {
+  return format(parseISO(`${importedAt.replace(' ', 'T')}Z`), 'dd/MM/yyyy HH:mm');
+}
+
+function describeImport(snapshot: ImportSnapshot) {
+  return `${formatImportedAt(snapshot.importedAt)} - ${snapshot.accountName}`;
+}
+
+export default function ImportHistoryPage() {
+  const [imports, setImports] = useState<ImportSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [diff, setDiff] = useState<ImportDiffResponse | null>(null);
+  const [rollbackTarget, setRollbackTarget] = useState<ImportSnapshot | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    async function fetchImports() {
+      try {
+        const response = await fetch('/api/imports');
+        if (!response.ok) throw new Error('Failed to fetch import history');
+        const result: { imports: ImportSnapshot[] } = await response.json();
+        setImports(result.imports);
+        setToId(result.imports.find((i) => i.type === 'holdings')?.id ?? null);
+        setFromId(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchImports();
+  }, [reloadKey]);
+
+  useEffect(() => {
+    if (toId === null) return;
+
+    const query = fromId !== null ? `to=${toId}&from=${fromId}` : `to=${toId}`;
+    fetch(`/api/imports/diff?${query}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setDiff(result))
+      .catch((err) => console.warn('Failed to compare imports:', err));
+  }, [toId, fromId]);
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
+        <LoadingSpinner />
+        <p className="text-gray-500">Loading import history...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  if (imports.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600 mb-6">Nothing has been imported yet</p>
+        <Link
+          href="/import"
+          className="inline-flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+        >
+          Import Statement
+        </Link>
+      </div>
+    );
+  }
+
+  // Only the latest import in each account can be undone
+  const latestIds = new Set(
+    Array.from(new Set(imports.map((i) => i.accountId))).map(
+      (accountId) => imports.find((i) => i.accountId === accountId)!.id
+    )
+  );
+
+  // Only holdings statements can be compared
+  const holdingsImports = imports.filter((i) => i.type === 'holdings');
+
+  const handleRollback = async () => {
+    if (!rollbackTarget) return;
+
+    setIsRollingBack(true);
+    try {
+      const response = await fetch(`/api/imports/${rollbackTarget.id}/rollback`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to roll back import');
+        return;
+      }
+      setDiff(null);
+      setReloadKey((key) => key + 1);
+    } catch {
+      setError('Failed to roll back import');
+    } finally {
+      setIsRollingBack(false);
+      setRollbackTarget(null);
+    }
+  };
+
+  const selectClassName =
+    'px-3 py-2 text-sm border rounded-md dark:bg-gray-800 dark:border-gray-600 dark:text-white';
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Import History</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Every holdings statement you import is kept, so you can see what changed between them.
+          The latest import in each account, statement or transactions, can be undone.
+        </p>
+      </div>
+
+      {/* Imports */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Imports</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="px-4 py-2 text-left text-gray-700 dark:text-gray-300">Imported</th>
+                  <th className="px-4 py-2 text-left text-gray-700 dark:text-gray-300">Account</th>
+                  <th className="px-4 py-2 text-left text-gray-700 dark:text-gray-300">File</th>
+                  <th className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">Contents</th>
+                  <th className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">Book Cost</th>
+                  <th className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">Market Value</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {imports.map((snapshot) => (
+                  <tr
+                    key={snapshot.id}
+                    onClick={() => {
+                      if (snapshot.type !== 'holdings') return;
+                      setToId(snapshot.id);
+                      setFromId(null);
+                    }}
+                    className={`border-b border-gray-100 dark:border-gray-700/50 ${
+                      snapshot.type !== 'holdings'
+                        ? ''
+                        : snapshot.id === toId
+                          ? 'cursor-pointer bg-blue-50 dark:bg-blue-900/20'
+                          : 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    <td className="px-4 py-2 text-gray-900 dark:text-gray-100">
+                      {formatImportedAt(snapshot.importedAt)}
+                    </td>
+                    <td className="px-4 py-2 text-gray-900 dark:text-gray-100">{snapshot.accountName}</td>
+                    <td className="px-4 py-2 text-gray-500">{snapshot.filename ?? '-'}</td>
+                    <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">
+                      {snapshot.type === 'holdings'
+                        ? `${snapshot.holdingsCount} funds`
+                        : `${snapshot.transactionsCount} transactions`}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">
+                      {snapshot.type === 'holdings' ? formatCurrency(snapshot.totalInvested) : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">
+                      {snapshot.type === 'holdings' ? formatCurrency(snapshot.totalValue) : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {latestIds.has(snapshot.id) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setRollbackTarget(snapshot);
+                          }}
+                        >
+                          <Undo2 className="w-4 h-4 mr-1" />
+                          Undo
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Changes between two imports */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            <span className="text-sm text-gray-500">Compare</span>
+            <select
+              value={fromId ?? ''}
+              onChange={(e) => setFromId(e.target.value ? Number(e.target.value) : null)}
+              className={selectClassName}
+            >
+              <option value="">Previous import in this account</option>
+              {holdingsImports
+                .filter((snapshot) => snapshot.id !== toId)
+                .map((snapshot) => (
+                  <option key={snapshot.id} value={snapshot.id}>
+                    {describeImport(snapshot)}
+                  </option>
+                ))}
+            </select>
+            <span className="text-sm text-gray-500">with</span>
+            <select
+              value={toId ?? ''}
+              onChange={(e) => setToId(Number(e.target.value))}
+              className={selectClassName}
+            >
+              {holdingsImports.map((snapshot) => (
+                <option key={snapshot.id} value={snapshot.id}>
+                  {describeImport(snapshot)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {diff && (
+            <>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                {diff.from ? `Since ${describeImport(diff.from)}: ` : 'First import for this account: '}
+                {diff.newPositions} new, {diff.closedPositions} closed, {diff.increasedPositions} added to,{' '}
+                {diff.reducedPositions} reduced, {diff.unchangedPositions} unchanged
+              </p>
+              <ImportDiffTable data={diff.changes} />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rollback Confirmation Dialog */}
+      {rollbackTarget && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md mx-4 shadow-xl">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+              Undo this import?
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              {rollbackTarget.type === 'holdings' ? (
+                <>
+                  The {rollbackTarget.accountName} holdings will go back to how they were before
+                  the import on {formatImportedAt(rollbackTarget.importedAt)}, and the import will be
+                  removed from the history.
+                </>
+              ) : (
+                <>
+                  The {rollbackTarget.transactionsCount} transactions added to {rollbackTarget.accountName} by
+                  the import on {formatImportedAt(rollbackTarget.importedAt)} will be deleted, and the
+                  import will be removed from the history.
+                </>
+              )}
+            </p>
+            <div className="flex gap-3 justify-end">
+              <Button
+                variant="secondary"
+                onClick={() => setRollbackTarget(null)}
+                disabled={isRollingBack}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="danger"
+                onClick={handleRollback}
+                disabled={isRollingBack}
+              >
+                {isRollingBack ? 'Undoing...' : 'Undo Import'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
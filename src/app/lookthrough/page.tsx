@@ -0,0 +1,262 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Loader2 } from 'lucide-react';
+import type { ColumnDef } from '@tanstack/react-table';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { SummaryCard } from '@/components/ui/summary-card';
+import { LoadingSpinner } from '@/components/ui/loading';
+import { AccountFilter } from '@/components/ui/account-filter';
+import { HoldingsCompositionTable } from '@/components/tables/holdings-composition-table';
+import { OverlapHeatmap } from '@/components/charts/overlap-heatmap';
+import type {
+  AccountSummary,
+  LookthroughHolding,
+  LookthroughResponse,
+  FundOverlapPair,
+  FundOverlapResponse,
+} from '@/types';
+import { formatCurrency, formatPercent } from '@/lib/utils';
+
+// Which funds each security is held through, sortable by how many
+const lookthroughColumns: ColumnDef<LookthroughHolding, unknown>[] = [
+  {
+    id: 'funds',
+    header: 'Held Through',
+    accessorFn: (row) => row.funds.length,
+    cell: ({ row }) => {
+      const { funds } = row.original;
+      return (
+        <div>
+          <div className="font-medium text-gray-900">
+            {funds.length} {funds.length === 1 ? 'fund' : 'funds'}
+          </div>
+          <div className="text-xs text-gray-500">
+            {funds.map((f) => (
+              <Link
+                key={f.symbol}
+                href={`/funds/${encodeURIComponent(f.symbol)}`}
+                title={`${f.name}: ${formatPercent(f.weightPercent, { decimals: 2, showSign: false })} of the fund, ${formatCurrency(f.value)}`}
+                className="mr-2 hover:text-blue-600"
+              >
+                {f.symbol}
+              </Link>
+            ))}
+          </div>
+        </div>
+      );
+    },
+  },
+];
+
+export default function LookthroughPage() {
+  const [data, setData] = useState<LookthroughResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [accountId, setAccountId] = useState<number | null>(null);
+  const [overlap, setOverlap] = useState<FundOverlapResponse | null>(null);
+  const [selectedPair, setSelectedPair] = useState<FundOverlapPair | null>(null);
+
+  useEffect(() => {
+    fetch('/api/accounts')
+      .then((response) => (response.ok ? response.json() : { accounts: [] }))
+      .then((result) => setAccounts(result.accounts))
+      .catch((err) => console.warn('Failed to fetch accounts:', err));
+  }, []);
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        setLoading(true);
+        const query = accountId !== null ? `?account=${accountId}` : '';
+        const response = await fetch(`/api/lookthrough${query}`);
+        if (!response.ok) throw new Error('Failed to fetch look-through holdings');
+        setData(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+  }, [accountId]);
+
+  // Overlap is supplementary - don't fail the page if it can't be loaded
+  useEffect(() => {
+    const query = accountId !== null ? `?account=${accountId}` : '';
+    fetch(`/api/lookthrough/overlap${query}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result: FundOverlapResponse | null) => {
+        setOverlap(result);
+        // Start on the most similar pair
+        setSelectedPair(
+          result?.pairs.reduce<FundOverlapPair | null>(
+            (best, p) => (!best || p.overlapPercent > best.overlapPercent ? p : best),
+            null
+          ) ?? null
+        );
+      })
+      .catch((err) => console.warn('Failed to fetch fund overlap:', err));
+  }, [accountId]);
+
+  if (loading && !data) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
+        <LoadingSpinner />
+        <p className="text-gray-500">Loading look-through holdings...</p>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">{error || 'No look-through data available'}</p>
+      </div>
+    );
+  }
+
+  const fundName = (symbol: string) => overlap?.funds.find((f) => f.symbol === symbol)?.name ?? symbol;
+
+  const topTen = data.holdings.slice(0, 10);
+  const topTenWeight = topTen.reduce((sum, h) => sum + h.weightPercent, 0);
+  const largest = data.holdings[0];
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Look-Through Holdings</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          The securities you own through your funds, merged across every fund that holds them
+        </p>
+      </div>
+
+      {accounts.length > 1 && (
+        <AccountFilter accounts={accounts} selectedId={accountId} onAccountChange={setAccountId} />
+      )}
+
+      {data.refreshing.length > 0 && (
+        <p className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Fetching holdings for {data.refreshing.length} {data.refreshing.length === 1 ? 'fund' : 'funds'} in the background
+        </p>
+      )}
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <SummaryCard
+          title="Securities"
+          value={data.holdings.length.toLocaleString('en-GB')}
+          subtitle="held through your funds"
+        />
+        <SummaryCard
+          title="Largest Exposure"
+          value={largest ? formatCurrency(largest.marketValue) : 'N/A'}
+          subtitle={largest ? `${largest.name} across ${largest.funds.length} ${largest.funds.length === 1 ? 'fund' : 'funds'}` : undefined}
+        />
+        <SummaryCard
+          title="Top 10 Securities"
+          value={formatPercent(topTenWeight, { decimals: 1, showSign: false })}
+          subtitle="of the portfolio"
+        />
+        <SummaryCard
+          title="Coverage"
+          value={formatPercent(data.coveragePercent, { decimals: 0, showSign: false })}
+          subtitle="of the portfolio has holdings data"
+        />
+      </div>
+
+      {/* Securities */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Exposures</CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Value is each fund&apos;s weight in the security times what you hold of the fund. Some providers
+            only list a fund&apos;s largest holdings.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {data.holdings.length > 0 ? (
+            <HoldingsCompositionTable
+              data={data.holdings}
+              valueCurrency="GBP"
+              showShares={false}
+              extraColumns={lookthroughColumns}
+            />
+          ) : (
+            <p className="text-center text-gray-500 py-8">
+              No underlying holdings have been fetched for your funds yet
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Fund Overlap */}
+      {overlap && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Fund Overlap</CardTitle>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              How much of each pair of funds is the same holdings - the smaller of the two weights of every
+              security they share. Click a cell to see what they have in common.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <OverlapHeatmap
+              funds={overlap.funds}
+              pairs={overlap.pairs}
+              selected={selectedPair}
+              onSelect={setSelectedPair}
+            />
+
+            {selectedPair && (
+              <div className="mt-8">
+                <h3 className="font-medium text-gray-900 dark:text-white">
+                  {fundName(selectedPair.fundA)} and {fundName(selectedPair.fundB)}
+                </h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+                  {formatPercent(selectedPair.overlapPercent, { decimals: 1, showSign: false })} overlap across{' '}
+                  {selectedPair.shared.length} shared {selectedPair.shared.length === 1 ? 'holding' : 'holdings'}
+                </p>
+                {selectedPair.shared.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-200 dark:border-gray-700">
+                          <th className="px-4 py-2 text-left text-gray-700 dark:text-gray-300">Holding</th>
+                          <th className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{selectedPair.fundA}</th>
+                          <th className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{selectedPair.fundB}</th>
+                          <th className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">Overlap</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {selectedPair.shared.map((security, index) => (
+                          <tr key={`${security.name}-${index}`} className="border-b border-gray-100 dark:border-gray-700/50">
+                            <td className="px-4 py-2 text-gray-900 dark:text-gray-100">{security.name}</td>
+                            <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">
+                              {formatPercent(security.weightA, { decimals: 2, showSign: false })}
+                            </td>
+                            <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">
+                              {formatPercent(security.weightB, { decimals: 2, showSign: false })}
+                            </td>
+                            <td className="px-4 py-2 text-right font-medium text-gray-900 dark:text-gray-100">
+                              {formatPercent(Math.min(security.weightA, security.weightB), { decimals: 2, showSign: false })}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-center text-gray-500 py-8">These funds have no holdings in common</p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -5,28 +5,90 @@ import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { SummaryCard } from '@/components/ui/summary-card';
 import { PortfolioChart } from '@/components/charts/portfolio-chart';
 import { PortfolioAllocationChart } from '@/components/charts/portfolio-allocation-chart';
+import { ExposureChart } from '@/components/charts/exposure-chart';
+import { ExposureBarChart } from '@/components/charts/exposure-bar-chart';
 import { FundsBreakdownChart } from '@/components/charts/funds-breakdown-chart';
+import { UnderwaterChart } from '@/components/charts/underwater-chart';
+import { IncomeChart } from '@/components/charts/income-chart';
 import { HoldingsTable } from '@/components/tables/holdings-table';
+import { DrawdownEpisodesTable } from '@/components/tables/drawdown-episodes-table';
 import { LoadingSpinner } from '@/components/ui/loading';
 import { DateRangeFilter } from '@/components/ui/date-range-filter';
+import { AccountFilter } from '@/components/ui/account-filter';
+import { BenchmarkPicker } from '@/components/ui/benchmark-picker';
+import { RiskMetricsPanel } from '@/components/ui/risk-metrics-panel';
 import Link from 'next/link';
-import type { PortfolioResponse } from '@/types';
-import { formatCurrency, formatPercent, rebasePercentageData, filterByDateRange } from '@/lib/utils';
+import { Loader2 } from 'lucide-react';
+import type {
+  PortfolioResponse,
+  IncomeSummary,
+  AccountSummary,
+  AppSettings,
+  ExposureResponse,
+  BenchmarkResponse,
+  DateRange,
+  DrawdownEpisode,
+} from '@/types';
+import {
+  formatCurrency,
+  formatPercent,
+  rebasePercentageData,
+  filterByDateRange,
+  calculateReturns,
+  SUPPORTED_CURRENCIES,
+  addBenchmarkGrowth,
+  simulateBenchmarkValue,
+  getBenchmarkReturn,
+  calculateRiskMetrics,
+  DEFAULT_RISK_FREE_RATE,
+  buildGrowthIndex,
+  calculateUnderwaterSeries,
+  getWorstDrawdowns,
+} from '@/lib/utils';
 
 export default function HomePage() {
   const [data, setData] = useState<PortfolioResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [income, setIncome] = useState<IncomeSummary | null>(null);
+  const [exposure, setExposure] = useState<ExposureResponse | null>(null);
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [accountId, setAccountId] = useState<number | null>(null);
+  const [baseCurrency, setBaseCurrency] = useState('GBP');
+  const [benchmark, setBenchmark] = useState<string | null>(null);
+  const [riskFreeRate, setRiskFreeRate] = useState(DEFAULT_RISK_FREE_RATE);
+  const [benchmarkData, setBenchmarkData] = useState<BenchmarkResponse | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
   const [dateRange, setDateRange] = useState<{ start: string | null; end: string | null }>({
     start: null,
     end: null,
   });
+  const [zoomRange, setZoomRange] = useState<DateRange | null>(null);
+
+  useEffect(() => {
+    fetch('/api/accounts')
+      .then((response) => (response.ok ? response.json() : { accounts: [] }))
+      .then((result) => setAccounts(result.accounts))
+      .catch((err) => console.warn('Failed to fetch accounts:', err));
+
+    fetch('/api/settings')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result: AppSettings | null) => {
+        if (!result) return;
+        setBaseCurrency(result.baseCurrency);
+        setBenchmark(result.benchmark);
+        setRiskFreeRate(result.riskFreeRate);
+      })
+      .catch((err) => console.warn('Failed to fetch settings:', err));
+  }, []);
+
+  const accountQuery = accountId !== null ? `?account=${accountId}` : '';
 
   useEffect(() => {
     async function fetchData() {
       try {
         setLoading(true);
-        const response = await fetch('/api/portfolio-history');
+        const response = await fetch(`/api/portfolio-history${accountQuery}`);
         if (!response.ok) throw new Error('Failed to fetch portfolio data');
         const result = await response.json();
         setData(result);
@@ -37,23 +99,134 @@ export default function HomePage() {
       }
     }
     fetchData();
-  }, []);
+  }, [accountQuery, reloadKey]);
+
+  // Income is supplementary - don't fail the page if it can't be loaded
+  useEffect(() => {
+    fetch(`/api/income${accountQuery}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setIncome(result))
+      .catch((err) => console.warn('Failed to fetch income data:', err));
+  }, [accountQuery]);
+
+  useEffect(() => {
+    fetch(`/api/exposure${accountQuery}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setExposure(result))
+      .catch((err) => console.warn('Failed to fetch exposure data:', err));
+  }, [accountQuery]);
+
+  // Prices and exchange rates are refreshed in the background; reload quietly
+  // until they're all in
+  useEffect(() => {
+    if (!data?.refreshing?.length && !data?.ratesRefreshing?.length) return;
+
+    const timer = setTimeout(() => {
+      fetch(`/api/portfolio-history${accountQuery}`)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((result) => result && setData(result))
+        .catch((err) => console.warn('Failed to reload portfolio data:', err));
+    }, 10000);
+    return () => clearTimeout(timer);
+  }, [data?.refreshing, data?.ratesRefreshing, accountQuery]);
+
+  // Benchmark prices come in the same currency as the portfolio's values
+  const benchmarkUrl = benchmark && data
+    ? `/api/benchmarks/${encodeURIComponent(benchmark)}?currency=${data.currency}`
+    : null;
+
+  useEffect(() => {
+    if (!benchmarkUrl) {
+      setBenchmarkData(null);
+      return;
+    }
+    fetch(benchmarkUrl)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setBenchmarkData(result))
+      .catch((err) => console.warn('Failed to fetch benchmark prices:', err));
+  }, [benchmarkUrl]);
+
+  useEffect(() => {
+    if (!benchmarkUrl || !benchmarkData?.refreshing) return;
+
+    const timer = setTimeout(() => {
+      fetch(benchmarkUrl)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((result) => result && setBenchmarkData(result))
+        .catch((err) => console.warn('Failed to reload benchmark prices:', err));
+    }, 10000);
+    return () => clearTimeout(timer);
+  }, [benchmarkUrl, benchmarkData]);
 
   // Filter data based on selected date range - must be before any early returns
   const filteredPortfolioHistory = useMemo(() => {
     if (!data?.portfolioHistory) return [];
-    return filterByDateRange(data.portfolioHistory, dateRange.start);
-  }, [data?.portfolioHistory, dateRange.start]);
+    return filterByDateRange(data.portfolioHistory, dateRange.start, dateRange.end);
+  }, [data?.portfolioHistory, dateRange.start, dateRange.end]);
+
+  // Drawdowns are measured like the time-weighted return, so withdrawals aren't falls
+  const underwater = useMemo(
+    () => calculateUnderwaterSeries(buildGrowthIndex(filteredPortfolioHistory, data?.cashFlows ?? [])),
+    [filteredPortfolioHistory, data?.cashFlows]
+  );
+
+  // Worst drawdowns over the whole history, so any of them can be zoomed to
+  const worstDrawdowns = useMemo(() => {
+    if (!data?.portfolioHistory) return [];
+    return getWorstDrawdowns(buildGrowthIndex(data.portfolioHistory, data.cashFlows ?? []));
+  }, [data?.portfolioHistory, data?.cashFlows]);
+
+  // The portfolio's starting value and later contributions invested in the benchmark instead
+  const portfolioChartData = useMemo(() => {
+    if (!benchmarkData) return filteredPortfolioHistory;
+    const simulated = new Map(
+      simulateBenchmarkValue(filteredPortfolioHistory, data?.cashFlows ?? [], benchmarkData.prices)
+        .map((p) => [p.date, p.value])
+    );
+    return filteredPortfolioHistory.map((p) => ({ ...p, benchmark: simulated.get(p.date) }));
+  }, [filteredPortfolioHistory, data?.cashFlows, benchmarkData]);
+
+  const benchmarkReturn = useMemo(() => {
+    if (!benchmarkData) return null;
+    return getBenchmarkReturn(benchmarkData.prices, filteredPortfolioHistory.map((p) => p.date));
+  }, [filteredPortfolioHistory, benchmarkData]);
 
   const filteredFundPerformance = useMemo(() => {
     if (!data?.fundPerformance) return [];
 
-    const filtered = filterByDateRange(data.fundPerformance, dateRange.start);
+    const filtered = filterByDateRange(data.fundPerformance, dateRange.start, dateRange.end);
     if (filtered.length === 0) return [];
 
-    // Rebase percentages to the first value in the range
-    return rebasePercentageData(filtered);
-  }, [data?.fundPerformance, dateRange.start]);
+    // Rebase percentages (and the benchmark's growth) to the first value in the range
+    return rebasePercentageData(benchmarkData ? addBenchmarkGrowth(filtered, benchmarkData.prices) : filtered);
+  }, [data?.fundPerformance, dateRange.start, dateRange.end, benchmarkData]);
+
+  const filteredIncome = useMemo(() => {
+    if (!income?.byMonth) return [];
+    // Months are keyed by their first day, so include the month the range starts in
+    return filterByDateRange(income.byMonth, dateRange.start ? `${dateRange.start.slice(0, 7)}-01` : null);
+  }, [income?.byMonth, dateRange.start]);
+
+  const periodReturns = useMemo(() => {
+    if (!data?.portfolioHistory) return null;
+    return calculateReturns(
+      data.portfolioHistory,
+      data.cashFlows ?? [],
+      dateRange.start,
+      dateRange.end
+    );
+  }, [data?.portfolioHistory, data?.cashFlows, dateRange.start, dateRange.end]);
+
+  const riskMetrics = useMemo(() => {
+    if (!data?.portfolioHistory) return null;
+    return calculateRiskMetrics(
+      data.portfolioHistory,
+      data.cashFlows ?? [],
+      riskFreeRate,
+      dateRange.start,
+      dateRange.end
+    );
+  }, [data?.portfolioHistory, data?.cashFlows, riskFreeRate, dateRange.start, dateRange.end]);
 
 
   if (loading) {
@@ -61,7 +234,6 @@ export default function HomePage() {
       <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
         <LoadingSpinner />
         <p className="text-gray-500">Loading portfolio data...</p>
-        <p className="text-sm text-gray-400">Fetching historical prices (this may take a moment)</p>
       </div>
     );
   }
@@ -74,6 +246,30 @@ export default function HomePage() {
     );
   }
 
+  // Only offer the account filter once there's more than one account
+  const accountFilter = accounts.length > 1 && (
+    <AccountFilter accounts={accounts} selectedId={accountId} onAccountChange={setAccountId} />
+  );
+
+  if ((!data || data.holdings.length === 0) && accountId !== null) {
+    return (
+      <div className="space-y-8">
+        {accountFilter}
+        <div className="text-center py-12">
+          <p className="text-gray-600 mb-6">
+            No holdings have been imported into this account yet
+          </p>
+          <Link
+            href="/import"
+            className="inline-flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+          >
+            Import Statement
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   if (!data || data.holdings.length === 0) {
     return (
       <div className="text-center py-12">
@@ -93,36 +289,126 @@ export default function HomePage() {
     );
   }
 
-  const { holdings, fundNames, fundLabels, summary } = data;
+  const { holdings, fundNames, fundLabels, currency, refreshing, ratesRefreshing, summary } = data;
+
+  const accountsWithHoldings = accounts.filter((a) => a.holdingsCount > 0);
+
+  const handleBaseCurrencyChange = async (value: string) => {
+    setBaseCurrency(value);
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ baseCurrency: value }),
+      });
+      if (!response.ok) throw new Error('Failed to save base currency');
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      console.warn('Failed to update base currency:', err);
+    }
+  };
+
+  const handleBenchmarkChange = async (value: string | null) => {
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ benchmark: value }),
+      });
+      if (!response.ok) throw new Error('Failed to save benchmark');
+      const result: AppSettings = await response.json();
+      setBenchmark(result.benchmark);
+    } catch (err) {
+      console.warn('Failed to update benchmark:', err);
+    }
+  };
+
+  const handleRiskFreeRateChange = async (value: number) => {
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ riskFreeRate: value }),
+      });
+      if (!response.ok) throw new Error('Failed to save risk-free rate');
+      const result: AppSettings = await response.json();
+      setRiskFreeRate(result.riskFreeRate);
+    } catch (err) {
+      console.warn('Failed to update risk-free rate:', err);
+    }
+  };
+
+  const relativeReturn =
+    periodReturns?.timeWeighted != null && benchmarkReturn !== null
+      ? periodReturns.timeWeighted - benchmarkReturn
+      : null;
 
   const handleDateRangeChange = (start: string | null, end: string | null) => {
     setDateRange({ start, end });
   };
 
+  // Zoom from the high before a drawdown to its recovery (or today)
+  const handleDrawdownSelect = (episode: DrawdownEpisode) => {
+    const range = { start: episode.peakDate, end: episode.recoveryDate };
+    setZoomRange(range);
+    setDateRange(range);
+  };
+
   return (
     <div className="space-y-8">
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900">Portfolio Overview</h1>
-        <p className="text-gray-600 mt-1">
-          Historical performance based on current holdings
-        </p>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Portfolio Overview</h1>
+          <p className="text-gray-600 mt-1">
+            Historical performance based on your transaction history, or current holdings where none is imported
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-500">
+          Show values in
+          <select
+            value={baseCurrency}
+            onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+            className="px-3 py-2 text-sm border rounded-md dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+          >
+            {SUPPORTED_CURRENCIES.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+        </label>
       </div>
 
+      {accountFilter}
+
+      {refreshing.length > 0 && (
+        <p className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Updating prices for {refreshing.length} {refreshing.length === 1 ? 'fund' : 'funds'} in the background
+        </p>
+      )}
+
+      {ratesRefreshing.length > 0 && (
+        <p className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Updating exchange rates in the background
+          {currency !== baseCurrency && ` - values are shown in ${currency} until ${baseCurrency} rates are in`}
+        </p>
+      )}
+
       {/* Summary Cards */}
       {summary && (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           <SummaryCard
             title="Portfolio Value"
-            value={formatCurrency(summary.totalValue)}
+            value={formatCurrency(summary.totalValue, { currency })}
             trend={summary.gainLoss >= 0 ? 'up' : 'down'}
           />
           <SummaryCard
             title="Total Invested"
-            value={formatCurrency(summary.totalInvested)}
+            value={formatCurrency(summary.totalInvested, { currency })}
           />
           <SummaryCard
             title="Total Gain/Loss"
-            value={formatCurrency(summary.gainLoss)}
+            value={formatCurrency(summary.gainLoss, { currency })}
             trend={summary.gainLoss >= 0 ? 'up' : 'down'}
             trendValue={formatPercent(summary.gainLossPercent)}
           />
@@ -131,32 +417,185 @@ export default function HomePage() {
             value={holdings.length.toString()}
             subtitle="funds"
           />
+          <SummaryCard
+            title="Time-Weighted Return"
+            value={periodReturns?.timeWeighted != null ? formatPercent(periodReturns.timeWeighted) : 'N/A'}
+            trend={(periodReturns?.timeWeighted ?? 0) >= 0 ? 'up' : 'down'}
+            subtitle={
+              periodReturns?.timeWeightedAnnualised != null
+                ? `${formatPercent(periodReturns.timeWeightedAnnualised)} p.a. (selected period)`
+                : 'selected period'
+            }
+          />
+          <SummaryCard
+            title="Money-Weighted Return (XIRR)"
+            value={periodReturns?.moneyWeighted != null ? `${formatPercent(periodReturns.moneyWeighted)} p.a.` : 'N/A'}
+            trend={(periodReturns?.moneyWeighted ?? 0) >= 0 ? 'up' : 'down'}
+            subtitle="selected period, includes timing of contributions"
+          />
+          {benchmark && (
+            <SummaryCard
+              title={`Relative to ${benchmark}`}
+              value={relativeReturn !== null ? formatPercent(relativeReturn) : 'N/A'}
+              trend={(relativeReturn ?? 0) >= 0 ? 'up' : 'down'}
+              subtitle={
+                benchmarkReturn !== null
+                  ? `time-weighted return vs ${formatPercent(benchmarkReturn)} for ${benchmark} (selected period)`
+                  : benchmarkData?.refreshing
+                    ? `fetching ${benchmark} prices`
+                    : `no ${benchmark} prices for the selected period`
+              }
+            />
+          )}
         </div>
       )}
 
-      {/* Portfolio Allocation Pie Chart */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Portfolio Allocation by Fund</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <PortfolioAllocationChart holdings={holdings} />
-        </CardContent>
-      </Card>
+      {/* Per-account breakdown in the combined view */}
+      {accountId === null && accountsWithHoldings.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Accounts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {accountsWithHoldings.map((account) => (
+                <button
+                  key={account.id}
+                  onClick={() => setAccountId(account.id)}
+                  className="text-left"
+                >
+                  <SummaryCard
+                    title={`${account.name} (${account.type})`}
+                    value={formatCurrency(account.totalValue)}
+                    subtitle={`${account.holdingsCount} funds`}
+                    trend={account.gainLoss >= 0 ? 'up' : 'down'}
+                    trendValue={formatPercent(account.gainLossPercent)}
+                  />
+                </button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Portfolio Allocation Pie Chart */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Portfolio Allocation by Fund</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PortfolioAllocationChart holdings={holdings} />
+          </CardContent>
+        </Card>
+
+        {/* Underlying currency exposure */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Currency Exposure (Look-Through)</CardTitle>
+            {exposure && exposure.currency.slices.length > 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Based on the underlying holdings of{' '}
+                {formatPercent(exposure.currency.coveragePercent, { decimals: 0, showSign: false })} of the portfolio
+                {exposure.refreshing.length > 0 && ' - fetching the rest in the background'}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>
+            <ExposureChart data={exposure?.currency.slices ?? []} />
+          </CardContent>
+        </Card>
+
+        {/* Underlying sector and region exposure */}
+        {([
+          { key: 'sector', title: 'Sector Exposure (Look-Through)', empty: 'No sector data for your funds\' holdings yet' },
+          { key: 'region', title: 'Region Exposure (Look-Through)', empty: 'No country data for your funds\' holdings yet' },
+        ] as const).map(({ key, title, empty }) => (
+          <Card key={key}>
+            <CardHeader>
+              <CardTitle>{title}</CardTitle>
+              {exposure && exposure[key].coveragePercent > 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  Based on the underlying holdings of{' '}
+                  {formatPercent(exposure[key].coveragePercent, { decimals: 0, showSign: false })} of the portfolio
+                </p>
+              )}
+            </CardHeader>
+            <CardContent>
+              <ExposureBarChart data={exposure?.[key].slices ?? []} emptyMessage={empty} />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
 
       {/* Date Range Filter */}
       <div className="flex items-center justify-between">
         <span className="text-sm text-gray-500">Time period:</span>
-        <DateRangeFilter onRangeChange={handleDateRangeChange} />
+        <DateRangeFilter onRangeChange={handleDateRangeChange} range={zoomRange} />
       </div>
 
+      <BenchmarkPicker benchmark={benchmark} onBenchmarkChange={handleBenchmarkChange} />
+
+      {/* Risk for the selected period */}
+      <RiskMetricsPanel metrics={riskMetrics} onRiskFreeRateChange={handleRiskFreeRateChange} />
+
       {/* Portfolio Value Chart */}
       <Card>
         <CardHeader>
           <CardTitle>Portfolio Value Over Time</CardTitle>
         </CardHeader>
         <CardContent>
-          <PortfolioChart data={filteredPortfolioHistory} />
+          <PortfolioChart
+            data={portfolioChartData}
+            currency={currency}
+            benchmarkLabel={benchmarkData?.symbol}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Drawdowns */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Drawdowns</CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            How far the portfolio was below its previous high, leaving out money paid in or taken out
+          </p>
+        </CardHeader>
+        <CardContent>
+          <UnderwaterChart data={underwater} />
+          {worstDrawdowns.length > 0 && (
+            <div className="mt-6">
+              <h3 className="font-medium text-gray-900 dark:text-white">Worst Drawdowns</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-4">
+                Since the portfolio began - click one to zoom to it
+              </p>
+              <DrawdownEpisodesTable data={worstDrawdowns} onSelect={handleDrawdownSelect} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Dividend Income Chart */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Dividend Income</CardTitle>
+          {income && income.trailing12m > 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {formatCurrency(income.trailing12m)} in the last 12 months
+              {income.yieldOnCost !== null && ` - ${formatPercent(income.yieldOnCost, { showSign: false })} yield on cost`}
+              {income.yieldOnValue !== null && `, ${formatPercent(income.yieldOnValue, { showSign: false })} on value`}
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          <IncomeChart
+            data={filteredIncome}
+            funds={Array.from(new Set([...fundNames, ...(income?.byFund.map((f) => f.symbol) ?? [])]))}
+            fundLabels={{
+              ...Object.fromEntries(income?.byFund.map((f) => [f.symbol, f.name]) ?? []),
+              ...fundLabels,
+            }}
+          />
         </CardContent>
       </Card>
 
@@ -170,6 +609,7 @@ export default function HomePage() {
             data={filteredFundPerformance}
             funds={fundNames}
             fundLabels={fundLabels}
+            benchmarkLabel={benchmarkData?.symbol}
           />
         </CardContent>
       </Card>
@@ -180,7 +620,7 @@ export default function HomePage() {
           <CardTitle>Current Holdings</CardTitle>
         </CardHeader>
         <CardContent>
-          <HoldingsTable data={holdings} />
+          <HoldingsTable data={holdings} currency={currency} />
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AlertCircle } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { SummaryCard } from '@/components/ui/summary-card';
+import { LoadingSpinner } from '@/components/ui/loading';
+import { CgtDisposalsTable } from '@/components/tables/cgt-disposals-table';
+import type { CgtReportResponse } from '@/types';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+export default function TaxPage() {
+  const [report, setReport] = useState<CgtReportResponse | null>(null);
+  const [taxYear, setTaxYear] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchReport() {
+      try {
+        setLoading(true);
+        const query = taxYear ? `?year=${encodeURIComponent(taxYear)}` : '';
+        const response = await fetch(`/api/tax/cgt${query}`);
+        if (!response.ok) throw new Error('Failed to fetch capital gains report');
+        setReport(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchReport();
+  }, [taxYear]);
+
+  if (loading && !report) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
+        <LoadingSpinner />
+        <p className="text-gray-500">Calculating capital gains...</p>
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">{error || 'No report available'}</p>
+      </div>
+    );
+  }
+
+  const hasUnmatched = report.disposals.some((d) => d.unmatchedUnits > 0);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Capital Gains Tax</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Realised gains using same-day, 30-day and Section 104 pool matching
+        </p>
+      </div>
+
+      {/* Tax Year Selector */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-500 mr-2">Tax year:</span>
+        {report.availableYears.map((year) => (
+          <button
+            key={year}
+            onClick={() => setTaxYear(year)}
+            className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+              report.taxYear === year
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+            }`}
+          >
+            {year}
+          </button>
+        ))}
+        <span className="text-sm text-gray-400 ml-2">
+          {formatDate(report.startDate, 'dd/MM/yyyy')} to {formatDate(report.endDate, 'dd/MM/yyyy')}
+        </span>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <SummaryCard
+          title="Disposal Proceeds"
+          value={formatCurrency(report.totalProceeds)}
+          subtitle={`${report.disposals.length} disposals`}
+        />
+        <SummaryCard
+          title="Gains / Losses"
+          value={formatCurrency(report.totalGains)}
+          subtitle={`Losses: ${formatCurrency(report.totalLosses)}`}
+        />
+        <SummaryCard
+          title="Net Gain"
+          value={formatCurrency(report.netGain)}
+          trend={report.netGain >= 0 ? 'up' : 'down'}
+        />
+        <SummaryCard
+          title="Taxable Gain"
+          value={report.taxableGain !== null ? formatCurrency(report.taxableGain) : 'N/A'}
+          subtitle={
+            report.annualExemptAmount !== null
+              ? `After ${formatCurrency(report.annualExemptAmount)} annual exempt amount`
+              : 'Annual exempt amount unknown for this year'
+          }
+        />
+      </div>
+
+      {hasUnmatched && (
+        <div className="flex items-start gap-3 p-4 rounded-lg bg-amber-50 text-amber-800">
+          <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <p className="text-sm">
+            Some sales have no matching purchase on record and are treated as having nil cost.
+            Import your full transaction history from the <Link href="/import" className="underline">Import</Link> page
+            to correct this.
+          </p>
+        </div>
+      )}
+
+      {/* Disposals */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Disposals</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report.disposals.length > 0 ? (
+            <CgtDisposalsTable data={report.disposals} />
+          ) : (
+            <p className="text-center text-gray-500 py-8">No disposals in this tax year</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import type { FundCorrelationPair } from '@/types';
+import { formatNumber, ChartEmptyState } from '@/lib/utils';
+
+interface CorrelationMatrixProps {
+  funds: Array<{ symbol: string; name: string }>;
+  pairs: FundCorrelationPair[];
+  /** Pairs correlated at least this much are outlined */
+  threshold: number;
+}
+
+// Red for funds that move together, blue for funds that move apart
+function getCellStyle(correlation: number) {
+  const intensity = Math.min(Math.abs(correlation), 1);
+  const colour = correlation >= 0 ? '220, 38, 38' : '37, 99, 235';
+  return {
+    backgroundColor: `rgba(${colour}, ${0.08 + intensity * 0.82})`,
+    color: intensity > 0.5 ? '#ffffff' : '#111827',
+  };
+}
+
+export function CorrelationMatrix({ funds, pairs, threshold }: CorrelationMatrixProps) {
+  if (funds.length < 2) {
+    return <ChartEmptyState message="At least two funds are needed to compare them" />;
+  }
+
+  const findPair = (a: string, b: string) =>
+    pairs.find((p) => (p.fundA === a && p.fundB === b) || (p.fundA === b && p.fundB === a));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-sm border-separate border-spacing-1">
+        <thead>
+          <tr>
+            <th />
+            {funds.map((fund) => (
+              <th
+                key={fund.symbol}
+                title={fund.name}
+                className="px-2 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap"
+              >
+                {fund.symbol}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {funds.map((row) => (
+            <tr key={row.symbol}>
+              <th
+                title={row.name}
+                className="px-2 py-1 text-left text-xs font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap"
+              >
+                {row.symbol}
+              </th>
+              {funds.map((column) => {
+                if (row.symbol === column.symbol) {
+                  return (
+                    <td key={column.symbol} className="w-16 h-10 rounded bg-gray-100 dark:bg-gray-800 text-center text-gray-400">
+                      1
+                    </td>
+                  );
+                }
+
+                const pair = findPair(row.symbol, column.symbol);
+                if (!pair || pair.correlation === null) {
+                  return (
+                    <td
+                      key={column.symbol}
+                      title={`Not enough prices in common (${pair?.observations ?? 0} returns)`}
+                      className="w-16 h-10 rounded bg-gray-50 dark:bg-gray-800/50 text-center text-xs text-gray-400"
+                    >
+                      n/a
+                    </td>
+                  );
+                }
+
+                const isHigh = pair.correlation >= threshold;
+                return (
+                  <td
+                    key={column.symbol}
+                    title={`${row.name} / ${column.name}: ${formatNumber(pair.correlation)} over ${pair.observations} returns`}
+                    style={getCellStyle(pair.correlation)}
+                    className={`w-16 h-10 rounded text-center text-xs font-medium ${isHigh ? 'ring-2 ring-offset-1 ring-amber-500' : ''}`}
+                  >
+                    {formatNumber(pair.correlation)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Cell,
+} from 'recharts';
+import type { ExposureSlice } from '@/types';
+import { CHART_COLORS, UNKNOWN_EXPOSURE, formatCurrency, formatPercent, ChartEmptyState } from '@/lib/utils';
+
+interface ExposureBarChartProps {
+  data: ExposureSlice[];
+  emptyMessage?: string;
+}
+
+// Horizontal bars suit breakdowns with long names and many slices, such as sectors
+export function ExposureBarChart({ data, emptyMessage = 'No look-through data available' }: ExposureBarChartProps) {
+  if (!data || data.length === 0 || data.every((d) => d.name === UNKNOWN_EXPOSURE)) {
+    return <ChartEmptyState message={emptyMessage} />;
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={Math.max(200, data.length * 36)}>
+      <BarChart data={data} layout="vertical" margin={{ top: 0, right: 30, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" className="opacity-30" horizontal={false} />
+        <XAxis
+          type="number"
+          tickFormatter={(value) => `${value.toFixed(0)}%`}
+          tick={{ fontSize: 12 }}
+        />
+        <YAxis type="category" dataKey="name" tick={{ fontSize: 12 }} width={160} />
+        <Tooltip
+          formatter={(value, name, item) => [
+            `${formatPercent(Number(value), { decimals: 1, showSign: false })} (${formatCurrency((item.payload as ExposureSlice).value)})`,
+            'Share',
+          ]}
+          contentStyle={{
+            backgroundColor: 'rgba(255, 255, 255, 0.95)',
+            border: '1px solid #e5e7eb',
+            borderRadius: '8px',
+          }}
+        />
+        <Bar dataKey="percentage">
+          {data.map((entry, index) => (
+            <Cell
+              key={entry.name}
+              fill={entry.name === UNKNOWN_EXPOSURE ? '#d1d5db' : CHART_COLORS[index % CHART_COLORS.length]}
+            />
+          ))}
+        </Bar>
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
+import type { ExposureSlice } from '@/types';
+import {
+  CHART_COLORS,
+  AllocationTooltip,
+  renderPieLabel,
+  createAllocationLegend,
+  ChartEmptyState,
+} from '@/lib/utils';
+
+interface ExposureChartProps {
+  data: ExposureSlice[];
+  emptyMessage?: string;
+}
+
+export function ExposureChart({ data, emptyMessage = 'No look-through data available' }: ExposureChartProps) {
+  if (!data || data.length === 0) {
+    return <ChartEmptyState message={emptyMessage} />;
+  }
+
+  return (
+    <div>
+      <ResponsiveContainer width="100%" height={400}>
+        <PieChart>
+          <Pie
+            data={data}
+            cx="50%"
+            cy="50%"
+            labelLine={false}
+            label={renderPieLabel}
+            outerRadius={140}
+            fill="#8884d8"
+            dataKey="value"
+          >
+            {data.map((entry, index) => (
+              <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip content={<AllocationTooltip />} />
+        </PieChart>
+      </ResponsiveContainer>
+      {createAllocationLegend(data)}
+    </div>
+  );
+}
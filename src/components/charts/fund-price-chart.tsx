@@ -10,14 +10,19 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import { format, parseISO } from 'date-fns';
-import type { PricePoint } from '@/types';
-import { formatCurrency, getTrendColor, EmptyStates } from '@/lib/utils';
+import type { SourcedPricePoint } from '@/types';
+import { formatCurrency, getCurrencySymbol, getTrendColor, EmptyStates } from '@/lib/utils';
 
 interface FundPriceChartProps {
-  data: PricePoint[];
+  /** Prices, with `benchmark` set to the benchmark's growth in price terms */
+  data: Array<SourcedPricePoint & { benchmark?: number }>;
+  /** Display names for price sources, keyed by source name */
+  sourceLabels?: Record<string, string>;
+  /** Name of the benchmark in `benchmark` */
+  benchmarkLabel?: string;
 }
 
-export function FundPriceChart({ data }: FundPriceChartProps) {
+export function FundPriceChart({ data, sourceLabels = {}, benchmarkLabel }: FundPriceChartProps) {
   if (!data || data.length === 0) {
     return <EmptyStates.noPriceData />;
   }
@@ -36,6 +41,9 @@ export function FundPriceChart({ data }: FundPriceChartProps) {
   const priceChange = lastPrice - firstPrice;
   const chartColor = getTrendColor(priceChange);
 
+  // Prices are shown as quoted, which for most funds is pounds
+  const axisCurrency = data[data.length - 1]?.currency ?? 'GBP';
+
   return (
     <ResponsiveContainer width="100%" height={300}>
       <LineChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
@@ -47,13 +55,24 @@ export function FundPriceChart({ data }: FundPriceChartProps) {
           interval="preserveStartEnd"
         />
         <YAxis
-          tickFormatter={(value) => `£${value.toFixed(2)}`}
+          tickFormatter={(value) => `${getCurrencySymbol(axisCurrency)}${value.toFixed(2)}`}
           tick={{ fontSize: 12 }}
           width={70}
           domain={['auto', 'auto']}
         />
         <Tooltip
-          formatter={(value) => [formatCurrency(Number(value), { minimumFractionDigits: 2, maximumFractionDigits: 2 }), 'Price']}
+          formatter={(value, name, item) => {
+            const source: string | null = item.payload?.source ?? null;
+            const formatted = formatCurrency(Number(value), {
+              currency: item.payload?.currency,
+              minimumFractionDigits: 2,
+              maximumFractionDigits: 2,
+            });
+            if (name === 'benchmark') {
+              return [formatted, `${benchmarkLabel ?? 'Benchmark'} (rebased)`];
+            }
+            return [formatted, source ? `Price (${sourceLabels[source] ?? source})` : 'Price'];
+          }}
           labelFormatter={(label) => {
             try {
               return format(parseISO(String(label)), 'dd MMM yyyy');
@@ -74,6 +93,17 @@ export function FundPriceChart({ data }: FundPriceChartProps) {
           strokeWidth={2}
           dot={false}
         />
+        {benchmarkLabel && (
+          <Line
+            type="monotone"
+            dataKey="benchmark"
+            stroke="#6b7280"
+            strokeWidth={2}
+            strokeDasharray="5 5"
+            dot={false}
+            connectNulls
+          />
+        )}
       </LineChart>
     </ResponsiveContainer>
   );
@@ -13,7 +13,7 @@ import {
   ReferenceLine,
 } from 'recharts';
 import { format, parseISO } from 'date-fns';
-import { CHART_COLORS, formatPercent, getChartColor, EmptyStates } from '@/lib/utils';
+import { CHART_COLORS, BENCHMARK_KEY, formatPercent, getChartColor, EmptyStates } from '@/lib/utils';
 
 interface FundBreakdownPoint {
   date: string;
@@ -24,9 +24,11 @@ interface FundsBreakdownChartProps {
   data: FundBreakdownPoint[];
   funds: string[];
   fundLabels?: Record<string, string>;
+  /** Name of the benchmark whose growth is under BENCHMARK_KEY, if any */
+  benchmarkLabel?: string;
 }
 
-export function FundsBreakdownChart({ data, funds, fundLabels = {} }: FundsBreakdownChartProps) {
+export function FundsBreakdownChart({ data, funds, fundLabels = {}, benchmarkLabel }: FundsBreakdownChartProps) {
   const [hiddenFunds, setHiddenFunds] = useState<Set<string>>(new Set());
 
   if (!data || data.length === 0 || funds.length === 0) {
@@ -55,6 +57,7 @@ export function FundsBreakdownChart({ data, funds, fundLabels = {} }: FundsBreak
 
   // Get display name for a fund
   const getDisplayName = (symbol: string) => {
+    if (symbol === BENCHMARK_KEY) return benchmarkLabel ?? 'Benchmark';
     return fundLabels[symbol] || symbol;
   };
 
@@ -123,6 +126,12 @@ export function FundsBreakdownChart({ data, funds, fundLabels = {} }: FundsBreak
             </button>
           );
         })}
+        {benchmarkLabel && (
+          <span className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700">
+            <span className="w-4 border-t-2 border-dashed border-gray-500 flex-shrink-0" />
+            {truncateName(benchmarkLabel, 35)}
+          </span>
+        )}
       </div>
     );
   };
@@ -158,6 +167,17 @@ export function FundsBreakdownChart({ data, funds, fundLabels = {} }: FundsBreak
               strokeOpacity={hiddenFunds.has(fund) ? 0 : 1}
             />
           ))}
+          {benchmarkLabel && (
+            <Line
+              type="monotone"
+              dataKey={BENCHMARK_KEY}
+              stroke="#6b7280"
+              strokeWidth={2}
+              strokeDasharray="5 5"
+              dot={false}
+              connectNulls
+            />
+          )}
         </LineChart>
       </ResponsiveContainer>
       {renderLegend()}
@@ -0,0 +1,82 @@
+'use client';
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { format, parseISO } from 'date-fns';
+import type { IncomeMonthPoint } from '@/types';
+import { CHART_COLORS, formatCurrency, truncateName, ChartEmptyState } from '@/lib/utils';
+
+interface IncomeChartProps {
+  data: IncomeMonthPoint[];
+  funds: string[];
+  fundLabels?: Record<string, string>;
+}
+
+export function IncomeChart({ data, funds, fundLabels = {} }: IncomeChartProps) {
+  if (!data || data.length === 0) {
+    return <ChartEmptyState message="No dividend income recorded - import your transaction history to see it" />;
+  }
+
+  const formatMonth = (dateStr: string) => {
+    try {
+      return format(parseISO(dateStr), 'MMM yy');
+    } catch {
+      return dateStr;
+    }
+  };
+
+  // Only stack funds that actually paid something in this range
+  const payingFunds = funds.filter((fund) => data.some((d) => typeof d[fund] === 'number'));
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <BarChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+        <XAxis
+          dataKey="date"
+          tickFormatter={formatMonth}
+          tick={{ fontSize: 12 }}
+          interval="preserveStartEnd"
+        />
+        <YAxis
+          tickFormatter={(value) => `£${value.toFixed(0)}`}
+          tick={{ fontSize: 12 }}
+          width={60}
+        />
+        <Tooltip
+          formatter={(value, name) => [
+            formatCurrency(Number(value), { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+            truncateName(fundLabels[String(name)] || String(name), 35),
+          ]}
+          labelFormatter={(label) => {
+            try {
+              return format(parseISO(String(label)), 'MMMM yyyy');
+            } catch {
+              return String(label);
+            }
+          }}
+          contentStyle={{
+            backgroundColor: 'rgba(255, 255, 255, 0.95)',
+            border: '1px solid #e5e7eb',
+            borderRadius: '8px',
+          }}
+        />
+        {payingFunds.map((fund) => (
+          <Bar
+            key={fund}
+            dataKey={fund}
+            stackId="income"
+            fill={CHART_COLORS[funds.indexOf(fund) % CHART_COLORS.length]}
+          />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
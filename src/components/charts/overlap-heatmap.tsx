@@ -0,0 +1,91 @@
+'use client';
+
+import type { FundOverlapPair } from '@/types';
+import { formatPercent, ChartEmptyState } from '@/lib/utils';
+
+interface OverlapHeatmapProps {
+  funds: Array<{ symbol: string; name: string; numberOfHoldings: number }>;
+  pairs: FundOverlapPair[];
+  /** The pair whose shared holdings are being shown */
+  selected: FundOverlapPair | null;
+  onSelect: (pair: FundOverlapPair) => void;
+}
+
+// Shade from pale to solid blue as overlap rises; anything past 60% is solid
+function getCellStyle(overlapPercent: number) {
+  const intensity = Math.min(overlapPercent / 60, 1);
+  return {
+    backgroundColor: `rgba(37, 99, 235, ${0.08 + intensity * 0.82})`,
+    color: intensity > 0.5 ? '#ffffff' : '#111827',
+  };
+}
+
+export function OverlapHeatmap({ funds, pairs, selected, onSelect }: OverlapHeatmapProps) {
+  const withData = funds.filter((f) => f.numberOfHoldings > 0);
+
+  if (withData.length < 2) {
+    return <ChartEmptyState message="Holdings data is needed for at least two funds to compare them" />;
+  }
+
+  const findPair = (a: string, b: string) =>
+    pairs.find((p) => (p.fundA === a && p.fundB === b) || (p.fundA === b && p.fundB === a));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-sm border-separate border-spacing-1">
+        <thead>
+          <tr>
+            <th />
+            {withData.map((fund) => (
+              <th
+                key={fund.symbol}
+                title={fund.name}
+                className="px-2 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap"
+              >
+                {fund.symbol}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {withData.map((row) => (
+            <tr key={row.symbol}>
+              <th
+                title={row.name}
+                className="px-2 py-1 text-left text-xs font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap"
+              >
+                {row.symbol}
+              </th>
+              {withData.map((column) => {
+                if (row.symbol === column.symbol) {
+                  return (
+                    <td key={column.symbol} className="w-16 h-10 rounded bg-gray-100 dark:bg-gray-800 text-center text-gray-400">
+                      -
+                    </td>
+                  );
+                }
+
+                const pair = findPair(row.symbol, column.symbol);
+                if (!pair) return <td key={column.symbol} />;
+
+                const isSelected = selected === pair;
+                return (
+                  <td key={column.symbol} className="p-0">
+                    <button
+                      onClick={() => onSelect(pair)}
+                      title={`${row.name} / ${column.name}: ${pair.shared.length} shared holdings`}
+                      style={getCellStyle(pair.overlapPercent)}
+                      className={`w-16 h-10 rounded text-xs font-medium ${isSelected ? 'ring-2 ring-offset-1 ring-amber-500' : ''}`}
+                    >
+                      {formatPercent(pair.overlapPercent, { decimals: 0, showSign: false })}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -11,13 +11,17 @@ import {
 } from 'recharts';
 import { format, parseISO } from 'date-fns';
 import type { PortfolioHistoryPoint } from '@/types';
-import { formatCurrency, getTrendColor, ChartEmptyState } from '@/lib/utils';
+import { formatCurrency, getCurrencySymbol, getTrendColor, ChartEmptyState } from '@/lib/utils';
 
 interface PortfolioChartProps {
-  data: PortfolioHistoryPoint[];
+  data: Array<PortfolioHistoryPoint & { benchmark?: number }>;
+  /** Currency the values are in */
+  currency?: string;
+  /** Name of the benchmark whose simulated values are in `benchmark` */
+  benchmarkLabel?: string;
 }
 
-export function PortfolioChart({ data }: PortfolioChartProps) {
+export function PortfolioChart({ data, currency = 'GBP', benchmarkLabel }: PortfolioChartProps) {
   if (!data || data.length === 0) {
     return <ChartEmptyState message="No portfolio data available" />;
   }
@@ -37,7 +41,7 @@ export function PortfolioChart({ data }: PortfolioChartProps) {
   const chartColor = getTrendColor(gainLoss);
 
   // Calculate Y-axis domain with padding to better show value changes
-  const values = data.map(d => d.value);
+  const values = data.flatMap(d => (d.benchmark !== undefined ? [d.value, d.benchmark] : [d.value]));
   const minValue = Math.min(...values);
   const maxValue = Math.max(...values);
   const range = maxValue - minValue;
@@ -62,13 +66,16 @@ export function PortfolioChart({ data }: PortfolioChartProps) {
           interval="preserveStartEnd"
         />
         <YAxis
-          tickFormatter={(value) => `£${(value / 1000).toFixed(0)}k`}
+          tickFormatter={(value) => `${getCurrencySymbol(currency)}${(value / 1000).toFixed(0)}k`}
           tick={{ fontSize: 12 }}
           width={60}
           domain={[yMin, yMax]}
         />
         <Tooltip
-          formatter={(value) => [formatCurrency(Number(value)), 'Portfolio Value']}
+          formatter={(value, name) => [
+            formatCurrency(Number(value), { currency }),
+            name === 'benchmark' ? `${benchmarkLabel ?? 'Benchmark'} (simulated)` : 'Portfolio Value',
+          ]}
           labelFormatter={(label) => {
             try {
               return format(parseISO(String(label)), 'dd MMM yyyy');
@@ -90,6 +97,17 @@ export function PortfolioChart({ data }: PortfolioChartProps) {
           fillOpacity={1}
           fill="url(#colorValue)"
         />
+        {benchmarkLabel && (
+          <Area
+            type="monotone"
+            dataKey="benchmark"
+            stroke="#6b7280"
+            strokeWidth={2}
+            strokeDasharray="5 5"
+            fill="none"
+            connectNulls
+          />
+        )}
       </AreaChart>
     </ResponsiveContainer>
   );
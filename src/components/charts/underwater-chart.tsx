@@ -0,0 +1,82 @@
+'use client';
+
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { format, parseISO } from 'date-fns';
+import type { DrawdownPoint } from '@/types';
+import { formatPercent, ChartEmptyState } from '@/lib/utils';
+
+interface UnderwaterChartProps {
+  data: DrawdownPoint[];
+}
+
+// Shows how far below its previous high the series was on each date
+export function UnderwaterChart({ data }: UnderwaterChartProps) {
+  if (!data || data.length < 2) {
+    return <ChartEmptyState message="Not enough history to chart drawdowns" />;
+  }
+
+  const formatDate = (dateStr: string) => {
+    try {
+      return format(parseISO(dateStr), 'MMM yy');
+    } catch {
+      return dateStr;
+    }
+  };
+
+  return (
+    <ResponsiveContainer width="100%" height={250}>
+      <AreaChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+        <defs>
+          <linearGradient id="colorDrawdown" x1="0" y1="0" x2="0" y2="1">
+            <stop offset="5%" stopColor="#ef4444" stopOpacity={0.05}/>
+            <stop offset="95%" stopColor="#ef4444" stopOpacity={0.4}/>
+          </linearGradient>
+        </defs>
+        <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+        <XAxis
+          dataKey="date"
+          tickFormatter={formatDate}
+          tick={{ fontSize: 12 }}
+          interval="preserveStartEnd"
+        />
+        <YAxis
+          tickFormatter={(value) => `${value.toFixed(0)}%`}
+          tick={{ fontSize: 12 }}
+          width={50}
+          domain={['auto', 0]}
+        />
+        <Tooltip
+          formatter={(value) => [formatPercent(Number(value)), 'Below previous high']}
+          labelFormatter={(label) => {
+            try {
+              return format(parseISO(String(label)), 'dd MMM yyyy');
+            } catch {
+              return String(label);
+            }
+          }}
+          contentStyle={{
+            backgroundColor: 'rgba(255, 255, 255, 0.95)',
+            border: '1px solid #e5e7eb',
+            borderRadius: '8px',
+          }}
+        />
+        <Area
+          type="monotone"
+          dataKey="drawdownPercent"
+          stroke="#ef4444"
+          strokeWidth={1.5}
+          fillOpacity={1}
+          fill="url(#colorDrawdown)"
+        />
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  useReactTable,
+  getCoreRowModel,
+  getSortedRowModel,
+  flexRender,
+  createColumnHelper,
+  SortingState,
+} from '@tanstack/react-table';
+import type { AnnualReturn } from '@/types';
+import { formatPercent, getSortIcon } from '@/lib/utils';
+
+interface AnnualReturnsRow {
+  symbol: string;
+  name: string;
+  returns: AnnualReturn[];
+  /** Funds are compared with each other; the portfolio and benchmark are shown for reference */
+  kind: 'fund' | 'portfolio' | 'benchmark';
+}
+
+interface AnnualReturnsTableProps {
+  data: AnnualReturnsRow[];
+}
+
+const columnHelper = createColumnHelper<AnnualReturnsRow>();
+
+export function AnnualReturnsTable({ data }: AnnualReturnsTableProps) {
+  const [sorting, setSorting] = useState<SortingState>([]);
+
+  // Newest year first, as on a factsheet
+  const periods = useMemo(
+    () => Array.from(new Set(data.flatMap((row) => row.returns.map((r) => r.period)))).sort().reverse(),
+    [data]
+  );
+
+  // Best and worst fund in each full year
+  const extremes = useMemo(() => {
+    const byPeriod = new Map<string, { best: number; worst: number }>();
+    for (const period of periods) {
+      const values = data
+        .filter((row) => row.kind === 'fund')
+        .flatMap((row) => row.returns.filter((r) => r.period === period && !r.partial))
+        .map((r) => r.returnPercent)
+        .filter((value): value is number => value !== null);
+      if (values.length > 1) {
+        byPeriod.set(period, { best: Math.max(...values), worst: Math.min(...values) });
+      }
+    }
+    return byPeriod;
+  }, [data, periods]);
+
+  const columns = useMemo(
+    () => [
+      columnHelper.accessor('name', {
+        header: 'Fund',
+        cell: (info) => (
+          <div>
+            <div className={`text-gray-900 ${info.row.original.kind === 'fund' ? '' : 'font-semibold'}`}>
+              {info.getValue()}
+            </div>
+            {info.row.original.kind !== 'portfolio' && (
+              <div className="text-xs text-gray-500">{info.row.original.symbol}</div>
+            )}
+          </div>
+        ),
+      }),
+      ...periods.map((period) =>
+        columnHelper.accessor((row) => row.returns.find((r) => r.period === period)?.returnPercent ?? undefined, {
+          id: period,
+          header: period,
+          sortUndefined: 'last',
+          cell: (info) => {
+            const annual = info.row.original.returns.find((r) => r.period === period);
+            if (!annual) return <span className="text-gray-400">-</span>;
+            if (annual.returnPercent === null) {
+              return <span title="No prices for this year" className="text-gray-400">-</span>;
+            }
+
+            const extreme = extremes.get(period);
+            const isFund = info.row.original.kind === 'fund' && !annual.partial;
+            const highlight = isFund && extreme?.best === annual.returnPercent
+              ? 'bg-green-100 font-semibold'
+              : isFund && extreme?.worst === annual.returnPercent
+                ? 'bg-red-100 font-semibold'
+                : '';
+            const colorClass = annual.returnPercent >= 0 ? 'text-green-600' : 'text-red-600';
+
+            return (
+              <span
+                title={annual.partial ? 'Part of the year only' : undefined}
+                className={`px-1.5 py-0.5 rounded ${colorClass} ${highlight} ${annual.partial ? 'italic opacity-70' : ''}`}
+              >
+                {formatPercent(annual.returnPercent)}
+              </span>
+            );
+          },
+        })
+      ),
+    ],
+    [periods, extremes]
+  );
+
+  const table = useReactTable({
+    data,
+    columns,
+    state: { sorting },
+    onSortingChange: setSorting,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+  });
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          {table.getHeaderGroups().map((headerGroup) => (
+            <tr key={headerGroup.id} className="border-b border-gray-200">
+              {headerGroup.headers.map((header) => (
+                <th
+                  key={header.id}
+                  onClick={header.column.getToggleSortingHandler()}
+                  className="px-4 py-3 text-left font-medium text-gray-700 cursor-pointer hover:bg-gray-50 whitespace-nowrap"
+                >
+                  <div className="flex items-center">
+                    {flexRender(header.column.columnDef.header, header.getContext())}
+                    {getSortIcon(header.id, sorting)}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          ))}
+        </thead>
+        <tbody>
+          {table.getRowModel().rows.map((row) => (
+            <tr
+              key={row.id}
+              className={`border-b border-gray-100 hover:bg-gray-50 ${row.original.kind === 'fund' ? '' : 'bg-gray-50'}`}
+            >
+              {row.getVisibleCells().map((cell) => (
+                <td key={cell.id} className="px-4 py-3 text-gray-900 whitespace-nowrap">
+                  {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  useReactTable,
+  getCoreRowModel,
+  getSortedRowModel,
+  flexRender,
+  createColumnHelper,
+  SortingState,
+} from '@tanstack/react-table';
+import type { CgtDisposal, CgtMatchRule } from '@/types';
+import { formatCurrency, formatDate, formatNumber, getSortIcon } from '@/lib/utils';
+
+interface CgtDisposalsTableProps {
+  data: CgtDisposal[];
+}
+
+const RULE_LABELS: Record<CgtMatchRule, string> = {
+  'same-day': 'Same day',
+  'bed-and-breakfast': '30-day',
+  'section-104': 'S104 pool',
+};
+
+const columnHelper = createColumnHelper<CgtDisposal>();
+
+export function CgtDisposalsTable({ data }: CgtDisposalsTableProps) {
+  const [sorting, setSorting] = useState<SortingState>([{ id: 'date', desc: false }]);
+
+  const columns = useMemo(
+    () => [
+      columnHelper.accessor('date', {
+        header: 'Date',
+        cell: (info) => formatDate(info.getValue(), 'dd/MM/yyyy'),
+      }),
+      columnHelper.accessor('name', {
+        header: 'Fund',
+        cell: (info) => (
+          <div>
+            <div className="font-medium text-gray-900">{info.getValue()}</div>
+            <div className="text-xs text-gray-500">{info.row.original.symbol}</div>
+          </div>
+        ),
+      }),
+      columnHelper.accessor('units', {
+        header: 'Units',
+        cell: (info) => formatNumber(info.getValue(), { decimals: 4 }),
+      }),
+      columnHelper.accessor('proceeds', {
+        header: 'Proceeds',
+        cell: (info) => formatCurrency(info.getValue(), { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+      }),
+      columnHelper.accessor('allowableCost', {
+        header: 'Allowable Cost',
+        cell: (info) => formatCurrency(info.getValue(), { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+      }),
+      columnHelper.accessor('gain', {
+        header: 'Gain/Loss',
+        cell: (info) => {
+          const value = info.getValue();
+          const colorClass = value >= 0 ? 'text-green-600' : 'text-red-600';
+          return <span className={colorClass}>{formatCurrency(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>;
+        },
+      }),
+      columnHelper.accessor('matches', {
+        header: 'Matching',
+        enableSorting: false,
+        cell: (info) => (
+          <div className="text-xs text-gray-600 space-y-0.5">
+            {info.getValue().map((match, i) => (
+              <div key={i}>
+                {RULE_LABELS[match.rule]}: {formatNumber(match.units, { decimals: 4 })}
+                {match.acquisitionDate && ` (${formatDate(match.acquisitionDate, 'dd/MM/yyyy')})`}
+              </div>
+            ))}
+            {info.row.original.unmatchedUnits > 0 && (
+              <div className="text-amber-600">
+                No acquisition on record: {formatNumber(info.row.original.unmatchedUnits, { decimals: 4 })}
+              </div>
+            )}
+          </div>
+        ),
+      }),
+    ],
+    []
+  );
+
+  const table = useReactTable({
+    data,
+    columns,
+    state: { sorting },
+    onSortingChange: setSorting,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+  });
+
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          {table.getHeaderGroups().map((headerGroup) => (
+            <tr key={headerGroup.id} className="border-b border-gray-200">
+              {headerGroup.headers.map((header) => (
+                <th
+                  key={header.id}
+                  onClick={header.column.getToggleSortingHandler()}
+                  className="px-4 py-3 text-left font-medium text-gray-700 cursor-pointer hover:bg-gray-50"
+                >
+                  <div className="flex items-center">
+                    {flexRender(header.column.columnDef.header, header.getContext())}
+                    {header.column.getCanSort() && getSortIcon(header.id, sorting)}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          ))}
+        </thead>
+        <tbody>
+          {table.getRowModel().rows.map((row) => (
+            <tr
+              key={row.id}
+              className="border-b border-gray-100 hover:bg-gray-50"
+            >
+              {row.getVisibleCells().map((cell) => (
+                <td key={cell.id} className="px-4 py-3 text-gray-900 align-top">
+                  {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
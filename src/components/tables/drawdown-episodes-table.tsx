@@ -0,0 +1,116 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  useReactTable,
+  getCoreRowModel,
+  getSortedRowModel,
+  flexRender,
+  createColumnHelper,
+  SortingState,
+} from '@tanstack/react-table';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { DrawdownEpisode } from '@/types';
+import { formatDate, formatPercent, getSortIcon } from '@/lib/utils';
+
+interface DrawdownEpisodesTableProps {
+  data: DrawdownEpisode[];
+  /** Called with an episode when its row is clicked */
+  onSelect: (episode: DrawdownEpisode) => void;
+}
+
+const columnHelper = createColumnHelper<DrawdownEpisode>();
+
+const daysBetween = (from: string, to: string) => differenceInCalendarDays(parseISO(to), parseISO(from));
+
+export function DrawdownEpisodesTable({ data, onSelect }: DrawdownEpisodesTableProps) {
+  const [sorting, setSorting] = useState<SortingState>([]);
+
+  const columns = useMemo(
+    () => [
+      columnHelper.accessor('depthPercent', {
+        header: 'Depth',
+        cell: (info) => <span className="font-medium text-red-600">{formatPercent(info.getValue())}</span>,
+      }),
+      columnHelper.accessor('peakDate', {
+        header: 'Peak',
+        cell: (info) => formatDate(info.getValue(), 'dd/MM/yyyy'),
+      }),
+      columnHelper.accessor('troughDate', {
+        header: 'Trough',
+        cell: (info) => formatDate(info.getValue(), 'dd/MM/yyyy'),
+      }),
+      columnHelper.accessor((row) => daysBetween(row.peakDate, row.troughDate), {
+        id: 'fallDays',
+        header: 'Fall',
+        cell: (info) => `${info.getValue()} days`,
+      }),
+      columnHelper.accessor('recoveryDate', {
+        header: 'Recovered',
+        cell: (info) => {
+          const recoveryDate = info.getValue();
+          if (!recoveryDate) return <span className="text-gray-400">Not yet</span>;
+          return (
+            <div>
+              <div>{formatDate(recoveryDate, 'dd/MM/yyyy')}</div>
+              <div className="text-xs text-gray-500">
+                {daysBetween(info.row.original.troughDate, recoveryDate)} days from the trough
+              </div>
+            </div>
+          );
+        },
+      }),
+    ],
+    []
+  );
+
+  const table = useReactTable({
+    data,
+    columns,
+    state: { sorting },
+    onSortingChange: setSorting,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+  });
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          {table.getHeaderGroups().map((headerGroup) => (
+            <tr key={headerGroup.id} className="border-b border-gray-200">
+              {headerGroup.headers.map((header) => (
+                <th
+                  key={header.id}
+                  onClick={header.column.getToggleSortingHandler()}
+                  className="px-4 py-3 text-left font-medium text-gray-700 cursor-pointer hover:bg-gray-50"
+                >
+                  <div className="flex items-center">
+                    {flexRender(header.column.columnDef.header, header.getContext())}
+                    {getSortIcon(header.id, sorting)}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          ))}
+        </thead>
+        <tbody>
+          {table.getRowModel().rows.map((row) => (
+            <tr
+              key={row.id}
+              onClick={() => onSelect(row.original)}
+              title="Zoom to this drawdown"
+              className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+            >
+              {row.getVisibleCells().map((cell) => (
+                <td key={cell.id} className="px-4 py-3 text-gray-900">
+                  {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -8,26 +8,39 @@ import {
   flexRender,
   createColumnHelper,
   SortingState,
+  ColumnDef,
 } from '@tanstack/react-table';
 import type { FundHolding } from '@/types';
-import { formatPercent, formatNumber, getSortIcon } from '@/lib/utils';
+import { formatCurrency, formatPercent, formatNumber, getSortIcon } from '@/lib/utils';
 
-interface HoldingsCompositionTableProps {
-  data: FundHolding[];
+interface HoldingsCompositionTableProps<T extends FundHolding> {
+  data: T[];
   showAll?: boolean;
+  /** Currency of the holdings' values - fund providers mostly report in USD */
+  valueCurrency?: string;
+  /** Whether to show the number of shares held */
+  showShares?: boolean;
+  /** Columns to add after the standard ones */
+  extraColumns?: ColumnDef<T, unknown>[];
 }
 
-const columnHelper = createColumnHelper<FundHolding>();
-
-export function HoldingsCompositionTable({ data, showAll = false }: HoldingsCompositionTableProps) {
+export function HoldingsCompositionTable<T extends FundHolding>({
+  data,
+  showAll = false,
+  valueCurrency = 'USD',
+  showShares = true,
+  extraColumns,
+}: HoldingsCompositionTableProps<T>) {
   const [sorting, setSorting] = useState<SortingState>([{ id: 'weightPercent', desc: true }]);
   const [expanded, setExpanded] = useState(showAll);
 
   const displayData = expanded ? data : data.slice(0, 10);
 
-  const columns = useMemo(
-    () => [
-      columnHelper.accessor('name', {
+  const columns = useMemo(() => {
+    const columnHelper = createColumnHelper<T>();
+    return [
+      columnHelper.accessor((row) => row.name, {
+        id: 'name',
         header: 'Holding',
         cell: (info) => (
           <div>
@@ -42,11 +55,13 @@ export function HoldingsCompositionTable({ data, showAll = false }: HoldingsComp
           </div>
         ),
       }),
-      columnHelper.accessor('assetType', {
+      columnHelper.accessor((row) => row.assetType, {
+        id: 'assetType',
         header: 'Type',
         cell: (info) => info.getValue() || '-',
       }),
-      columnHelper.accessor('weightPercent', {
+      columnHelper.accessor((row) => row.weightPercent, {
+        id: 'weightPercent',
         header: 'Weight',
         cell: (info) => {
           const value = info.getValue();
@@ -65,29 +80,29 @@ export function HoldingsCompositionTable({ data, showAll = false }: HoldingsComp
           );
         },
       }),
-      columnHelper.accessor('sharesHeld', {
-        header: 'Shares',
-        cell: (info) => formatNumber(info.getValue(), { decimals: 0 }),
-      }),
-      columnHelper.accessor('marketValue', {
+      ...(showShares
+        ? [
+            columnHelper.accessor((row) => row.sharesHeld, {
+              id: 'sharesHeld',
+              header: 'Shares',
+              cell: (info) => formatNumber(info.getValue(), { decimals: 0 }),
+            }),
+          ]
+        : []),
+      columnHelper.accessor((row) => row.marketValue, {
+        id: 'marketValue',
         header: 'Value',
         cell: (info) => {
           const value = info.getValue();
           if (value === undefined) return '-';
-          // Holdings are often in USD
-          return new Intl.NumberFormat('en-US', {
-            style: 'currency',
-            currency: 'USD',
-            minimumFractionDigits: 0,
-            maximumFractionDigits: 0,
-          }).format(value);
+          return formatCurrency(value, { currency: valueCurrency });
         },
       }),
-    ],
-    []
-  );
+      ...(extraColumns ?? []),
+    ];
+  }, [valueCurrency, showShares, extraColumns]);
 
-  const table = useReactTable({
+  const table = useReactTable<T>({
     data: displayData,
     columns,
     state: { sorting },
@@ -16,11 +16,13 @@ import { formatCurrency, formatPercent, formatNumber, getSortIcon, getTrendColor
 
 interface HoldingsTableProps {
   data: Holding[];
+  /** Currency the money columns are in */
+  currency?: string;
 }
 
 const columnHelper = createColumnHelper<Holding>();
 
-export function HoldingsTable({ data }: HoldingsTableProps) {
+export function HoldingsTable({ data, currency = 'GBP' }: HoldingsTableProps) {
   const [sorting, setSorting] = useState<SortingState>([{ id: 'gainLossPercent', desc: true }]);
 
   const columns = useMemo(
@@ -46,18 +48,27 @@ export function HoldingsTable({ data }: HoldingsTableProps) {
       }),
       columnHelper.accessor('bookCost', {
         header: 'Book Cost',
-        cell: (info) => formatCurrency(info.getValue(), { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+        cell: (info) => formatCurrency(info.getValue(), { currency, minimumFractionDigits: 2, maximumFractionDigits: 2 }),
       }),
       columnHelper.accessor('marketValue', {
         header: 'Market Value',
-        cell: (info) => formatCurrency(info.getValue(), { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+        cell: (info) => formatCurrency(info.getValue(), { currency, minimumFractionDigits: 2, maximumFractionDigits: 2 }),
       }),
       columnHelper.accessor('gainLoss', {
         header: 'Gain/Loss',
         cell: (info) => {
           const value = info.getValue();
           const colorClass = value >= 0 ? 'text-green-600' : 'text-red-600';
-          return <span className={colorClass}>{formatCurrency(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>;
+          return <span className={colorClass}>{formatCurrency(value, { currency, minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>;
+        },
+      }),
+      columnHelper.accessor('income12m', {
+        header: 'Income (12m)',
+        cell: (info) => {
+          const value = info.getValue();
+          return value > 0
+            ? formatCurrency(value, { currency, minimumFractionDigits: 2, maximumFractionDigits: 2 })
+            : <span className="text-gray-400">-</span>;
         },
       }),
       columnHelper.accessor('gainLossPercent', {
@@ -69,7 +80,7 @@ export function HoldingsTable({ data }: HoldingsTableProps) {
         },
       }),
     ],
-    []
+    [currency]
   );
 
   const table = useReactTable({
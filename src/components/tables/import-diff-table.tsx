@@ -0,0 +1,134 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  useReactTable,
+  getCoreRowModel,
+  getSortedRowModel,
+  flexRender,
+  createColumnHelper,
+  SortingState,
+} from '@tanstack/react-table';
+import type { HoldingChange, HoldingChangeStatus } from '@/types';
+import { formatCurrency, formatNumber, getSortIcon } from '@/lib/utils';
+
+interface ImportDiffTableProps {
+  data: HoldingChange[];
+}
+
+const STATUS_STYLES: Record<HoldingChangeStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-100 text-green-700' },
+  closed: { label: 'Closed', className: 'bg-red-100 text-red-700' },
+  increased: { label: 'Added to', className: 'bg-blue-100 text-blue-700' },
+  reduced: { label: 'Reduced', className: 'bg-amber-100 text-amber-700' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-600' },
+};
+
+const columnHelper = createColumnHelper<HoldingChange>();
+
+export function ImportDiffTable({ data }: ImportDiffTableProps) {
+  const [sorting, setSorting] = useState<SortingState>([]);
+
+  const columns = useMemo(
+    () => [
+      columnHelper.accessor('name', {
+        header: 'Fund',
+        cell: (info) => (
+          <div>
+            <div className="font-medium text-gray-900">{info.getValue()}</div>
+            <div className="text-xs text-gray-500">{info.row.original.symbol}</div>
+          </div>
+        ),
+      }),
+      columnHelper.accessor('status', {
+        header: 'Change',
+        cell: (info) => {
+          const style = STATUS_STYLES[info.getValue()];
+          return (
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}>
+              {style.label}
+            </span>
+          );
+        },
+      }),
+      columnHelper.accessor('unitsBefore', {
+        header: 'Units Before',
+        cell: (info) => formatNumber(info.getValue(), { decimals: 4 }),
+      }),
+      columnHelper.accessor('unitsAfter', {
+        header: 'Units After',
+        cell: (info) => formatNumber(info.getValue(), { decimals: 4 }),
+      }),
+      columnHelper.accessor('unitsChange', {
+        header: 'Units +/-',
+        cell: (info) => {
+          const value = info.getValue();
+          if (value === 0) return <span className="text-gray-400">-</span>;
+          const colorClass = value > 0 ? 'text-green-600' : 'text-red-600';
+          return (
+            <span className={colorClass}>
+              {value > 0 ? '+' : ''}{formatNumber(value, { decimals: 4 })}
+            </span>
+          );
+        },
+      }),
+      columnHelper.accessor('valueBefore', {
+        header: 'Value Before',
+        cell: (info) => formatCurrency(info.getValue()),
+      }),
+      columnHelper.accessor('valueAfter', {
+        header: 'Value After',
+        cell: (info) => formatCurrency(info.getValue()),
+      }),
+    ],
+    []
+  );
+
+  const table = useReactTable({
+    data,
+    columns,
+    state: { sorting },
+    onSortingChange: setSorting,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+  });
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          {table.getHeaderGroups().map((headerGroup) => (
+            <tr key={headerGroup.id} className="border-b border-gray-200">
+              {headerGroup.headers.map((header) => (
+                <th
+                  key={header.id}
+                  onClick={header.column.getToggleSortingHandler()}
+                  className="px-4 py-3 text-left font-medium text-gray-700 cursor-pointer hover:bg-gray-50"
+                >
+                  <div className="flex items-center">
+                    {flexRender(header.column.columnDef.header, header.getContext())}
+                    {getSortIcon(header.id, sorting)}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          ))}
+        </thead>
+        <tbody>
+          {table.getRowModel().rows.map((row) => (
+            <tr
+              key={row.id}
+              className="border-b border-gray-100 hover:bg-gray-50"
+            >
+              {row.getVisibleCells().map((cell) => (
+                <td key={cell.id} className="px-4 py-3 text-gray-900">
+                  {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
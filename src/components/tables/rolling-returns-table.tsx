@@ -0,0 +1,115 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  useReactTable,
+  getCoreRowModel,
+  getSortedRowModel,
+  flexRender,
+  createColumnHelper,
+  SortingState,
+} from '@tanstack/react-table';
+import type { RollingReturnSummary } from '@/types';
+import { formatPercent, getSortIcon } from '@/lib/utils';
+
+interface RollingReturnsRow extends RollingReturnSummary {
+  symbol: string;
+  name: string;
+}
+
+interface RollingReturnsTableProps {
+  data: RollingReturnsRow[];
+}
+
+const columnHelper = createColumnHelper<RollingReturnsRow>();
+
+const returnCell = (value: number) => (
+  <span className={value >= 0 ? 'text-green-600' : 'text-red-600'}>{formatPercent(value)}</span>
+);
+
+export function RollingReturnsTable({ data }: RollingReturnsTableProps) {
+  const [sorting, setSorting] = useState<SortingState>([]);
+
+  const columns = useMemo(
+    () => [
+      columnHelper.accessor('name', {
+        header: 'Fund',
+        cell: (info) => (
+          <div>
+            <div className="font-medium text-gray-900">{info.getValue()}</div>
+            <div className="text-xs text-gray-500">{info.row.original.observations.toLocaleString('en-GB')} windows</div>
+          </div>
+        ),
+      }),
+      columnHelper.accessor('latest', {
+        header: 'Latest',
+        cell: (info) => returnCell(info.getValue()),
+      }),
+      columnHelper.accessor('min', {
+        header: 'Worst',
+        cell: (info) => returnCell(info.getValue()),
+      }),
+      columnHelper.accessor('median', {
+        header: 'Median',
+        cell: (info) => returnCell(info.getValue()),
+      }),
+      columnHelper.accessor('max', {
+        header: 'Best',
+        cell: (info) => returnCell(info.getValue()),
+      }),
+      columnHelper.accessor('positivePercent', {
+        header: 'Positive',
+        cell: (info) => formatPercent(info.getValue(), { decimals: 0, showSign: false }),
+      }),
+    ],
+    []
+  );
+
+  const table = useReactTable({
+    data,
+    columns,
+    state: { sorting },
+    onSortingChange: setSorting,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+  });
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          {table.getHeaderGroups().map((headerGroup) => (
+            <tr key={headerGroup.id} className="border-b border-gray-200">
+              {headerGroup.headers.map((header) => (
+                <th
+                  key={header.id}
+                  onClick={header.column.getToggleSortingHandler()}
+                  className="px-4 py-3 text-left font-medium text-gray-700 cursor-pointer hover:bg-gray-50"
+                >
+                  <div className="flex items-center">
+                    {flexRender(header.column.columnDef.header, header.getContext())}
+                    {getSortIcon(header.id, sorting)}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          ))}
+        </thead>
+        <tbody>
+          {table.getRowModel().rows.map((row) => (
+            <tr
+              key={row.id}
+              className="border-b border-gray-100 hover:bg-gray-50"
+            >
+              {row.getVisibleCells().map((cell) => (
+                <td key={cell.id} className="px-4 py-3 text-gray-900">
+                  {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import type { Account } from '@/types';
+
+interface AccountFilterProps {
+  accounts: Account[];
+  selectedId: number | null;
+  onAccountChange: (accountId: number | null) => void;
+}
+
+export function AccountFilter({ accounts, selectedId, onAccountChange }: AccountFilterProps) {
+  const options: Array<{ id: number | null; label: string; description: string }> = [
+    { id: null, label: 'All accounts', description: 'Combined household view' },
+    ...accounts.map((account) => ({
+      id: account.id,
+      label: account.name,
+      description: `${account.type} account`,
+    })),
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {options.map((option) => (
+        <button
+          key={option.id ?? 'all'}
+          onClick={() => onAccountChange(option.id)}
+          title={option.description}
+          className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+            selectedId === option.id
+              ? 'bg-blue-600 text-white'
+              : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+
+interface BenchmarkPickerProps {
+  /** Benchmark currently set, or null for none */
+  benchmark: string | null;
+  onBenchmarkChange: (benchmark: string | null) => void;
+}
+
+export function BenchmarkPicker({ benchmark, onBenchmarkChange }: BenchmarkPickerProps) {
+  const [input, setInput] = useState(benchmark ?? '');
+  const [shown, setShown] = useState(benchmark);
+
+  // Show the saved benchmark again whenever it changes
+  if (benchmark !== shown) {
+    setShown(benchmark);
+    setInput(benchmark ?? '');
+  }
+
+  const handleApply = () => {
+    const symbol = input.trim().toUpperCase();
+    onBenchmarkChange(symbol || null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label htmlFor="benchmark" className="text-sm text-gray-600 dark:text-gray-400">
+        Compare with
+      </label>
+      <input
+        id="benchmark"
+        type="text"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+        placeholder="e.g. VWRL or ^FTSE"
+        title="Any symbol the price sources can find: a fund, an ETF or an index"
+        className="w-40 px-2 py-1 text-sm border rounded-md dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+      />
+      <button
+        onClick={handleApply}
+        disabled={input.trim().toUpperCase() === (benchmark ?? '')}
+        className="px-3 py-1.5 text-sm font-medium bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Apply
+      </button>
+      {benchmark && (
+        <button
+          onClick={() => onBenchmarkChange(null)}
+          className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
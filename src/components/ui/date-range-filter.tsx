@@ -2,25 +2,19 @@
 
 import { useState, useEffect } from 'react';
 import { subMonths, subYears, startOfYear, format } from 'date-fns';
+import type { DateRange } from '@/types';
+import { getFinancialYearStart } from '@/lib/utils';
 
 export type DateRangePreset = '1M' | '3M' | '6M' | '1Y' | '3Y' | '5Y' | 'YTD' | 'FY' | 'ALL' | 'CUSTOM';
 
 interface DateRangeFilterProps {
   onRangeChange: (startDate: string | null, endDate: string | null) => void;
   initialPreset?: DateRangePreset;
-}
-
-// UK tax year starts April 6th
-function getFinancialYearStart(): Date {
-  const now = new Date();
-  const currentYear = now.getFullYear();
-  const aprilSixth = new Date(currentYear, 3, 6); // Month is 0-indexed
-
-  // If we're before April 6th, the financial year started last year
-  if (now < aprilSixth) {
-    return new Date(currentYear - 1, 3, 6);
-  }
-  return aprilSixth;
+  /**
+   * A range chosen elsewhere on the page, such as a chart window to zoom to.
+   * It's shown as a custom range whenever it changes; the page applies it itself.
+   */
+  range?: DateRange | null;
 }
 
 function getDateRangeFromPreset(preset: DateRangePreset): { start: Date | null; end: Date } {
@@ -62,11 +56,22 @@ const presets: { label: string; value: DateRangePreset; description: string }[]
   { label: 'All', value: 'ALL', description: 'All time' },
 ];
 
-export function DateRangeFilter({ onRangeChange, initialPreset = '1Y' }: DateRangeFilterProps) {
+export function DateRangeFilter({ onRangeChange, initialPreset = '1Y', range = null }: DateRangeFilterProps) {
   const [selectedPreset, setSelectedPreset] = useState<DateRangePreset>(initialPreset);
   const [customStart, setCustomStart] = useState<string>('');
   const [customEnd, setCustomEnd] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
   const [showCustom, setShowCustom] = useState(false);
+  const [shownRange, setShownRange] = useState<DateRange | null>(null);
+
+  if (range !== shownRange) {
+    setShownRange(range);
+    if (range) {
+      setSelectedPreset('CUSTOM');
+      setShowCustom(true);
+      setCustomStart(range.start ?? '');
+      setCustomEnd(range.end ?? format(new Date(), 'yyyy-MM-dd'));
+    }
+  }
 
   // Apply initial filter on mount
   useEffect(() => {
@@ -2,12 +2,16 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Home, Upload, Sun, Moon } from 'lucide-react';
+import { Home, Upload, Receipt, History, Layers, Activity, Sun, Moon } from 'lucide-react';
 import { useState, useEffect } from 'react';
 
 const navItems = [
   { href: '/', label: 'Portfolio', icon: Home },
+  { href: '/lookthrough', label: 'Look-Through', icon: Layers },
+  { href: '/analytics', label: 'Analytics', icon: Activity },
+  { href: '/tax', label: 'Tax', icon: Receipt },
   { href: '/import', label: 'Import', icon: Upload },
+  { href: '/imports', label: 'History', icon: History },
 ];
 
 export function Nav() {
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import type { RiskMetrics } from '@/types';
+import { formatDate, formatNumber, formatPercent } from '@/lib/utils';
+import { SummaryCard } from './summary-card';
+
+interface RiskMetricsPanelProps {
+  metrics: RiskMetrics | null;
+  /** Offer to change the risk-free rate when given */
+  onRiskFreeRateChange?: (rate: number) => void;
+}
+
+function describeDrawdown(metrics: RiskMetrics | null) {
+  const drawdown = metrics?.maxDrawdown;
+  if (!drawdown) return 'no falls in the selected period';
+  const fell = `${formatDate(drawdown.peakDate, 'dd/MM/yyyy')} to ${formatDate(drawdown.troughDate, 'dd/MM/yyyy')}`;
+  return drawdown.recoveryDate
+    ? `${fell}, recovered ${formatDate(drawdown.recoveryDate, 'dd/MM/yyyy')}`
+    : `${fell}, not yet recovered`;
+}
+
+export function RiskMetricsPanel({ metrics, onRiskFreeRateChange }: RiskMetricsPanelProps) {
+  const riskFreeRate = metrics?.riskFreeRate ?? null;
+  const [input, setInput] = useState(riskFreeRate?.toString() ?? '');
+  const [shown, setShown] = useState(riskFreeRate);
+
+  // Show the saved rate again whenever it changes
+  if (riskFreeRate !== shown) {
+    setShown(riskFreeRate);
+    setInput(riskFreeRate?.toString() ?? '');
+  }
+
+  const handleApply = () => {
+    const rate = Number(input);
+    if (input.trim() !== '' && isFinite(rate)) onRiskFreeRateChange?.(rate);
+  };
+
+  const ratioSubtitle = riskFreeRate !== null
+    ? `${formatPercent(riskFreeRate, { showSign: false })} risk-free rate`
+    : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <SummaryCard
+          title="Volatility"
+          value={metrics?.volatility != null ? `${formatPercent(metrics.volatility, { showSign: false })} p.a.` : 'N/A'}
+          subtitle="how much returns swing about"
+        />
+        <SummaryCard
+          title="Maximum Drawdown"
+          value={metrics?.maxDrawdown ? formatPercent(metrics.maxDrawdown.depthPercent) : 'N/A'}
+          trend={metrics?.maxDrawdown ? 'down' : 'neutral'}
+          subtitle={describeDrawdown(metrics)}
+        />
+        <SummaryCard
+          title="Sharpe Ratio"
+          value={metrics?.sharpeRatio != null ? formatNumber(metrics.sharpeRatio) : 'N/A'}
+          subtitle={ratioSubtitle && `return per unit of volatility, ${ratioSubtitle}`}
+        />
+        <SummaryCard
+          title="Sortino Ratio"
+          value={metrics?.sortinoRatio != null ? formatNumber(metrics.sortinoRatio) : 'N/A'}
+          subtitle={ratioSubtitle && `return per unit of downside, ${ratioSubtitle}`}
+        />
+      </div>
+
+      {onRiskFreeRateChange && (
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <label htmlFor="risk-free-rate">Risk-free rate (% a year)</label>
+          <input
+            id="risk-free-rate"
+            type="number"
+            step="0.1"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+            className="w-20 px-2 py-1 text-sm border rounded-md dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+          />
+          <button
+            onClick={handleApply}
+            disabled={Number(input) === riskFreeRate}
+            className="px-3 py-1.5 text-sm font-medium bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
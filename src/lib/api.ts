@@ -0,0 +1,71 @@
+/**
+ * Helpers shared by the API routes
+ */
+
+import { NextResponse } from 'next/server';
+import { getAccount, getCachedPriceHistory, getFxRates } from './db';
+import { queuePriceRefreshes, queueFxRefreshes } from './jobs/queue';
+import { getCurrencyPair, createRateLookup, convertPrices } from '@/lib/utils';
+import type { PricePoint, SourcedPricePoint } from '@/types';
+
+/**
+ * Read the `?account=` filter: a single account, or every account combined
+ * when none is given
+ *
+ * @returns The account ID (undefined for every account), or an error
+ * response when the ID is malformed or the account doesn't exist
+ *
+ * @example
+ * const account = parseAccountParam(request);
+ * if ('error' in account) return account.error;
+ * const holdings = getAllHoldings(account.accountId);
+ */
+export function parseAccountParam(
+  request: Request
+): { accountId: number | undefined } | { error: NextResponse } {
+  const accountParam = new URL(request.url).searchParams.get('account');
+  if (!accountParam) return { accountId: undefined };
+
+  if (!/^\d+$/.test(accountParam)) {
+    return { error: NextResponse.json({ error: 'Account must be an account ID' }, { status: 400 }) };
+  }
+
+  const accountId = Number(accountParam);
+  if (!getAccount(accountId)) {
+    return { error: NextResponse.json({ error: 'Account not found' }, { status: 404 }) };
+  }
+
+  return { accountId };
+}
+
+/**
+ * Load funds' cached prices in pounds, as ii holds them
+ *
+ * Prices and exchange rates come from the cache and are refreshed in the
+ * background when out of date. Prices without a rate yet are left out.
+ *
+ * @param symbols - Fund or benchmark symbols
+ * @returns Prices as quoted and in pounds by symbol, with the symbols and
+ * currency pairs being refreshed
+ */
+export function loadGbpPrices(symbols: string[]): {
+  cached: Map<string, SourcedPricePoint[]>;
+  prices: Map<string, PricePoint[]>;
+  refreshing: string[];
+  ratesRefreshing: string[];
+} {
+  const refreshing = queuePriceRefreshes(symbols);
+  const cached = new Map(symbols.map((s) => [s, getCachedPriceHistory(s)]));
+
+  const priceCurrencies = new Set<string>();
+  cached.forEach((prices) => prices.forEach((p) => priceCurrencies.add(p.currency)));
+  priceCurrencies.delete('GBP');
+
+  const ratesRefreshing = queueFxRefreshes(Array.from(priceCurrencies, (c) => getCurrencyPair(c, 'GBP')));
+  const toGbp = Object.fromEntries(
+    Array.from(priceCurrencies, (c) => [c, createRateLookup(getFxRates(c, 'GBP'))])
+  );
+
+  const prices = new Map(symbols.map((s) => [s, convertPrices(cached.get(s) ?? [], 'GBP', toGbp)]));
+  return { cached, prices, refreshing, ratesRefreshing };
+}
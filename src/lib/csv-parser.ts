@@ -1,5 +1,7 @@
 import Papa from 'papaparse';
+import { parse, isValid } from 'date-fns';
 import { convertSedolToIsin } from './sedol-to-isin';
+import type { TransactionType, ExportType } from '@/types';
 
 /**
  * CSV-specific holding interface (from II CSV export)
@@ -21,6 +23,36 @@ export interface ParseResult {
   errors: string[];
 }
 
+/**
+ * CSV-specific transaction interface (from II transactions export)
+ *
+ * `units` is always positive - the direction is carried by `type`.
+ * `total` is the signed cash movement on the account (credit - debit).
+ */
+export interface CSVTransaction {
+  date: string;
+  symbol: string;
+  sedol?: string;
+  name: string;
+  type: TransactionType;
+  description: string;
+  units?: number;
+  price?: number;
+  total: number;
+}
+
+export interface TransactionParseResult {
+  transactions: CSVTransaction[];
+  errors: string[];
+}
+
+// Symbol used for cash-only rows (subscriptions, fees, interest, etc.)
+export const CASH_SYMBOL = 'CASH';
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().trim().replace(/\s+/g, '_');
+}
+
 // Parse currency values (remove £, commas, p for pence, etc.)
 function parseCurrency(value: string | undefined): number | null {
   if (!value || value.trim() === '' || value === '-') {
@@ -65,7 +97,7 @@ export function parseHoldingsCSV(csvContent: string): ParseResult {
   const parsed = Papa.parse(cleanedContent, {
     header: true,
     skipEmptyLines: true,
-    transformHeader: (header) => header.toLowerCase().trim().replace(/\s+/g, '_'),
+    transformHeader: normalizeHeader,
   });
 
   if (parsed.errors.length > 0) {
@@ -125,3 +157,134 @@ export function parseHoldingsCSV(csvContent: string): ParseResult {
 
   return { holdings, errors };
 }
+
+// Parse ii dates (dd/MM/yyyy, with ISO as a fallback) to yyyy-MM-dd
+function parseTransactionDate(value: string | undefined): string | null {
+  if (!value || value.trim() === '') {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  for (const pattern of ['dd/MM/yyyy', 'd/M/yyyy', 'yyyy-MM-dd']) {
+    const parsed = parse(trimmed, pattern, new Date());
+    if (isValid(parsed)) {
+      const year = parsed.getFullYear();
+      const month = String(parsed.getMonth() + 1).padStart(2, '0');
+      const day = String(parsed.getDate()).padStart(2, '0');
+      return `${year}-${month}-${day}`;
+    }
+  }
+
+  return null;
+}
+
+// Work out the transaction type from the description and cash/unit columns
+function classifyTransaction(
+  description: string,
+  units: number | null,
+  debit: number | null,
+  credit: number | null
+): TransactionType {
+  const desc = description.toLowerCase();
+
+  if (/transfer/.test(desc)) return 'transfer';
+
+  // Rows that move units are trades
+  if (units !== null && units !== 0) {
+    if (debit !== null && debit > 0) return 'buy';
+    if (credit !== null && credit > 0) return 'sell';
+    return 'transfer';
+  }
+
+  if (/\bfee\b|charge|commission/.test(desc)) return 'fee';
+  if (/interest/.test(desc)) return 'interest';
+  if (/\bdiv\b|dividend|distribution|\bincome\b/.test(desc)) return 'dividend';
+  if (/withdraw/.test(desc)) return 'withdrawal';
+  if (/subscription|deposit|contribution|payment|card|top.?up/.test(desc)) return 'subscription';
+
+  return 'other';
+}
+
+/**
+ * Detect which ii.co.uk export a CSV contains by looking at its header row
+ */
+export function detectExportType(csvContent: string): ExportType {
+  const cleanedContent = csvContent.replace(/^\uFEFF+/, '');
+  const headerLine = cleanedContent.split(/\r?\n/, 1)[0] ?? '';
+  const headers = (Papa.parse<string[]>(headerLine).data[0] ?? []).map(normalizeHeader);
+
+  if (headers.includes('debit') && headers.includes('credit')) {
+    return 'transactions';
+  }
+
+  if (headers.includes('qty') && headers.includes('book_cost')) {
+    return 'holdings';
+  }
+
+  return 'unknown';
+}
+
+export function parseTransactionsCSV(csvContent: string): TransactionParseResult {
+  const errors: string[] = [];
+  const transactions: CSVTransaction[] = [];
+
+  // Remove BOM characters
+  const cleanedContent = csvContent.replace(/^\uFEFF+/, '');
+
+  const parsed = Papa.parse(cleanedContent, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: normalizeHeader,
+  });
+
+  if (parsed.errors.length > 0) {
+    parsed.errors.forEach((err) => {
+      errors.push(`Row ${err.row}: ${err.message}`);
+    });
+  }
+
+  parsed.data.forEach((row: unknown, index: number) => {
+    const record = row as Record<string, string>;
+    const rowNum = index + 2;
+
+    const date = parseTransactionDate(record['date']);
+    if (!date) {
+      errors.push(`Row ${rowNum}: Invalid date`);
+      return;
+    }
+
+    const description = record['description']?.trim() || '';
+    const debit = parseCurrency(record['debit']);
+    const credit = parseCurrency(record['credit']);
+
+    if (debit === null && credit === null) {
+      errors.push(`Row ${rowNum}: Missing debit/credit amount`);
+      return;
+    }
+
+    const quantity = parseQuantity(record['quantity']);
+    const units = quantity !== null ? Math.abs(quantity) : null;
+    const price = parseCurrency(record['price']);
+    const type = classifyTransaction(description, units, debit, credit);
+
+    // ii uses "n/a" for the symbol and SEDOL on cash-only rows
+    const rawSymbol = record['symbol']?.trim();
+    const rawSedol = record['sedol']?.trim();
+    const symbol = rawSymbol && rawSymbol.toLowerCase() !== 'n/a' ? rawSymbol : CASH_SYMBOL;
+    const sedol = rawSedol && rawSedol.toLowerCase() !== 'n/a' ? rawSedol : undefined;
+
+    transactions.push({
+      date,
+      symbol,
+      sedol,
+      name: description || symbol,
+      type,
+      description,
+      units: units ?? undefined,
+      price: price ?? undefined,
+      total: (credit ?? 0) - (debit ?? 0),
+    });
+  });
+
+  return { transactions, errors };
+}
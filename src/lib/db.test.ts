@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  insertTransactionsBatch,
+  countNewTransactions,
+  getAllTransactions,
+  saveTransactionsImport,
+  getImport,
+  rollbackImport,
+  DEFAULT_ACCOUNT_ID,
+} from './db';
+
+process.env.PORTFOLIO_DB_PATH = ':memory:';
+
+// Rows as the import route builds them from an ii transactions export: cash
+// rows (subscriptions, dividends, fees) have no units
+const EXPORT = [
+  { date: '2024-01-02', symbol: 'CASH', fund_name: 'Subscription', type: 'subscription', units: null, price: null, total: 1000 },
+  { date: '2024-01-03', symbol: 'VWRL', fund_name: 'VANGUARD FTSE ALL-WORLD', type: 'buy', units: 10, price: 90, total: -900 },
+  { date: '2024-03-15', symbol: 'VWRL', fund_name: 'Div VANGUARD FTSE ALL-WORLD', type: 'dividend', units: null, price: null, total: 4.2 },
+  { date: '2024-04-01', symbol: 'CASH', fund_name: 'Monthly Fee', type: 'fee', units: null, price: null, total: -4.99 },
+].map((tx) => ({ ...tx, account_id: DEFAULT_ACCOUNT_ID, sedol: null, description: tx.fund_name }));
+
+test('re-importing the same transactions export adds no rows', () => {
+  assert.equal(insertTransactionsBatch(EXPORT), 4);
+
+  assert.equal(countNewTransactions(EXPORT), 0);
+  assert.equal(insertTransactionsBatch(EXPORT), 0);
+  assert.equal(getAllTransactions().length, 4);
+});
+
+test('rolling back a transactions import deletes only the transactions it added', () => {
+  const later = [
+    { date: '2024-04-01', symbol: 'CASH', fund_name: 'Monthly Fee', type: 'fee', units: null, price: null, total: -4.99 },
+    { date: '2024-05-01', symbol: 'CASH', fund_name: 'Monthly Fee', type: 'fee', units: null, price: null, total: -4.99 },
+    { date: '2024-05-02', symbol: 'VWRL', fund_name: 'VANGUARD FTSE ALL-WORLD', type: 'buy', units: 5, price: 95, total: -475 },
+  ].map((tx) => ({ ...tx, account_id: DEFAULT_ACCOUNT_ID, sedol: null, description: tx.fund_name }));
+  const before = getAllTransactions().length;
+
+  const { importId, inserted } = saveTransactionsImport(DEFAULT_ACCOUNT_ID, later, 'transactions.csv');
+  assert.equal(inserted, 2);
+  assert.equal(getAllTransactions().length, before + 2);
+
+  const snapshot = getImport(importId!)!;
+  assert.equal(snapshot.type, 'transactions');
+  assert.equal(snapshot.transactionsCount, 2);
+
+  rollbackImport(snapshot);
+  assert.equal(getAllTransactions().length, before);
+  assert.equal(getImport(importId!), undefined);
+
+  // An export with nothing new isn't recorded
+  assert.deepEqual(saveTransactionsImport(DEFAULT_ACCOUNT_ID, EXPORT), { importId: null, inserted: 0 });
+});
@@ -1,5 +1,21 @@
 import Database from 'better-sqlite3';
 import path from 'path';
+import type {
+  AccountType,
+  ImportSnapshot,
+  Job,
+  JobPayload,
+  JobStatus,
+  JobType,
+  PriceSourceSummary,
+  SourcedPricePoint,
+  FxRatePoint,
+  AppSettings,
+  FundHolding,
+  Security,
+  SecurityIdentifierType,
+} from '@/types';
+import { getSecurityIdentifiers, hasConflictingIdentifier, STRONG_IDENTIFIERS, DEFAULT_RISK_FREE_RATE } from '@/lib/utils';
 
 const dbPath = path.join(process.cwd(), 'data', 'portfolio.db');
 
@@ -7,7 +23,8 @@ let db: Database.Database | null = null;
 
 export function getDb(): Database.Database {
   if (!db) {
-    db = new Database(dbPath);
+    // PORTFOLIO_DB_PATH points tests at their own database (e.g. ':memory:')
+    db = new Database(process.env.PORTFOLIO_DB_PATH ?? dbPath);
     db.pragma('journal_mode = WAL');
     initializeSchema();
     runMigrations(db);
@@ -32,6 +49,171 @@ function runMigrations(database: Database.Database) {
     console.log('Added morningstar_id column to holdings table');
   }
 
+  // Holdings and transactions imported before accounts existed belong to the
+  // default account. SQLite can't change a UNIQUE constraint in place, so the
+  // tables are rebuilt.
+  if (!columnNames.includes('account_id')) {
+    database.transaction(() => {
+      database.exec(`
+        CREATE TABLE holdings_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL DEFAULT ${DEFAULT_ACCOUNT_ID} REFERENCES accounts(id),
+          symbol TEXT NOT NULL,
+          sedol TEXT,
+          isin TEXT,
+          morningstar_id TEXT,
+          name TEXT NOT NULL,
+          quantity REAL NOT NULL,
+          book_cost REAL NOT NULL,
+          current_price REAL,
+          market_value REAL,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(account_id, symbol)
+        );
+        INSERT INTO holdings_new
+          (id, account_id, symbol, sedol, isin, morningstar_id, name, quantity, book_cost, current_price, market_value, updated_at)
+        SELECT
+          id, ${DEFAULT_ACCOUNT_ID}, symbol, sedol, isin, morningstar_id, name, quantity, book_cost, current_price, market_value, updated_at
+        FROM holdings;
+        DROP TABLE holdings;
+        ALTER TABLE holdings_new RENAME TO holdings;
+      `);
+    })();
+    console.log('Added account_id column to holdings table');
+  }
+
+  const transactionColumns = database
+    .prepare("PRAGMA table_info(transactions)")
+    .all() as Array<{ name: string }>;
+
+  if (!transactionColumns.some((c) => c.name === 'account_id')) {
+    database.transaction(() => {
+      database.exec(`
+        CREATE TABLE transactions_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL DEFAULT ${DEFAULT_ACCOUNT_ID} REFERENCES accounts(id),
+          date TEXT NOT NULL,
+          symbol TEXT NOT NULL,
+          sedol TEXT,
+          fund_name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          description TEXT,
+          units REAL,
+          price REAL,
+          total REAL NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(account_id, date, symbol, type, total, units)
+        );
+        INSERT INTO transactions_new
+          (id, account_id, date, symbol, sedol, fund_name, type, description, units, price, total, created_at)
+        SELECT
+          id, ${DEFAULT_ACCOUNT_ID}, date, symbol, sedol, fund_name, type, description, units, price, total, created_at
+        FROM transactions;
+        DROP TABLE transactions;
+        ALTER TABLE transactions_new RENAME TO transactions;
+        CREATE INDEX idx_transactions_symbol ON transactions(symbol);
+        CREATE INDEX idx_transactions_date ON transactions(date);
+        CREATE INDEX idx_transactions_type ON transactions(type);
+      `);
+    })();
+    console.log('Added account_id column to transactions table');
+  }
+
+  // The UNIQUE constraint treats NULL units as distinct, so dividends, fees
+  // and other rows without units were imported again with every overlapping
+  // export. Remove those duplicates, then dedupe on COALESCE(units, 0).
+  const hasDedupeIndex = database
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'index' AND name = 'idx_transactions_dedupe'")
+    .get();
+
+  if (!hasDedupeIndex) {
+    database.transaction(() => {
+      const { changes } = database.prepare(`
+        DELETE FROM transactions WHERE id NOT IN (
+          SELECT MIN(id) FROM transactions
+          GROUP BY account_id, date, symbol, type, total, COALESCE(units, 0)
+        )
+      `).run();
+      database.exec(`
+        CREATE UNIQUE INDEX idx_transactions_dedupe
+          ON transactions(account_id, date, symbol, type, total, COALESCE(units, 0))
+      `);
+      if (changes > 0) {
+        console.log(`Removed ${changes} duplicate transactions`);
+      }
+    })();
+  }
+
+  // Transaction history exports are recorded as imports, and each transaction
+  // with the import that added it, so an import can be rolled back.
+  // Transactions imported before this belong to no import.
+  const importColumns = database
+    .prepare("PRAGMA table_info(imports)")
+    .all() as Array<{ name: string }>;
+
+  if (!importColumns.some((c) => c.name === 'type')) {
+    database.exec("ALTER TABLE imports ADD COLUMN type TEXT NOT NULL DEFAULT 'holdings'");
+    console.log('Added type column to imports table');
+  }
+
+  // Read again, as adding account_id may have rebuilt the table
+  const currentTransactionColumns = database
+    .prepare("PRAGMA table_info(transactions)")
+    .all() as Array<{ name: string }>;
+
+  if (!currentTransactionColumns.some((c) => c.name === 'import_id')) {
+    database.exec('ALTER TABLE transactions ADD COLUMN import_id INTEGER REFERENCES imports(id)');
+    console.log('Added import_id column to transactions table');
+  }
+
+  database.exec('CREATE INDEX IF NOT EXISTS idx_transactions_import ON transactions(import_id)');
+
+  // Holdings imported before snapshots existed become each account's first snapshot
+  const { count: importCount } = database
+    .prepare('SELECT COUNT(*) AS count FROM imports')
+    .get() as { count: number };
+
+  if (importCount === 0) {
+    const accountIds = database
+      .prepare('SELECT DISTINCT account_id FROM holdings')
+      .all() as Array<{ account_id: number }>;
+
+    database.transaction(() => {
+      for (const { account_id } of accountIds) {
+        const result = database.prepare(`
+          INSERT INTO imports (account_id, filename, imported_at)
+          SELECT ?, NULL, MAX(updated_at) FROM holdings WHERE account_id = ?
+        `).run(account_id, account_id);
+        database.prepare(`
+          INSERT INTO import_holdings
+            (import_id, symbol, sedol, isin, name, quantity, book_cost, current_price, market_value)
+          SELECT ?, symbol, sedol, isin, name, quantity, book_cost, current_price, market_value
+          FROM holdings WHERE account_id = ?
+        `).run(result.lastInsertRowid, account_id);
+      }
+    })();
+
+    if (accountIds.length > 0) {
+      console.log(`Created initial import snapshots for ${accountIds.length} accounts`);
+    }
+  }
+
+  // Cached prices record where they came from. Rows cached before this have
+  // no source.
+  const priceCacheColumns = database
+    .prepare("PRAGMA table_info(price_cache)")
+    .all() as Array<{ name: string }>;
+  const priceCacheColumnNames = priceCacheColumns.map((c) => c.name);
+
+  if (!priceCacheColumnNames.includes('source')) {
+    database.exec(`
+      ALTER TABLE price_cache ADD COLUMN source TEXT;
+      ALTER TABLE price_cache ADD COLUMN currency TEXT DEFAULT 'GBP';
+      ALTER TABLE price_cache ADD COLUMN fetched_at TEXT;
+    `);
+    console.log('Added source, currency and fetched_at columns to price_cache table');
+  }
+
   // Check if fund_holdings table exists, if not create it
   const tables = database
     .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='fund_holdings'")
@@ -59,15 +241,84 @@ function runMigrations(database: Database.Database) {
     `);
     console.log('Created fund_holdings table');
   }
+
+  // Where each underlying holding is listed and what it's priced in, for
+  // currency exposure. Holdings cached before this have neither.
+  const fundHoldingsColumns = database
+    .prepare("PRAGMA table_info(fund_holdings)")
+    .all() as Array<{ name: string }>;
+
+  if (!fundHoldingsColumns.some((c) => c.name === 'country')) {
+    database.exec(`
+      ALTER TABLE fund_holdings ADD COLUMN country TEXT;
+      ALTER TABLE fund_holdings ADD COLUMN currency TEXT;
+    `);
+    console.log('Added country and currency columns to fund_holdings table');
+  }
+
+  // Sector of each underlying holding, for sector breakdowns
+  if (!fundHoldingsColumns.some((c) => c.name === 'sector')) {
+    database.exec(`
+      ALTER TABLE fund_holdings ADD COLUMN sector TEXT;
+    `);
+    console.log('Added sector column to fund_holdings table');
+  }
+
+  // Sector and country kept per security, so details from one provider fill
+  // in for holdings from providers that don't give them
+  const securitiesColumns = database
+    .prepare("PRAGMA table_info(securities)")
+    .all() as Array<{ name: string }>;
+
+  if (!securitiesColumns.some((c) => c.name === 'sector')) {
+    database.exec(`
+      ALTER TABLE securities ADD COLUMN sector TEXT;
+      ALTER TABLE securities ADD COLUMN country TEXT;
+    `);
+    if (fundHoldingsColumns.some((c) => c.name === 'security_id')) {
+      database.exec(`
+        UPDATE securities SET country = (
+          SELECT country FROM fund_holdings
+          WHERE security_id = securities.id AND country IS NOT NULL
+          LIMIT 1
+        );
+      `);
+    }
+    console.log('Added sector and country columns to securities table');
+  }
+
+  // Link each underlying holding to the security master so the same security
+  // is recognised across funds and providers
+  if (!fundHoldingsColumns.some((c) => c.name === 'security_id')) {
+    database.exec(`
+      ALTER TABLE fund_holdings ADD COLUMN security_id INTEGER REFERENCES securities(id);
+      CREATE INDEX idx_fund_holdings_security ON fund_holdings(security_id);
+    `);
+    console.log('Added security_id column to fund_holdings table');
+    const linked = linkFundHoldingsToSecurities();
+    console.log(`Linked ${linked} fund holdings to securities`);
+  }
 }
 
 function initializeSchema() {
   const database = db!;
 
   database.exec(`
+    -- Accounts (tax wrappers) that holdings and transactions belong to
+    CREATE TABLE IF NOT EXISTS accounts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      type TEXT NOT NULL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    INSERT OR IGNORE INTO accounts (id, name, type)
+    VALUES (${DEFAULT_ACCOUNT_ID}, 'Trading Account', 'Trading');
+
     -- Current holdings from statement
     CREATE TABLE IF NOT EXISTS holdings (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
+      account_id INTEGER NOT NULL DEFAULT ${DEFAULT_ACCOUNT_ID} REFERENCES accounts(id),
       symbol TEXT NOT NULL,
       sedol TEXT,
       isin TEXT,
@@ -78,7 +329,34 @@ function initializeSchema() {
       current_price REAL,
       market_value REAL,
       updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      UNIQUE(symbol)
+      UNIQUE(account_id, symbol)
+    );
+
+    -- Holdings statement and transaction history imports. The holdings table
+    -- mirrors each account's latest holdings import.
+    CREATE TABLE IF NOT EXISTS imports (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      account_id INTEGER NOT NULL REFERENCES accounts(id),
+      type TEXT NOT NULL DEFAULT 'holdings',
+      filename TEXT,
+      imported_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_imports_account ON imports(account_id);
+
+    -- Holdings as they were in each import
+    CREATE TABLE IF NOT EXISTS import_holdings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      import_id INTEGER NOT NULL REFERENCES imports(id),
+      symbol TEXT NOT NULL,
+      sedol TEXT,
+      isin TEXT,
+      name TEXT NOT NULL,
+      quantity REAL NOT NULL,
+      book_cost REAL NOT NULL,
+      current_price REAL,
+      market_value REAL,
+      UNIQUE(import_id, symbol)
     );
 
     -- Cached historical price data
@@ -87,14 +365,50 @@ function initializeSchema() {
       symbol TEXT NOT NULL,
       date TEXT NOT NULL,
       price REAL NOT NULL,
+      source TEXT,
+      currency TEXT DEFAULT 'GBP',
+      fetched_at TEXT,
       UNIQUE(symbol, date)
     );
 
     CREATE INDEX IF NOT EXISTS idx_price_cache_symbol_date ON price_cache(symbol, date);
 
+    -- Cached daily exchange rates: one from_currency buys rate to_currency
+    CREATE TABLE IF NOT EXISTS fx_rates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      from_currency TEXT NOT NULL,
+      to_currency TEXT NOT NULL,
+      date TEXT NOT NULL,
+      rate REAL NOT NULL,
+      source TEXT,
+      fetched_at TEXT,
+      UNIQUE(from_currency, to_currency, date)
+    );
+
+    -- User settings
+    CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+
+    -- Price source chosen by hand for a fund, overriding detection
+    CREATE TABLE IF NOT EXISTS price_source_pins (
+      symbol TEXT PRIMARY KEY,
+      provider TEXT NOT NULL,
+      pinned_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Benchmark each fund is compared against (the portfolio's is a setting)
+    CREATE TABLE IF NOT EXISTS fund_benchmarks (
+      fund_symbol TEXT PRIMARY KEY,
+      benchmark_symbol TEXT NOT NULL,
+      set_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
     -- Transactions from CSV imports
     CREATE TABLE IF NOT EXISTS transactions (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
+      account_id INTEGER NOT NULL DEFAULT ${DEFAULT_ACCOUNT_ID} REFERENCES accounts(id),
       date TEXT NOT NULL,
       symbol TEXT NOT NULL,
       sedol TEXT,
@@ -104,14 +418,32 @@ function initializeSchema() {
       units REAL,
       price REAL,
       total REAL NOT NULL,
+      import_id INTEGER REFERENCES imports(id),
       created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      UNIQUE(date, symbol, type, total, units)
+      UNIQUE(account_id, date, symbol, type, total, units)
     );
 
     CREATE INDEX IF NOT EXISTS idx_transactions_symbol ON transactions(symbol);
     CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
     CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(type);
 
+    -- Background jobs (price and fund holdings refreshes)
+    CREATE TABLE IF NOT EXISTS jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 5,
+      run_after TEXT DEFAULT CURRENT_TIMESTAMP,
+      last_error TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      started_at TEXT,
+      completed_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_jobs_status_run_after ON jobs(status, run_after);
+
     -- Fund metadata
     CREATE TABLE IF NOT EXISTS funds (
       symbol TEXT PRIMARY KEY,
@@ -120,11 +452,95 @@ function initializeSchema() {
       yahoo_symbol TEXT,
       currency TEXT DEFAULT 'GBP'
     );
+
+    -- Security master: one row per underlying security, however providers identify it
+    CREATE TABLE IF NOT EXISTS securities (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- ISINs, CUSIPs, SEDOLs, tickers and normalised names a security is known by
+    CREATE TABLE IF NOT EXISTS security_identifiers (
+      security_id INTEGER NOT NULL REFERENCES securities(id),
+      id_type TEXT NOT NULL,
+      value TEXT NOT NULL,
+      PRIMARY KEY (id_type, value)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_security_identifiers_security ON security_identifiers(security_id);
   `);
 }
 
+// Accounts
+export const DEFAULT_ACCOUNT_ID = 1;
+
+export interface AccountRow {
+  id: number;
+  name: string;
+  type: AccountType;
+  created_at: string;
+}
+
+export function getAccounts(): AccountRow[] {
+  const database = getDb();
+  return database.prepare('SELECT * FROM accounts ORDER BY id').all() as AccountRow[];
+}
+
+export function getAccount(id: number): AccountRow | undefined {
+  const database = getDb();
+  return database.prepare('SELECT * FROM accounts WHERE id = ?').get(id) as AccountRow | undefined;
+}
+
+export function getAccountByName(name: string): AccountRow | undefined {
+  const database = getDb();
+  return database.prepare('SELECT * FROM accounts WHERE name = ?').get(name) as AccountRow | undefined;
+}
+
+export function createAccount(account: { name: string; type: AccountType }): AccountRow {
+  const database = getDb();
+  const result = database.prepare(`
+    INSERT INTO accounts (name, type) VALUES (@name, @type)
+  `).run(account);
+  return getAccount(Number(result.lastInsertRowid))!;
+}
+
 // Holdings
+export interface HoldingRecord {
+  id: number;
+  account_id: number | null; // null when combined across accounts
+  symbol: string;
+  sedol: string;
+  isin: string | null;
+  morningstar_id: string | null;
+  name: string;
+  quantity: number;
+  book_cost: number;
+  current_price: number;
+  market_value: number;
+  updated_at: string;
+}
+
+// Holdings of the same fund in different accounts, combined into one row
+const COMBINED_HOLDINGS_SELECT = `
+  SELECT
+    MIN(id) AS id,
+    NULL AS account_id,
+    symbol,
+    MAX(sedol) AS sedol,
+    MAX(isin) AS isin,
+    MAX(morningstar_id) AS morningstar_id,
+    MAX(name) AS name,
+    SUM(quantity) AS quantity,
+    SUM(book_cost) AS book_cost,
+    CASE WHEN SUM(quantity) > 0 THEN SUM(market_value) / SUM(quantity) ELSE MAX(current_price) END AS current_price,
+    SUM(market_value) AS market_value,
+    MAX(updated_at) AS updated_at
+  FROM holdings
+`;
+
 export function upsertHolding(holding: {
+  accountId: number;
   symbol: string;
   sedol: string;
   isin?: string | null;
@@ -137,9 +553,9 @@ export function upsertHolding(holding: {
 }) {
   const database = getDb();
   const stmt = database.prepare(`
-    INSERT INTO holdings (symbol, sedol, isin, morningstar_id, name, quantity, book_cost, current_price, market_value, updated_at)
-    VALUES (@symbol, @sedol, @isin, @morningstarId, @name, @quantity, @bookCost, @currentPrice, @marketValue, datetime('now'))
-    ON CONFLICT(symbol) DO UPDATE SET
+    INSERT INTO holdings (account_id, symbol, sedol, isin, morningstar_id, name, quantity, book_cost, current_price, market_value, updated_at)
+    VALUES (@accountId, @symbol, @sedol, @isin, @morningstarId, @name, @quantity, @bookCost, @currentPrice, @marketValue, datetime('now'))
+    ON CONFLICT(account_id, symbol) DO UPDATE SET
       sedol = @sedol,
       isin = COALESCE(@isin, isin),
       morningstar_id = COALESCE(@morningstarId, morningstar_id),
@@ -153,55 +569,236 @@ export function upsertHolding(holding: {
   return stmt.run(holding);
 }
 
-export function getAllHoldings(): Array<{
+/**
+ * Holdings in one account, or combined across all accounts (one row per
+ * fund) when no account is given
+ */
+export function getAllHoldings(accountId?: number): HoldingRecord[] {
+  const database = getDb();
+  if (accountId !== undefined) {
+    return database
+      .prepare('SELECT * FROM holdings WHERE account_id = ? ORDER BY market_value DESC')
+      .all(accountId) as HoldingRecord[];
+  }
+  return database
+    .prepare(`${COMBINED_HOLDINGS_SELECT} GROUP BY symbol ORDER BY market_value DESC`)
+    .all() as HoldingRecord[];
+}
+
+/**
+ * Holdings with one row per account and fund, optionally for a single account
+ */
+export function getHoldingPositions(accountId?: number): HoldingRecord[] {
+  const database = getDb();
+  if (accountId !== undefined) {
+    return getAllHoldings(accountId);
+  }
+  return database
+    .prepare('SELECT * FROM holdings ORDER BY account_id, market_value DESC')
+    .all() as HoldingRecord[];
+}
+
+export function clearHoldings(accountId?: number) {
+  const database = getDb();
+  if (accountId !== undefined) {
+    database.prepare('DELETE FROM holdings WHERE account_id = ?').run(accountId);
+    return;
+  }
+  database.prepare('DELETE FROM holdings').run();
+}
+
+// Holdings imports (snapshots)
+export interface ImportHoldingRow {
   id: number;
+  import_id: number;
   symbol: string;
-  sedol: string;
+  sedol: string | null;
   isin: string | null;
-  morningstar_id: string | null;
   name: string;
   quantity: number;
   book_cost: number;
-  current_price: number;
-  market_value: number;
-  updated_at: string;
-}> {
-  const database = getDb();
-  return database.prepare('SELECT * FROM holdings ORDER BY market_value DESC').all() as Array<{
-    id: number;
+  current_price: number | null;
+  market_value: number | null;
+}
+
+const IMPORT_SNAPSHOT_SELECT = `
+  SELECT
+    i.id AS id,
+    i.account_id AS accountId,
+    a.name AS accountName,
+    i.type AS type,
+    i.filename AS filename,
+    i.imported_at AS importedAt,
+    COUNT(ih.id) AS holdingsCount,
+    (SELECT COUNT(*) FROM transactions t WHERE t.import_id = i.id) AS transactionsCount,
+    COALESCE(SUM(ih.market_value), 0) AS totalValue,
+    COALESCE(SUM(ih.book_cost), 0) AS totalInvested
+  FROM imports i
+  JOIN accounts a ON a.id = i.account_id
+  LEFT JOIN import_holdings ih ON ih.import_id = i.id
+`;
+
+/**
+ * Store a holdings statement as a new snapshot and make it the account's
+ * current holdings. Funds missing from the statement are removed from the
+ * account; Morningstar IDs already found for the others are kept.
+ *
+ * @returns The new import's ID
+ */
+export function saveHoldingsImport(
+  accountId: number,
+  holdings: Array<{
     symbol: string;
     sedol: string;
-    isin: string | null;
-    morningstar_id: string | null;
+    isin?: string | null;
     name: string;
     quantity: number;
-    book_cost: number;
-    current_price: number;
-    market_value: number;
-    updated_at: string;
-  }>;
+    bookCost: number;
+    currentPrice: number;
+    marketValue: number;
+  }>,
+  filename: string | null = null
+): number {
+  const database = getDb();
+  const insertImport = database.prepare(`
+    INSERT INTO imports (account_id, filename, imported_at) VALUES (?, ?, datetime('now'))
+  `);
+  const insertHolding = database.prepare(`
+    INSERT INTO import_holdings
+      (import_id, symbol, sedol, isin, name, quantity, book_cost, current_price, market_value)
+    VALUES
+      (@importId, @symbol, @sedol, @isin, @name, @quantity, @bookCost, @currentPrice, @marketValue)
+  `);
+
+  const save = database.transaction(() => {
+    const importId = Number(insertImport.run(accountId, filename).lastInsertRowid);
+    for (const holding of holdings) {
+      insertHolding.run({ ...holding, isin: holding.isin ?? null, importId });
+    }
+    applyHoldingsImport(accountId, importId);
+    return importId;
+  });
+
+  return save();
 }
 
-export function clearHoldings() {
+/**
+ * Replace an account's current holdings with those from one of its imports
+ */
+export function applyHoldingsImport(accountId: number, importId: number) {
   const database = getDb();
-  database.prepare('DELETE FROM holdings').run();
+
+  database.prepare(`
+    DELETE FROM holdings
+    WHERE account_id = @accountId
+      AND symbol NOT IN (SELECT symbol FROM import_holdings WHERE import_id = @importId)
+  `).run({ accountId, importId });
+
+  database.prepare(`
+    INSERT INTO holdings (account_id, symbol, sedol, isin, name, quantity, book_cost, current_price, market_value, updated_at)
+    SELECT @accountId, symbol, sedol, isin, name, quantity, book_cost, current_price, market_value, datetime('now')
+    FROM import_holdings WHERE import_id = @importId
+    ON CONFLICT(account_id, symbol) DO UPDATE SET
+      sedol = excluded.sedol,
+      isin = COALESCE(excluded.isin, isin),
+      name = excluded.name,
+      quantity = excluded.quantity,
+      book_cost = excluded.book_cost,
+      current_price = excluded.current_price,
+      market_value = excluded.market_value,
+      updated_at = excluded.updated_at
+  `).run({ accountId, importId });
 }
 
-// Price cache
-export function cachePrice(symbol: string, date: string, price: number) {
+export function getImports(accountId?: number): ImportSnapshot[] {
   const database = getDb();
-  const stmt = database.prepare(`
-    INSERT OR REPLACE INTO price_cache (symbol, date, price)
-    VALUES (?, ?, ?)
-  `);
-  return stmt.run(symbol, date, price);
+  if (accountId !== undefined) {
+    return database
+      .prepare(`${IMPORT_SNAPSHOT_SELECT} WHERE i.account_id = ? GROUP BY i.id ORDER BY i.id DESC`)
+      .all(accountId) as ImportSnapshot[];
+  }
+  return database
+    .prepare(`${IMPORT_SNAPSHOT_SELECT} GROUP BY i.id ORDER BY i.id DESC`)
+    .all() as ImportSnapshot[];
+}
+
+export function getImport(id: number): ImportSnapshot | undefined {
+  const database = getDb();
+  return database
+    .prepare(`${IMPORT_SNAPSHOT_SELECT} WHERE i.id = ? GROUP BY i.id`)
+    .get(id) as ImportSnapshot | undefined;
+}
+
+// The holdings import before this one in the same account
+export function getPreviousImport(id: number): ImportSnapshot | undefined {
+  const database = getDb();
+  const previous = database.prepare(`
+    SELECT id FROM imports
+    WHERE account_id = (SELECT account_id FROM imports WHERE id = ?) AND id < ? AND type = 'holdings'
+    ORDER BY id DESC LIMIT 1
+  `).get(id, id) as { id: number } | undefined;
+  return previous ? getImport(previous.id) : undefined;
 }
 
-export function cachePricesBatch(prices: Array<{ symbol: string; date: string; price: number }>) {
+export function getImportHoldings(importId: number): ImportHoldingRow[] {
+  const database = getDb();
+  return database
+    .prepare('SELECT * FROM import_holdings WHERE import_id = ? ORDER BY market_value DESC')
+    .all(importId) as ImportHoldingRow[];
+}
+
+/**
+ * Undo an account's latest import and delete it. A holdings import restores
+ * the holdings from the holdings import before it (or removes them if it was
+ * the first); a transactions import deletes the transactions it added.
+ *
+ * @returns The holdings import that is now current, or null if none is left
+ */
+export function rollbackImport(snapshot: ImportSnapshot): ImportSnapshot | null {
+  const database = getDb();
+  const id = snapshot.id;
+  const previous = getPreviousImport(id);
+
+  database.transaction(() => {
+    if (snapshot.type === 'holdings') {
+      if (previous) {
+        applyHoldingsImport(snapshot.accountId, previous.id);
+      } else {
+        clearHoldings(snapshot.accountId);
+      }
+    }
+    database.prepare('DELETE FROM transactions WHERE import_id = ?').run(id);
+    database.prepare('DELETE FROM import_holdings WHERE import_id = ?').run(id);
+    database.prepare('DELETE FROM imports WHERE id = ?').run(id);
+  })();
+
+  return previous ?? null;
+}
+
+export function clearImports() {
+  const database = getDb();
+  database.prepare('DELETE FROM import_holdings').run();
+  database.prepare('DELETE FROM imports').run();
+}
+
+// Price cache
+export interface CachedPrice {
+  symbol: string;
+  date: string;
+  price: number;
+  source: string | null;
+  currency: string;
+}
+
+export function cachePrice(price: CachedPrice) {
+  cachePricesBatch([price]);
+}
+
+export function cachePricesBatch(prices: CachedPrice[]) {
   const database = getDb();
   const stmt = database.prepare(`
-    INSERT OR REPLACE INTO price_cache (symbol, date, price)
-    VALUES (@symbol, @date, @price)
+    INSERT OR REPLACE INTO price_cache (symbol, date, price, source, currency, fetched_at)
+    VALUES (@symbol, @date, @price, @source, @currency, datetime('now'))
   `);
 
   const insertMany = database.transaction((data: typeof prices) => {
@@ -220,6 +817,163 @@ export function getCachedPrices(symbol: string): Array<{ date: string; price: nu
   `).all(symbol) as Array<{ date: string; price: number }>;
 }
 
+// Cached prices with the source of each one
+export function getCachedPriceHistory(symbol: string): SourcedPricePoint[] {
+  const database = getDb();
+  return database.prepare(`
+    SELECT date, price, source, COALESCE(currency, 'GBP') AS currency
+    FROM price_cache WHERE symbol = ? ORDER BY date ASC
+  `).all(symbol) as SourcedPricePoint[];
+}
+
+// Which sources a fund's cached prices came from, and when
+export function getPriceSourceSummaries(symbol: string): PriceSourceSummary[] {
+  const database = getDb();
+  return database.prepare(`
+    SELECT
+      source,
+      currency,
+      COUNT(*) AS count,
+      MIN(date) AS firstDate,
+      MAX(date) AS lastDate,
+      MAX(fetched_at) AS lastFetched
+    FROM price_cache
+    WHERE symbol = ?
+    GROUP BY source, currency
+    ORDER BY lastDate DESC
+  `).all(symbol) as PriceSourceSummary[];
+}
+
+export function clearCachedPrices(symbol: string) {
+  const database = getDb();
+  database.prepare('DELETE FROM price_cache WHERE symbol = ?').run(symbol);
+}
+
+// Exchange rates
+export function cacheFxRatesBatch(
+  from: string,
+  to: string,
+  rates: FxRatePoint[],
+  source: string
+) {
+  const database = getDb();
+  const stmt = database.prepare(`
+    INSERT OR REPLACE INTO fx_rates (from_currency, to_currency, date, rate, source, fetched_at)
+    VALUES (@from, @to, @date, @rate, @source, datetime('now'))
+  `);
+
+  const insertMany = database.transaction((data: typeof rates) => {
+    for (const r of data) {
+      stmt.run({ from, to, date: r.date, rate: r.rate, source });
+    }
+  });
+
+  insertMany(rates);
+}
+
+export function getFxRates(from: string, to: string): FxRatePoint[] {
+  const database = getDb();
+  return database.prepare(`
+    SELECT date, rate FROM fx_rates
+    WHERE from_currency = ? AND to_currency = ?
+    ORDER BY date ASC
+  `).all(from, to) as FxRatePoint[];
+}
+
+export function getLatestFxDate(from: string, to: string): string | null {
+  const database = getDb();
+  const result = database.prepare(`
+    SELECT MAX(date) as latest FROM fx_rates WHERE from_currency = ? AND to_currency = ?
+  `).get(from, to) as { latest: string | null };
+  return result?.latest || null;
+}
+
+// Settings
+export function getSetting(key: string): string | null {
+  const database = getDb();
+  const result = database.prepare('SELECT value FROM settings WHERE key = ?').get(key) as
+    | { value: string }
+    | undefined;
+  return result?.value ?? null;
+}
+
+export function setSetting(key: string, value: string) {
+  const database = getDb();
+  database.prepare(`
+    INSERT INTO settings (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value
+  `).run(key, value);
+}
+
+export function deleteSetting(key: string) {
+  const database = getDb();
+  database.prepare('DELETE FROM settings WHERE key = ?').run(key);
+}
+
+export function getSettings(): AppSettings {
+  return {
+    baseCurrency: getSetting('base_currency') ?? 'GBP',
+    benchmark: getSetting('benchmark'),
+    riskFreeRate: Number(getSetting('risk_free_rate') ?? DEFAULT_RISK_FREE_RATE),
+  };
+}
+
+// Benchmarks
+export function getFundBenchmark(symbol: string): string | null {
+  const database = getDb();
+  const result = database.prepare(`
+    SELECT benchmark_symbol FROM fund_benchmarks WHERE fund_symbol = ?
+  `).get(symbol) as { benchmark_symbol: string } | undefined;
+  return result?.benchmark_symbol ?? null;
+}
+
+export function setFundBenchmark(symbol: string, benchmark: string) {
+  const database = getDb();
+  database.prepare(`
+    INSERT INTO fund_benchmarks (fund_symbol, benchmark_symbol, set_at) VALUES (?, ?, datetime('now'))
+    ON CONFLICT(fund_symbol) DO UPDATE SET benchmark_symbol = excluded.benchmark_symbol, set_at = excluded.set_at
+  `).run(symbol, benchmark);
+}
+
+export function clearFundBenchmark(symbol: string) {
+  const database = getDb();
+  database.prepare('DELETE FROM fund_benchmarks WHERE fund_symbol = ?').run(symbol);
+}
+
+// Every benchmark in use, by the portfolio or any fund
+export function getBenchmarkSymbols(): string[] {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT DISTINCT benchmark_symbol FROM fund_benchmarks
+  `).all() as Array<{ benchmark_symbol: string }>;
+  const symbols = new Set(rows.map((r) => r.benchmark_symbol));
+  const portfolioBenchmark = getSetting('benchmark');
+  if (portfolioBenchmark) symbols.add(portfolioBenchmark);
+  return Array.from(symbols);
+}
+
+// Price source pins
+export function getPinnedPriceSource(symbol: string): string | null {
+  const database = getDb();
+  const result = database.prepare(`
+    SELECT provider FROM price_source_pins WHERE symbol = ?
+  `).get(symbol) as { provider: string } | undefined;
+  return result?.provider ?? null;
+}
+
+export function pinPriceSource(symbol: string, provider: string) {
+  const database = getDb();
+  database.prepare(`
+    INSERT INTO price_source_pins (symbol, provider, pinned_at) VALUES (?, ?, datetime('now'))
+    ON CONFLICT(symbol) DO UPDATE SET provider = excluded.provider, pinned_at = excluded.pinned_at
+  `).run(symbol, provider);
+}
+
+export function unpinPriceSource(symbol: string) {
+  const database = getDb();
+  database.prepare('DELETE FROM price_source_pins WHERE symbol = ?').run(symbol);
+}
+
 export function getLatestCachedDate(symbol: string): string | null {
   const database = getDb();
   const result = database.prepare(`
@@ -233,6 +987,11 @@ export function clearPriceCache() {
   database.prepare('DELETE FROM price_cache').run();
 }
 
+export function clearFxRates() {
+  const database = getDb();
+  database.prepare('DELETE FROM fx_rates').run();
+}
+
 export function getEarliestPriceDate(): string | null {
   const database = getDb();
   const result = database.prepare(`
@@ -244,38 +1003,43 @@ export function getEarliestPriceDate(): string | null {
 // Transaction functions
 export interface Transaction {
   id?: number;
+  account_id: number;
   date: string;
   symbol: string;
-  sedol?: string;
+  sedol?: string | null;
   fund_name: string;
   type: string;
-  description?: string;
-  units?: number;
-  price?: number;
+  description?: string | null;
+  units?: number | null;
+  price?: number | null;
   total: number;
+  import_id?: number | null;
   created_at?: string;
 }
 
 export function insertTransaction(tx: Omit<Transaction, 'id' | 'created_at'>) {
   const database = getDb();
   const stmt = database.prepare(`
-    INSERT OR IGNORE INTO transactions (date, symbol, sedol, fund_name, type, description, units, price, total)
-    VALUES (@date, @symbol, @sedol, @fund_name, @type, @description, @units, @price, @total)
+    INSERT OR IGNORE INTO transactions (account_id, date, symbol, sedol, fund_name, type, description, units, price, total)
+    VALUES (@account_id, @date, @symbol, @sedol, @fund_name, @type, @description, @units, @price, @total)
   `);
   return stmt.run(tx);
 }
 
-export function insertTransactionsBatch(transactions: Array<Omit<Transaction, 'id' | 'created_at'>>) {
+export function insertTransactionsBatch(
+  transactions: Array<Omit<Transaction, 'id' | 'created_at' | 'import_id'>>,
+  importId: number | null = null
+) {
   const database = getDb();
   const stmt = database.prepare(`
-    INSERT OR IGNORE INTO transactions (date, symbol, sedol, fund_name, type, description, units, price, total)
-    VALUES (@date, @symbol, @sedol, @fund_name, @type, @description, @units, @price, @total)
+    INSERT OR IGNORE INTO transactions (account_id, date, symbol, sedol, fund_name, type, description, units, price, total, import_id)
+    VALUES (@account_id, @date, @symbol, @sedol, @fund_name, @type, @description, @units, @price, @total, @import_id)
   `);
 
   const insertMany = database.transaction((data: typeof transactions) => {
     let inserted = 0;
     for (const tx of data) {
-      const result = stmt.run(tx);
+      const result = stmt.run({ ...tx, import_id: importId });
       if (result.changes > 0) inserted++;
     }
     return inserted;
@@ -284,20 +1048,96 @@ export function insertTransactionsBatch(transactions: Array<Omit<Transaction, 'i
   return insertMany(transactions);
 }
 
-export function getAllTransactions(): Transaction[] {
+/**
+ * Store a transaction history export as an import, recording which
+ * transactions it added so it can be rolled back. Transactions already
+ * imported are skipped, and an export with nothing new isn't recorded.
+ *
+ * @returns The new import's ID (null if nothing was new) and how many
+ * transactions it added
+ */
+export function saveTransactionsImport(
+  accountId: number,
+  transactions: Array<Omit<Transaction, 'id' | 'created_at' | 'import_id'>>,
+  filename: string | null = null
+): { importId: number | null; inserted: number } {
   const database = getDb();
+  const insertImport = database.prepare(`
+    INSERT INTO imports (account_id, type, filename, imported_at) VALUES (?, 'transactions', ?, datetime('now'))
+  `);
+
+  const save = database.transaction(() => {
+    const importId = Number(insertImport.run(accountId, filename).lastInsertRowid);
+    const inserted = insertTransactionsBatch(transactions, importId);
+    if (inserted === 0) {
+      database.prepare('DELETE FROM imports WHERE id = ?').run(importId);
+      return { importId: null, inserted };
+    }
+    return { importId, inserted };
+  });
+
+  return save();
+}
+
+/**
+ * Count how many of these transactions insertTransactionsBatch would add,
+ * without writing anything. Mirrors the unique index on transactions, which
+ * treats missing units as 0.
+ */
+export function countNewTransactions(transactions: Array<Omit<Transaction, 'id' | 'created_at' | 'import_id'>>) {
+  const database = getDb();
+  const exists = database.prepare(`
+    SELECT 1 FROM transactions
+    WHERE account_id = @account_id AND date = @date AND symbol = @symbol
+      AND type = @type AND total = @total AND COALESCE(units, 0) = COALESCE(@units, 0)
+  `);
+
+  const seen = new Set<string>();
+  let count = 0;
+  for (const tx of transactions) {
+    const key = [tx.account_id, tx.date, tx.symbol, tx.type, tx.total, tx.units ?? 0].join('|');
+    if (seen.has(key) || exists.get(tx)) continue;
+    seen.add(key);
+    count++;
+  }
+  return count;
+}
+
+export function getAllTransactions(accountId?: number): Transaction[] {
+  const database = getDb();
+  if (accountId !== undefined) {
+    return database.prepare(`
+      SELECT * FROM transactions WHERE account_id = ? ORDER BY date DESC, id DESC
+    `).all(accountId) as Transaction[];
+  }
   return database.prepare(`
     SELECT * FROM transactions ORDER BY date DESC, id DESC
   `).all() as Transaction[];
 }
 
-export function getTransactionsBySymbol(symbol: string): Transaction[] {
+export function getTransactionsBySymbol(symbol: string, accountId?: number): Transaction[] {
   const database = getDb();
+  if (accountId !== undefined) {
+    return database.prepare(`
+      SELECT * FROM transactions WHERE symbol = ? AND account_id = ? ORDER BY date DESC, id DESC
+    `).all(symbol, accountId) as Transaction[];
+  }
   return database.prepare(`
     SELECT * FROM transactions WHERE symbol = ? ORDER BY date DESC, id DESC
   `).all(symbol) as Transaction[];
 }
 
+// SEDOL and name of a fund as last traded, for funds no longer held
+export function getTransactionSecurity(symbol: string): { sedol: string | null; fund_name: string | null } | undefined {
+  const database = getDb();
+  return database.prepare(`
+    SELECT sedol, fund_name FROM transactions
+    WHERE symbol = ? AND units IS NOT NULL
+    ORDER BY sedol IS NULL, date DESC, id DESC
+    LIMIT 1
+  `).get(symbol) as { sedol: string | null; fund_name: string | null } | undefined;
+}
+
 export function getTransactionTypes(): string[] {
   const database = getDb();
   const result = database.prepare(`
@@ -346,34 +1186,17 @@ export function getAllFunds(): Array<{ symbol: string; sedol: string; name: stri
   `).all() as Array<{ symbol: string; sedol: string; name: string; yahoo_symbol: string; currency: string }>;
 }
 
-// Get a single holding by symbol
-export function getHolding(symbol: string): {
-  id: number;
-  symbol: string;
-  sedol: string;
-  isin: string | null;
-  morningstar_id: string | null;
-  name: string;
-  quantity: number;
-  book_cost: number;
-  current_price: number;
-  market_value: number;
-  updated_at: string;
-} | undefined {
+// Get a single holding by symbol, in one account or combined across all of them
+export function getHolding(symbol: string, accountId?: number): HoldingRecord | undefined {
   const database = getDb();
-  return database.prepare('SELECT * FROM holdings WHERE symbol = ?').get(symbol) as {
-    id: number;
-    symbol: string;
-    sedol: string;
-    isin: string | null;
-    morningstar_id: string | null;
-    name: string;
-    quantity: number;
-    book_cost: number;
-    current_price: number;
-    market_value: number;
-    updated_at: string;
-  } | undefined;
+  if (accountId !== undefined) {
+    return database
+      .prepare('SELECT * FROM holdings WHERE symbol = ? AND account_id = ?')
+      .get(symbol, accountId) as HoldingRecord | undefined;
+  }
+  return database
+    .prepare(`${COMBINED_HOLDINGS_SELECT} WHERE symbol = ? GROUP BY symbol`)
+    .get(symbol) as HoldingRecord | undefined;
 }
 
 // Update Morningstar ID for a holding
@@ -397,28 +1220,175 @@ export interface FundHoldingRow {
   weight_percent: number;
   shares_held?: number | null;
   market_value?: number | null;
+  country?: string | null;
+  currency?: string | null;
+  sector?: string | null;
+  security_id?: number | null;
   as_of_date: string;
   fetched_at?: string;
 }
 
+function toFundHolding(row: Omit<FundHoldingRow, 'id' | 'fetched_at'>): FundHolding {
+  return {
+    name: row.holding_name,
+    symbol: row.holding_symbol ?? undefined,
+    cusip: row.cusip ?? undefined,
+    isin: row.isin ?? undefined,
+    weightPercent: row.weight_percent,
+    sector: row.sector ?? undefined,
+    country: row.country ?? undefined,
+  };
+}
+
 export function cacheFundHoldingsBatch(holdings: Array<Omit<FundHoldingRow, 'id' | 'fetched_at'>>) {
   const database = getDb();
   const stmt = database.prepare(`
     INSERT OR REPLACE INTO fund_holdings
-      (fund_symbol, holding_symbol, holding_name, cusip, isin, asset_type, weight_percent, shares_held, market_value, as_of_date)
+      (fund_symbol, holding_symbol, holding_name, cusip, isin, asset_type, weight_percent, shares_held, market_value, country, currency, sector, security_id, as_of_date)
     VALUES
-      (@fund_symbol, @holding_symbol, @holding_name, @cusip, @isin, @asset_type, @weight_percent, @shares_held, @market_value, @as_of_date)
+      (@fund_symbol, @holding_symbol, @holding_name, @cusip, @isin, @asset_type, @weight_percent, @shares_held, @market_value, @country, @currency, @sector, @security_id, @as_of_date)
   `);
 
+  const resolveSecurityId = createSecurityResolver();
+
   const insertMany = database.transaction((data: typeof holdings) => {
     for (const holding of data) {
-      stmt.run(holding);
+      stmt.run({ country: null, currency: null, sector: null, ...holding, security_id: resolveSecurityId(toFundHolding(holding)) });
     }
   });
 
   insertMany(holdings);
 }
 
+// Security master
+/**
+ * Create a resolver that finds the security a holding is, by the first of its
+ * identifiers already known, or adds it as a new security. Identifiers not
+ * seen before are recorded against it so later holdings match. Statements
+ * are prepared once, for resolving many holdings in a loop.
+ *
+ * A ticker or name match is ignored when the security already has a
+ * different ISIN, CUSIP or SEDOL to the holding - e.g. two share classes
+ * with the same company name.
+ */
+export function createSecurityResolver(): (holding: FundHolding) => number {
+  const database = getDb();
+  const findStmt = database.prepare(`
+    SELECT security_id FROM security_identifiers WHERE id_type = ? AND value = ?
+  `);
+  const knownStmt = database.prepare(`
+    SELECT value FROM security_identifiers WHERE security_id = ? AND id_type = ?
+  `);
+  const insertStmt = database.prepare('INSERT INTO securities (name) VALUES (?)');
+  const addStmt = database.prepare(`
+    INSERT OR IGNORE INTO security_identifiers (security_id, id_type, value) VALUES (?, ?, ?)
+  `);
+  const detailsStmt = database.prepare(`
+    UPDATE securities
+    SET sector = COALESCE(sector, @sector), country = COALESCE(country, @country)
+    WHERE id = @id
+  `);
+
+  const resolve = database.transaction((holding: FundHolding) => {
+    const identifiers = getSecurityIdentifiers(holding);
+    const knownValues = (securityId: number) => (type: SecurityIdentifierType) =>
+      (knownStmt.all(securityId, type) as Array<{ value: string }>).map((k) => k.value);
+
+    let securityId: number | undefined;
+    for (const identifier of identifiers) {
+      const row = findStmt.get(identifier.type, identifier.value) as { security_id: number } | undefined;
+      if (!row) continue;
+      if (STRONG_IDENTIFIERS.includes(identifier.type) || !hasConflictingIdentifier(identifiers, knownValues(row.security_id))) {
+        securityId = row.security_id;
+        break;
+      }
+    }
+
+    if (securityId === undefined) {
+      securityId = Number(insertStmt.run(holding.name).lastInsertRowid);
+    }
+
+    // Identifiers already belonging to another security stay with it
+    for (const identifier of identifiers) {
+      addStmt.run(securityId, identifier.type, identifier.value);
+    }
+
+    detailsStmt.run({ id: securityId, sector: holding.sector ?? null, country: holding.country ?? null });
+    return securityId;
+  });
+
+  return (holding) => resolve(holding);
+}
+
+// Fill in a security's sector and country where they aren't known yet
+export function updateSecurityDetails(id: number, details: { sector?: string | null; country?: string | null }) {
+  const database = getDb();
+  database.prepare(`
+    UPDATE securities
+    SET sector = COALESCE(sector, @sector), country = COALESCE(country, @country)
+    WHERE id = @id
+  `).run({ id, sector: details.sector ?? null, country: details.country ?? null });
+}
+
+/**
+ * Securities in a fund's latest holdings with a ticker but no sector or
+ * country yet, to look up elsewhere
+ */
+export function getSecuritiesMissingDetails(fundSymbol: string): Array<{ id: number; ticker: string }> {
+  const database = getDb();
+  return database.prepare(`
+    SELECT DISTINCT s.id AS id, fh.holding_symbol AS ticker
+    FROM fund_holdings fh
+    JOIN securities s ON s.id = fh.security_id
+    WHERE fh.fund_symbol = @fundSymbol
+      AND fh.as_of_date = (SELECT MAX(as_of_date) FROM fund_holdings WHERE fund_symbol = @fundSymbol)
+      AND fh.holding_symbol IS NOT NULL
+      AND (s.sector IS NULL OR s.country IS NULL)
+  `).all({ fundSymbol }) as Array<{ id: number; ticker: string }>;
+}
+
+export function getSecurity(id: number): Security | undefined {
+  const database = getDb();
+  const row = database.prepare('SELECT id, name, sector, country FROM securities WHERE id = ?').get(id) as
+    | { id: number; name: string; sector: string | null; country: string | null }
+    | undefined;
+  if (!row) return undefined;
+
+  const identifiers = database.prepare(`
+    SELECT id_type, value FROM security_identifiers WHERE security_id = ? ORDER BY id_type
+  `).all(id) as Array<{ id_type: SecurityIdentifierType; value: string }>;
+
+  return {
+    id: row.id,
+    name: row.name,
+    sector: row.sector ?? undefined,
+    country: row.country ?? undefined,
+    identifiers: identifiers.map((i) => ({ type: i.id_type, value: i.value })),
+  };
+}
+
+/**
+ * Link fund holdings cached before the security master existed
+ * @returns Number of holdings linked
+ */
+export function linkFundHoldingsToSecurities(): number {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT * FROM fund_holdings WHERE security_id IS NULL
+  `).all() as FundHoldingRow[];
+  const updateStmt = database.prepare('UPDATE fund_holdings SET security_id = ? WHERE id = ?');
+  const resolveSecurityId = createSecurityResolver();
+
+  const linkAll = database.transaction(() => {
+    for (const row of rows) {
+      updateStmt.run(resolveSecurityId(toFundHolding(row)), row.id);
+    }
+  });
+
+  linkAll();
+  return rows.length;
+}
+
 export function getLatestFundHoldings(fundSymbol: string): FundHoldingRow[] {
   const database = getDb();
 
@@ -431,12 +1401,36 @@ export function getLatestFundHoldings(fundSymbol: string): FundHoldingRow[] {
     return [];
   }
 
-  // Get all holdings for that date
+  return getFundHoldingsAt(fundSymbol, latestDateResult.latest_date);
+}
+
+export function getFundHoldingsAt(fundSymbol: string, asOfDate: string): FundHoldingRow[] {
+  const database = getDb();
+  // Sector and country fall back to what's known about the security from
+  // other providers
   return database.prepare(`
-    SELECT * FROM fund_holdings
-    WHERE fund_symbol = ? AND as_of_date = ?
-    ORDER BY weight_percent DESC
-  `).all(fundSymbol, latestDateResult.latest_date) as FundHoldingRow[];
+    SELECT
+      fh.id, fh.fund_symbol, fh.holding_symbol, fh.holding_name, fh.cusip, fh.isin, fh.asset_type,
+      fh.weight_percent, fh.shares_held, fh.market_value, fh.currency, fh.security_id,
+      fh.as_of_date, fh.fetched_at,
+      COALESCE(fh.sector, s.sector) AS sector,
+      COALESCE(fh.country, s.country) AS country
+    FROM fund_holdings fh
+    LEFT JOIN securities s ON s.id = fh.security_id
+    WHERE fh.fund_symbol = ? AND fh.as_of_date = ?
+    ORDER BY fh.weight_percent DESC
+  `).all(fundSymbol, asOfDate) as FundHoldingRow[];
+}
+
+// As-of dates a fund's holdings are cached for, newest first
+export function getFundHoldingsDates(fundSymbol: string): string[] {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT DISTINCT as_of_date FROM fund_holdings
+    WHERE fund_symbol = ?
+    ORDER BY as_of_date DESC
+  `).all(fundSymbol) as Array<{ as_of_date: string }>;
+  return rows.map((r) => r.as_of_date);
 }
 
 export function hasRecentHoldings(fundSymbol: string, maxAgeDays: number = 7): boolean {
@@ -470,3 +1464,183 @@ export function getFundsWithHoldings(): Array<{ fund_symbol: string; as_of_date:
     ORDER BY fund_symbol
   `).all() as Array<{ fund_symbol: string; as_of_date: string; count: number }>;
 }
+
+// Background jobs
+const JOB_SELECT = `
+  SELECT
+    id,
+    type,
+    payload,
+    status,
+    attempts,
+    max_attempts AS maxAttempts,
+    run_after AS runAfter,
+    last_error AS lastError,
+    created_at AS createdAt,
+    started_at AS startedAt,
+    completed_at AS completedAt
+  FROM jobs
+`;
+
+function toJob(row: Omit<Job, 'payload'> & { payload: string }): Job {
+  return { ...row, payload: JSON.parse(row.payload) as JobPayload };
+}
+
+/**
+ * Queue a job, unless the same job is already waiting or running
+ *
+ * @returns The ID of the new (or already queued) job
+ */
+export function enqueueJob(type: JobType, payload: JobPayload, maxAttempts: number = 5): number {
+  const database = getDb();
+  const json = JSON.stringify(payload);
+
+  const enqueue = database.transaction(() => {
+    const existing = database.prepare(`
+      SELECT id FROM jobs
+      WHERE type = ? AND payload = ? AND status IN ('pending', 'running')
+    `).get(type, json) as { id: number } | undefined;
+    if (existing) return existing.id;
+
+    const result = database.prepare(`
+      INSERT INTO jobs (type, payload, max_attempts, run_after, created_at)
+      VALUES (?, ?, ?, datetime('now'), datetime('now'))
+    `).run(type, json, maxAttempts);
+    return Number(result.lastInsertRowid);
+  });
+
+  return enqueue();
+}
+
+/**
+ * Mark the next due job as running and return it
+ */
+export function claimNextJob(): Job | undefined {
+  const database = getDb();
+
+  const claim = database.transaction(() => {
+    const row = database.prepare(`
+      ${JOB_SELECT}
+      WHERE status = 'pending' AND run_after <= datetime('now')
+      ORDER BY run_after, id
+      LIMIT 1
+    `).get() as (Omit<Job, 'payload'> & { payload: string }) | undefined;
+    if (!row) return undefined;
+
+    database.prepare(`
+      UPDATE jobs SET status = 'running', attempts = attempts + 1, started_at = datetime('now')
+      WHERE id = ?
+    `).run(row.id);
+    return getJob(row.id);
+  });
+
+  return claim();
+}
+
+export function completeJob(id: number) {
+  const database = getDb();
+  database.prepare(`
+    UPDATE jobs SET status = 'completed', last_error = NULL, completed_at = datetime('now')
+    WHERE id = ?
+  `).run(id);
+}
+
+/**
+ * Record a failed attempt. The job is retried after `retryDelaySeconds`
+ * unless it has used all its attempts.
+ */
+export function failJob(id: number, error: string, retryDelaySeconds: number) {
+  const database = getDb();
+  database.prepare(`
+    UPDATE jobs SET
+      status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+      last_error = @error,
+      run_after = datetime('now', '+' || @retryDelaySeconds || ' seconds'),
+      completed_at = CASE WHEN attempts >= max_attempts THEN datetime('now') ELSE NULL END
+    WHERE id = @id
+  `).run({ id, error, retryDelaySeconds: Math.round(retryDelaySeconds) });
+}
+
+// Jobs still marked running long after they started were interrupted by a
+// server restart, so they go back in the queue
+export function resetStaleJobs(olderThanMinutes: number = 10) {
+  const database = getDb();
+  return database.prepare(`
+    UPDATE jobs SET status = 'pending'
+    WHERE status = 'running' AND started_at < datetime('now', '-' || ? || ' minutes')
+  `).run(olderThanMinutes).changes;
+}
+
+// Seconds until the next pending job is due (0 if one is due now)
+export function getNextJobDelay(): number | null {
+  const database = getDb();
+  const result = database.prepare(`
+    SELECT MAX(0, CAST(ROUND((julianday(MIN(run_after)) - julianday('now')) * 86400) AS INTEGER)) AS delay
+    FROM jobs WHERE status = 'pending'
+  `).get() as { delay: number | null };
+  return result.delay;
+}
+
+export function getJob(id: number): Job | undefined {
+  const database = getDb();
+  const row = database.prepare(`${JOB_SELECT} WHERE id = ?`).get(id) as
+    | (Omit<Job, 'payload'> & { payload: string })
+    | undefined;
+  return row ? toJob(row) : undefined;
+}
+
+export function getJobs(status?: JobStatus, limit: number = 100): Job[] {
+  const database = getDb();
+  const rows = (status
+    ? database.prepare(`${JOB_SELECT} WHERE status = ? ORDER BY id DESC LIMIT ?`).all(status, limit)
+    : database.prepare(`${JOB_SELECT} ORDER BY id DESC LIMIT ?`).all(limit)
+  ) as Array<Omit<Job, 'payload'> & { payload: string }>;
+  return rows.map(toJob);
+}
+
+export function getJobCounts(): Record<JobStatus, number> {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT status, COUNT(*) AS count FROM jobs GROUP BY status
+  `).all() as Array<{ status: JobStatus; count: number }>;
+
+  const counts: Record<JobStatus, number> = { pending: 0, running: 0, completed: 0, failed: 0 };
+  for (const row of rows) {
+    counts[row.status] = row.count;
+  }
+  return counts;
+}
+
+/**
+ * Whether a job for this payload is queued, running, or finished within
+ * the last `withinHours` hours
+ */
+export function hasRecentJob(type: JobType, payload: JobPayload, withinHours: number): boolean {
+  const database = getDb();
+  const result = database.prepare(`
+    SELECT 1 FROM jobs
+    WHERE type = ? AND payload = ?
+      AND (status IN ('pending', 'running') OR completed_at > datetime('now', '-' || ? || ' hours'))
+    LIMIT 1
+  `).get(type, JSON.stringify(payload), withinHours);
+  return result !== undefined;
+}
+
+// Funds with a job of this type waiting or running
+export function getQueuedJobSymbols(type: JobType): string[] {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT DISTINCT json_extract(payload, '$.symbol') AS symbol FROM jobs
+    WHERE type = ? AND status IN ('pending', 'running')
+  `).all(type) as Array<{ symbol: string }>;
+  return rows.map((r) => r.symbol);
+}
+
+// Completed and failed jobs older than this many days are removed
+export function pruneJobs(olderThanDays: number = 7) {
+  const database = getDb();
+  return database.prepare(`
+    DELETE FROM jobs
+    WHERE status IN ('completed', 'failed') AND completed_at < datetime('now', '-' || ? || ' days')
+  `).run(olderThanDays).changes;
+}
@@ -0,0 +1,45 @@
+import { cacheFxRatesBatch, getFxRates, getLatestFxDate } from './db';
+import { format, subYears, parseISO, addDays } from 'date-fns';
+import { getFxProvidersByPriority } from './fx/registry';
+import type { FxRatePoint } from '@/types';
+
+/**
+ * Fetch any exchange rates for a currency pair newer than those cached,
+ * trying each source in priority order until one has them
+ *
+ * @returns All cached rates for the pair
+ */
+export async function fetchAndCacheFxRates(
+  from: string,
+  to: string,
+  yearsBack: number = 15
+): Promise<FxRatePoint[]> {
+  const latestCached = getLatestFxDate(from, to);
+  const today = new Date();
+  const startDate = latestCached ? addDays(parseISO(latestCached), 1) : subYears(today, yearsBack);
+
+  // Only fetch if we need new data
+  if (startDate >= today) {
+    return getFxRates(from, to);
+  }
+
+  for (const fetcher of getFxProvidersByPriority()) {
+    console.log(`Trying ${fetcher.displayName} for ${from}/${to} rates from ${format(startDate, 'yyyy-MM-dd')}`);
+
+    let rates: FxRatePoint[] = [];
+    try {
+      rates = await fetcher.fetchRates(from, to, startDate, today);
+    } catch (error) {
+      console.error(`${fetcher.displayName} rate fetch failed for ${from}/${to}:`, error);
+    }
+
+    if (rates.length > 0) {
+      cacheFxRatesBatch(from, to, rates, fetcher.name);
+      console.log(`Cached ${rates.length} ${from}/${to} rates from ${fetcher.name}`);
+      return getFxRates(from, to);
+    }
+  }
+
+  console.warn(`No ${from}/${to} rates found from any source`);
+  return getFxRates(from, to);
+}
@@ -0,0 +1,49 @@
+/**
+ * Local CSV exchange rate source
+ *
+ * Reads rates from data/fx-rates.csv so they can be supplied without a
+ * network connection, or to override a bad feed. One rate per line:
+ *
+ *   date,from,to,rate
+ *   2024-01-05,USD,GBP,0.7871
+ *
+ * The inverse pair is worked out from the same rows.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { format } from 'date-fns';
+import type { FxProvider, FxRatePoint } from '@/types';
+
+const csvPath = path.join(process.cwd(), 'data', 'fx-rates.csv');
+
+export class CsvFxFetcher implements FxProvider {
+  name = 'local-csv';
+  displayName = 'Local CSV';
+  priority = 100;
+
+  async fetchRates(from: string, to: string, startDate: Date, endDate: Date): Promise<FxRatePoint[]> {
+    if (!fs.existsSync(csvPath)) return [];
+
+    const start = format(startDate, 'yyyy-MM-dd');
+    const end = format(endDate, 'yyyy-MM-dd');
+    const rates = new Map<string, number>();
+
+    for (const line of fs.readFileSync(csvPath, 'utf-8').split(/\r?\n/)) {
+      const [date, rowFrom, rowTo, rateStr] = line.split(',').map((v) => v.trim());
+      const rate = parseFloat(rateStr);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date ?? '') || !(rate > 0)) continue;
+      if (date < start || date > end) continue;
+
+      if (rowFrom === from && rowTo === to) {
+        rates.set(date, rate);
+      } else if (rowFrom === to && rowTo === from && !rates.has(date)) {
+        rates.set(date, 1 / rate);
+      }
+    }
+
+    return Array.from(rates, ([date, rate]) => ({ date, rate })).sort((a, b) =>
+      a.date.localeCompare(b.date)
+    );
+  }
+}
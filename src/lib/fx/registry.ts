@@ -0,0 +1,47 @@
+/**
+ * Exchange rate source registry
+ * Central registry for all exchange rate sources
+ */
+
+import type { FxProvider } from '@/types';
+import { CsvFxFetcher } from './csv-fetcher';
+import { YahooFxFetcher } from './yahoo-fetcher';
+
+// Exchange rate source registry
+const providers = new Map<string, FxProvider>();
+
+// Register all exchange rate sources
+function registerFxProviders() {
+  const fetcherInstances: FxProvider[] = [
+    new CsvFxFetcher(),
+    new YahooFxFetcher(),
+  ];
+
+  for (const fetcher of fetcherInstances) {
+    providers.set(fetcher.name, fetcher);
+  }
+}
+
+// Initialize registry
+registerFxProviders();
+
+/**
+ * Get an exchange rate source by name
+ */
+export function getFxProvider(name: string): FxProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * Get exchange rate sources sorted by priority
+ */
+export function getFxProvidersByPriority(): FxProvider[] {
+  return Array.from(providers.values()).sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * Register a new exchange rate source dynamically
+ */
+export function registerFxProvider(fetcher: FxProvider): void {
+  providers.set(fetcher.name, fetcher);
+}
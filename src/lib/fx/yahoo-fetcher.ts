@@ -0,0 +1,18 @@
+/**
+ * Yahoo Finance exchange rate source
+ * Daily closes for currency pairs (e.g. USDGBP=X)
+ */
+
+import type { FxProvider, FxRatePoint } from '@/types';
+import { fetchHistoricalPrices } from '../prices/yahoo-fetcher';
+
+export class YahooFxFetcher implements FxProvider {
+  name = 'yahoo';
+  displayName = 'Yahoo Finance';
+  priority = 50;
+
+  async fetchRates(from: string, to: string, startDate: Date, endDate: Date): Promise<FxRatePoint[]> {
+    const { prices } = await fetchHistoricalPrices(`${from}${to}=X`, startDate, endDate);
+    return prices.map((p) => ({ date: p.date, rate: p.price }));
+  }
+}
@@ -1,10 +1,12 @@
 import {
   cacheFundHoldingsBatch,
   getLatestFundHoldings,
+  getFundHoldingsAt,
   hasRecentHoldings,
   type FundHoldingRow,
 } from './db';
 import type { FundHolding } from '@/types';
+import { getTickerCurrency } from '@/lib/utils';
 import YahooFinanceConstructor from 'yahoo-finance2';
 
 const yahooFinance = new YahooFinanceConstructor({ suppressNotices: ['yahooSurvey'] });
@@ -36,6 +38,9 @@ interface MorningstarPortfolioResponse {
     WeightingPercent?: number;
     NumberOfShare?: number;
     MarketValue?: number;
+    Country?: string;
+    CurrencyId?: string;
+    Sector?: string;
   }>;
 }
 
@@ -62,6 +67,7 @@ export async function fetchYahooHoldings(symbol: string): Promise<{
       name: h.holdingName,
       assetType: 'Equity',
       weightPercent: h.holdingPercent * 100, // Convert decimal to percentage
+      currency: getTickerCurrency(h.symbol) ?? undefined,
     }));
 
     // Yahoo Finance doesn't provide an as-of date, use today
@@ -184,6 +190,9 @@ export async function fetchMorningstarHoldings(morningstarId: string): Promise<{
       weightPercent: h.WeightingPercent || 0,
       sharesHeld: h.NumberOfShare,
       marketValue: h.MarketValue,
+      country: h.Country,
+      sector: h.Sector,
+      currency: h.CurrencyId,
     }));
 
     // Use Date from response or default to today
@@ -227,6 +236,50 @@ export async function fetchHoldingsWithFallback(
   return null;
 }
 
+/**
+ * Look up a listed security's sector and country on Yahoo Finance
+ *
+ * @param ticker - Yahoo Finance symbol, as given in Yahoo's fund holdings
+ */
+export async function fetchSecurityProfile(ticker: string): Promise<{
+  sector?: string;
+  country?: string;
+} | null> {
+  try {
+    const result = await yahooFinance.quoteSummary(ticker, {
+      modules: ['assetProfile']
+    });
+
+    const { sector, country } = result.assetProfile ?? {};
+    if (!sector && !country) {
+      return null;
+    }
+
+    return { sector, country };
+  } catch (error) {
+    console.warn(`Failed to fetch Yahoo Finance profile for ${ticker}:`, error);
+    return null;
+  }
+}
+
+// Map a cached row back to a holding
+function toFundHolding(h: FundHoldingRow): FundHolding {
+  return {
+    symbol: h.holding_symbol || undefined,
+    name: h.holding_name,
+    cusip: h.cusip || undefined,
+    isin: h.isin || undefined,
+    assetType: h.asset_type || undefined,
+    weightPercent: h.weight_percent,
+    sharesHeld: h.shares_held || undefined,
+    marketValue: h.market_value || undefined,
+    country: h.country || undefined,
+    currency: h.currency || undefined,
+    sector: h.sector || undefined,
+    securityId: h.security_id ?? undefined,
+  };
+}
+
 // Batch fetch holdings for multiple funds with rate limiting
 export async function fetchAllFundHoldings(
   funds: Array<{
@@ -243,16 +296,7 @@ export async function fetchAllFundHoldings(
       const cachedHoldings = getLatestFundHoldings(fund.symbol);
       if (cachedHoldings.length > 0) {
         results.set(fund.symbol, {
-          holdings: cachedHoldings.map((h) => ({
-            symbol: h.holding_symbol || undefined,
-            name: h.holding_name,
-            cusip: h.cusip || undefined,
-            isin: h.isin || undefined,
-            assetType: h.asset_type || undefined,
-            weightPercent: h.weight_percent,
-            sharesHeld: h.shares_held || undefined,
-            marketValue: h.market_value || undefined,
-          })),
+          holdings: cachedHoldings.map(toFundHolding),
           asOfDate: cachedHoldings[0].as_of_date,
         });
         continue;
@@ -278,6 +322,9 @@ export async function fetchAllFundHoldings(
           weight_percent: h.weightPercent,
           shares_held: h.sharesHeld || null,
           market_value: h.marketValue || null,
+          country: h.country || null,
+          currency: h.currency || null,
+          sector: h.sector || null,
           as_of_date: result.asOfDate,
         })
       );
@@ -308,16 +355,12 @@ export function getCachedHoldings(fundSymbol: string): {
   }
 
   return {
-    holdings: cachedHoldings.map((h) => ({
-      symbol: h.holding_symbol || undefined,
-      name: h.holding_name,
-      cusip: h.cusip || undefined,
-      isin: h.isin || undefined,
-      assetType: h.asset_type || undefined,
-      weightPercent: h.weight_percent,
-      sharesHeld: h.shares_held || undefined,
-      marketValue: h.market_value || undefined,
-    })),
+    holdings: cachedHoldings.map(toFundHolding),
     asOfDate: cachedHoldings[0].as_of_date,
   };
 }
+
+// Get a fund's cached holdings as of an earlier date
+export function getCachedHoldingsAt(fundSymbol: string, asOfDate: string): FundHolding[] {
+  return getFundHoldingsAt(fundSymbol, asOfDate).map(toFundHolding);
+}
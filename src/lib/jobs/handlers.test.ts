@@ -0,0 +1,55 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { insertTransactionsBatch, getCachedPrices, getHolding, DEFAULT_ACCOUNT_ID } from '../db';
+import { JOB_HANDLERS } from './handlers';
+
+process.env.PORTFOLIO_DB_PATH = ':memory:';
+
+// A fund bought and sold in full, so no longer in holdings. Its SEDOL is one
+// Yahoo Finance knows, but its ii symbol isn't.
+const CLOSED = [
+  { date: '2024-01-03', type: 'buy', units: 10, price: 10, total: -100 },
+  { date: '2024-06-03', type: 'sell', units: -10, price: 12, total: 120 },
+].map((tx) => ({
+  ...tx,
+  account_id: DEFAULT_ACCOUNT_ID,
+  symbol: 'SMTCLOSED',
+  sedol: 'BLDYK61',
+  fund_name: 'SCOTTISH MORTGAGE INV TR',
+  description: 'SCOTTISH MORTGAGE INV TR',
+}));
+
+// Yahoo Finance chart response with two daily closes in pence
+function chartResponse() {
+  const timestamps = [Date.UTC(2024, 0, 3, 12) / 1000, Date.UTC(2024, 0, 4, 12) / 1000];
+  return Response.json({
+    chart: {
+      result: [{ timestamp: timestamps, indicators: { quote: [{ close: [1000, 1010] }] }, meta: { currency: 'GBp' } }],
+    },
+  });
+}
+
+test('refreshes prices of a fund that has since been sold', async () => {
+  insertTransactionsBatch(CLOSED);
+  assert.equal(getHolding('SMTCLOSED'), undefined);
+
+  const requested: string[] = [];
+  const fetchMock = mock.method(globalThis, 'fetch', async (input: string | URL | Request) => {
+    const url = String(input);
+    requested.push(url);
+    return url.includes('finance.yahoo.com') ? chartResponse() : new Response(null, { status: 404 });
+  });
+
+  try {
+    await JOB_HANDLERS['refresh-prices']({ symbol: 'SMTCLOSED' });
+  } finally {
+    fetchMock.mock.restore();
+  }
+
+  // Looked up by the SEDOL from its transactions
+  assert.ok(requested.some((url) => url.includes('/chart/SMT.L')));
+  assert.deepEqual(getCachedPrices('SMTCLOSED'), [
+    { date: '2024-01-03', price: 10 },
+    { date: '2024-01-04', price: 10.1 },
+  ]);
+});
@@ -0,0 +1,115 @@
+/**
+ * Background job handlers
+ * Each handler does the work for one job type and throws if it should be retried
+ */
+
+import {
+  getHolding,
+  getTransactionSecurity,
+  getBenchmarkSymbols,
+  cacheFundHoldingsBatch,
+  getSecuritiesMissingDetails,
+  updateSecurityDetails,
+  type FundHoldingRow,
+} from '../db';
+import { fetchAndCachePrices } from '../price-fetcher';
+import { fetchHoldingsWithFallback, fetchSecurityProfile } from '../holdings-fetcher';
+import { fetchAndCacheFxRates } from '../fx-fetcher';
+import { parseCurrencyPair } from '@/lib/utils';
+import type { JobPayload, JobType } from '@/types';
+
+// How far back to fetch prices for a fund with nothing cached yet
+export const PRICE_HISTORY_YEARS = 15;
+
+async function refreshPrices({ symbol }: JobPayload) {
+  // Funds since sold are found from their transactions; benchmarks have
+  // prices fetched knowing only their symbol
+  const holding = getHolding(symbol);
+  const traded = holding ? undefined : getTransactionSecurity(symbol);
+  if (!holding && !traded && !getBenchmarkSymbols().includes(symbol)) {
+    console.log(`[jobs] ${symbol} has never been held and isn't a benchmark, skipping price refresh`);
+    return;
+  }
+
+  const sedol = holding?.sedol ?? traded?.sedol ?? undefined;
+  const details = holding
+    ? { name: holding.name, isin: holding.isin || undefined, morningstarId: holding.morningstar_id || undefined }
+    : traded && { name: traded.fund_name || undefined };
+
+  const prices = await fetchAndCachePrices(symbol, sedol, PRICE_HISTORY_YEARS, details);
+
+  if (prices.length === 0) {
+    throw new Error(`No price data found for ${symbol}`);
+  }
+}
+
+async function refreshFundHoldings({ symbol }: JobPayload) {
+  const holding = getHolding(symbol);
+  if (!holding) {
+    console.log(`[jobs] ${symbol} is no longer held, skipping holdings refresh`);
+    return;
+  }
+
+  const result = await fetchHoldingsWithFallback(symbol, {
+    morningstarId: holding.morningstar_id || undefined,
+  });
+
+  if (!result) {
+    throw new Error(`Holdings data not available for ${symbol}`);
+  }
+
+  const holdingsToCache: Array<Omit<FundHoldingRow, 'id' | 'fetched_at'>> =
+    result.holdings.map((h) => ({
+      fund_symbol: symbol,
+      holding_symbol: h.symbol || null,
+      holding_name: h.name,
+      cusip: h.cusip || null,
+      isin: h.isin || null,
+      asset_type: h.assetType || null,
+      weight_percent: h.weightPercent,
+      shares_held: h.sharesHeld || null,
+      market_value: h.marketValue || null,
+      country: h.country || null,
+      currency: h.currency || null,
+      sector: h.sector || null,
+      as_of_date: result.asOfDate,
+    }));
+
+  cacheFundHoldingsBatch(holdingsToCache);
+  console.log(`[jobs] Cached ${result.holdings.length} holdings for ${symbol}`);
+}
+
+async function refreshHoldingDetails({ symbol }: JobPayload) {
+  const securities = getSecuritiesMissingDetails(symbol);
+  let found = 0;
+
+  for (const security of securities) {
+    const profile = await fetchSecurityProfile(security.ticker);
+    if (profile) {
+      updateSecurityDetails(security.id, profile);
+      found++;
+    }
+
+    // Rate limiting: 500ms delay between requests
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+
+  // Listings without a profile aren't retried until the next look-up is due
+  console.log(`[jobs] Found sector and country for ${found} of ${securities.length} holdings of ${symbol}`);
+}
+
+async function refreshFxRates({ symbol }: JobPayload) {
+  const { from, to } = parseCurrencyPair(symbol);
+  const rates = await fetchAndCacheFxRates(from, to, PRICE_HISTORY_YEARS);
+
+  if (rates.length === 0) {
+    throw new Error(`No exchange rates found for ${from}/${to}`);
+  }
+}
+
+export const JOB_HANDLERS: Record<JobType, (payload: JobPayload) => Promise<void>> = {
+  'refresh-prices': refreshPrices,
+  'refresh-fund-holdings': refreshFundHoldings,
+  'refresh-fx': refreshFxRates,
+  'refresh-holding-details': refreshHoldingDetails,
+};
@@ -0,0 +1,108 @@
+/**
+ * Background job queue
+ * Page loads read prices and fund holdings from the cache and queue a
+ * refresh here when they may be out of date
+ */
+
+import { format } from 'date-fns';
+import {
+  enqueueJob,
+  getLatestCachedDate,
+  getLatestFxDate,
+  getQueuedJobSymbols,
+  getSecuritiesMissingDetails,
+  hasRecentHoldings,
+  hasRecentJob,
+} from '../db';
+import { startJobWorker } from './worker';
+import { parseCurrencyPair } from '@/lib/utils';
+import type { JobPayload, JobType } from '@/types';
+
+// Check for new prices at most this often per fund
+const PRICE_REFRESH_HOURS = 6;
+
+// Fund holdings are published monthly at best
+const HOLDINGS_MAX_AGE_DAYS = 7;
+
+/**
+ * Queue a job and make sure the worker is running
+ *
+ * @returns The job's ID (an existing one if the same job is already queued)
+ */
+export function queueJob(type: JobType, payload: JobPayload): number {
+  const id = enqueueJob(type, payload);
+  startJobWorker();
+  return id;
+}
+
+/**
+ * Queue a price refresh for each fund whose cached prices stop before today,
+ * unless one has run recently
+ *
+ * @returns Symbols with a price refresh queued or running
+ */
+export function queuePriceRefreshes(symbols: string[]): string[] {
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  for (const symbol of symbols) {
+    const payload = { symbol };
+    if (getLatestCachedDate(symbol) === today) continue;
+    if (hasRecentJob('refresh-prices', payload, PRICE_REFRESH_HOURS)) continue;
+    queueJob('refresh-prices', payload);
+  }
+
+  const queued = new Set(getQueuedJobSymbols('refresh-prices'));
+  return symbols.filter((symbol) => queued.has(symbol));
+}
+
+/**
+ * Queue an exchange rate refresh for each currency pair (e.g. 'USDGBP')
+ * whose cached rates stop before today, unless one has run recently
+ *
+ * @returns Pairs with a rate refresh queued or running
+ */
+export function queueFxRefreshes(pairs: string[]): string[] {
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  for (const pair of pairs) {
+    const { from, to } = parseCurrencyPair(pair);
+    const payload = { symbol: pair };
+    if (getLatestFxDate(from, to) === today) continue;
+    if (hasRecentJob('refresh-fx', payload, PRICE_REFRESH_HOURS)) continue;
+    queueJob('refresh-fx', payload);
+  }
+
+  const queued = new Set(getQueuedJobSymbols('refresh-fx'));
+  return pairs.filter((pair) => queued.has(pair));
+}
+
+/**
+ * Queue a fund holdings refresh if the cached holdings are missing or stale
+ *
+ * @returns Whether a holdings refresh is queued or running
+ */
+export function queueHoldingsRefresh(symbol: string): boolean {
+  const payload = { symbol };
+  if (!hasRecentHoldings(symbol, HOLDINGS_MAX_AGE_DAYS)) {
+    if (!hasRecentJob('refresh-fund-holdings', payload, 24 * HOLDINGS_MAX_AGE_DAYS)) {
+      queueJob('refresh-fund-holdings', payload);
+    }
+  }
+  return getQueuedJobSymbols('refresh-fund-holdings').includes(symbol);
+}
+
+/**
+ * Queue a look-up of sector and country for a fund's underlying holdings
+ * that are missing them, at most once per holdings refresh period
+ *
+ * @returns Whether a look-up is queued or running
+ */
+export function queueHoldingDetailsRefresh(symbol: string): boolean {
+  const payload = { symbol };
+  if (getSecuritiesMissingDetails(symbol).length > 0) {
+    if (!hasRecentJob('refresh-holding-details', payload, 24 * HOLDINGS_MAX_AGE_DAYS)) {
+      queueJob('refresh-holding-details', payload);
+    }
+  }
+  return getQueuedJobSymbols('refresh-holding-details').includes(symbol);
+}
@@ -0,0 +1,98 @@
+/**
+ * Background job worker
+ * Runs queued jobs one at a time in the server process, retrying failures
+ * with exponential backoff. The worker starts when a job is queued and stops
+ * once nothing is left to do.
+ */
+
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  getNextJobDelay,
+  pruneJobs,
+  resetStaleJobs,
+} from '../db';
+import { JOB_HANDLERS } from './handlers';
+import type { Job } from '@/types';
+
+// Pause between jobs to avoid rate limiting by the data providers
+const JOB_INTERVAL_MS = 500;
+
+// Longest the worker sleeps before checking the queue again
+const MAX_IDLE_MS = 60_000;
+
+// First retry waits this long, doubling with each further attempt
+const RETRY_BASE_SECONDS = 30;
+
+let running = false;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Seconds to wait before retrying a job that has failed `attempts` times
+ *
+ * @example
+ * getRetryDelay(1); // 30
+ * getRetryDelay(3); // 120
+ */
+export function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0);
+}
+
+async function runJob(job: Job) {
+  const label = `${job.type} ${job.payload.symbol}`;
+  console.log(`[jobs] Running ${label} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  try {
+    await JOB_HANDLERS[job.type](job.payload);
+    completeJob(job.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const delay = getRetryDelay(job.attempts);
+    failJob(job.id, message, delay);
+
+    if (job.attempts >= job.maxAttempts) {
+      console.error(`[jobs] ${label} failed after ${job.attempts} attempts: ${message}`);
+    } else {
+      console.warn(`[jobs] ${label} failed, retrying in ${delay}s: ${message}`);
+    }
+  }
+}
+
+async function runWorker() {
+  try {
+    while (true) {
+      const job = claimNextJob();
+
+      if (!job) {
+        // Nothing due: wait for the next retry, or stop if the queue is empty
+        const delay = getNextJobDelay();
+        if (delay === null) break;
+        await sleep(Math.min(Math.max(delay * 1000, JOB_INTERVAL_MS), MAX_IDLE_MS));
+        continue;
+      }
+
+      await runJob(job);
+      await sleep(JOB_INTERVAL_MS);
+    }
+  } catch (error) {
+    console.error('[jobs] Worker stopped:', error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the worker if it isn't already running
+ */
+export function startJobWorker() {
+  if (running) return;
+  running = true;
+
+  // Pick up jobs interrupted by a server restart and tidy up old ones
+  resetStaleJobs();
+  pruneJobs();
+
+  void runWorker();
+}
@@ -0,0 +1,21 @@
+/**
+ * Base class for price sources with common utilities
+ */
+
+import type { PriceProvider, PriceSecurity, PriceSeries } from '@/types';
+
+export abstract class BasePriceFetcher implements PriceProvider {
+  abstract name: string;
+  abstract displayName: string;
+
+  abstract detect(security: PriceSecurity): number | null;
+  abstract fetchPrices(security: PriceSecurity, startDate: Date, endDate: Date): Promise<PriceSeries>;
+
+  /**
+   * UK OEICs have SEDOL-style symbols (7 characters, or all digits) while
+   * ETFs and investment trusts have 2-4 letter tickers
+   */
+  protected isLikelyOEIC(symbol: string): boolean {
+    return /^[A-Z0-9]{7}$/.test(symbol) || /^[0-9]+$/.test(symbol);
+  }
+}
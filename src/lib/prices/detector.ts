@@ -0,0 +1,36 @@
+/**
+ * Price source detection
+ *
+ * Asks every registered price source how likely it is to have prices for a
+ * fund, so new sources only need to be registered to be tried
+ */
+
+import type { PriceSecurity, PriceProviderInfo, PriceDetectionResult } from '@/types';
+import { getAllPriceProviders, hasPriceProvider } from './registry';
+
+/**
+ * Detect price sources for a fund
+ * Returns ordered list of sources to try, sorted by confidence. A pinned
+ * source is the only one tried, so its prices are never mixed with another's.
+ */
+export function detectPriceProviders(
+  security: PriceSecurity,
+  pinned?: string | null
+): PriceDetectionResult {
+  if (pinned && hasPriceProvider(pinned)) {
+    return { providers: [{ provider: pinned, confidence: 100 }] };
+  }
+
+  const providers: PriceProviderInfo[] = [];
+
+  for (const fetcher of getAllPriceProviders()) {
+    const confidence = fetcher.detect(security);
+    if (confidence !== null) {
+      providers.push({ provider: fetcher.name, confidence });
+    }
+  }
+
+  providers.sort((a, b) => b.confidence - a.confidence);
+
+  return { providers };
+}
@@ -0,0 +1,41 @@
+/**
+ * Morningstar price source
+ * Daily NAVs for UK OEICs, and a fallback for ETFs Yahoo doesn't cover
+ */
+
+import { BasePriceFetcher } from './base-fetcher';
+import type { PriceSecurity, PriceSeries } from '@/types';
+import { autoDetectMorningstarId, fetchMorningstarHistoricalNAV } from '../morningstar-fetcher';
+import { updateHoldingMorningstarId } from '../db';
+
+export class MorningstarPriceFetcher extends BasePriceFetcher {
+  name = 'morningstar';
+  displayName = 'Morningstar';
+
+  detect(security: PriceSecurity): number | null {
+    // Needs a known Morningstar ID, or a name to search for one
+    if (!security.morningstarId && !security.name) return null;
+
+    return this.isLikelyOEIC(security.symbol) ? 90 : 40;
+  }
+
+  async fetchPrices(security: PriceSecurity, startDate: Date, endDate: Date): Promise<PriceSeries> {
+    let secId = security.morningstarId ?? null;
+
+    if (!secId && security.name) {
+      const fund = await autoDetectMorningstarId(security.name, security.isin);
+      secId = fund?.secId ?? null;
+
+      // Cache the Morningstar ID for future lookups
+      if (secId) {
+        updateHoldingMorningstarId(security.symbol, secId);
+      }
+    }
+
+    if (!secId) return { prices: [], currency: 'GBP' };
+
+    // NAVs are requested in GBP
+    const prices = await fetchMorningstarHistoricalNAV(secId, startDate, endDate);
+    return { prices, currency: 'GBP' };
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Price source registry
+ * Central registry for all historical price sources
+ */
+
+import type { PriceProvider } from '@/types';
+import { YahooPriceFetcher } from './yahoo-fetcher';
+import { MorningstarPriceFetcher } from './morningstar-fetcher';
+
+// Price source registry
+const providers = new Map<string, PriceProvider>();
+
+// Register all price sources
+function registerPriceProviders() {
+  const fetcherInstances: PriceProvider[] = [
+    new YahooPriceFetcher(),
+    new MorningstarPriceFetcher(),
+  ];
+
+  for (const fetcher of fetcherInstances) {
+    providers.set(fetcher.name, fetcher);
+  }
+}
+
+// Initialize registry
+registerPriceProviders();
+
+/**
+ * Get a price source by name
+ */
+export function getPriceProvider(name: string): PriceProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * Get all registered price sources
+ */
+export function getAllPriceProviders(): PriceProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Check if a price source exists
+ */
+export function hasPriceProvider(name: string): boolean {
+  return providers.has(name);
+}
+
+/**
+ * Register a new price source dynamically
+ */
+export function registerPriceProvider(fetcher: PriceProvider): void {
+  providers.set(fetcher.name, fetcher);
+}
@@ -0,0 +1,142 @@
+/**
+ * Yahoo Finance price source
+ * Daily closes for London-listed ETFs and investment trusts
+ */
+
+import { format } from 'date-fns';
+import { BasePriceFetcher } from './base-fetcher';
+import type { PriceSecurity, PricePoint, PriceSeries } from '@/types';
+
+// Map ii.co.uk symbols/SEDOLs to Yahoo Finance symbols
+// Only includes ETFs with real London Stock Exchange tickers
+// UK OEICs use Morningstar instead (the 0P... symbols don't work on Yahoo)
+const SYMBOL_TO_YAHOO: Record<string, string> = {
+  // ETFs (ticker symbols) - these have real LSE tickers
+  'IWRD': 'IWRD.L',
+  'IJPH': 'IJPH.L',
+  'SMT': 'SMT.L',
+  'JGGI': 'JGGI.L',
+  'CTY': 'CTY.L',
+
+  // ETF alternative SEDOLs
+  'BLDYK61': 'SMT.L',          // Scottish Mortgage (same as ticker)
+  'B0M62Q5': 'IWRD.L',         // iShares MSCI World (same as ticker)
+  'B7XYN97': 'IJPH.L',         // iShares Japan Hedged (same as ticker)
+  'BYMKY69': 'JGGI.L',         // JPMorgan Global Growth (same as ticker)
+
+  // Note: UK OEICs (funds like BlackRock, Vanguard, Fidelity, etc.)
+  // use Morningstar API instead - the Yahoo 0P... symbols no longer work
+};
+
+export function getYahooSymbol(symbol: string, sedol?: string): string | null {
+  // Try symbol first
+  if (SYMBOL_TO_YAHOO[symbol]) {
+    return SYMBOL_TO_YAHOO[symbol];
+  }
+
+  // Try sedol
+  if (sedol && SYMBOL_TO_YAHOO[sedol]) {
+    return SYMBOL_TO_YAHOO[sedol];
+  }
+
+  // Already a Yahoo symbol: an index (^FTSE) or a listing with an exchange suffix (VWRL.L)
+  if (/^\^[A-Z0-9]+$|^[A-Z0-9-]+\.[A-Z]{1,3}$/.test(symbol)) {
+    return symbol;
+  }
+
+  // If it looks like a London ticker, append .L
+  if (/^[A-Z]{2,4}$/.test(symbol)) {
+    return `${symbol}.L`;
+  }
+
+  return null;
+}
+
+interface YahooChartResult {
+  timestamp: number[];
+  indicators: {
+    quote: Array<{
+      close: (number | null)[];
+    }>;
+  };
+  meta: {
+    currency: string;
+  };
+}
+
+// London prices are often quoted in pence
+function isPence(currency: string | undefined): boolean {
+  return currency === 'GBp' || currency === 'GBX' || currency === 'GBx';
+}
+
+export async function fetchHistoricalPrices(
+  yahooSymbol: string,
+  startDate: Date,
+  endDate: Date
+): Promise<PriceSeries> {
+  const empty: PriceSeries = { prices: [], currency: 'GBP' };
+
+  try {
+    const period1 = Math.floor(startDate.getTime() / 1000);
+    const period2 = Math.floor(endDate.getTime() / 1000);
+
+    const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(yahooSymbol)}?period1=${period1}&period2=${period2}&interval=1d`;
+
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      },
+    });
+
+    if (!response.ok) {
+      console.error(`Yahoo Finance API error for ${yahooSymbol}: ${response.status}`);
+      return empty;
+    }
+
+    const data = await response.json();
+    const result: YahooChartResult = data.chart?.result?.[0];
+
+    if (!result || !result.timestamp) {
+      console.error(`No data returned for ${yahooSymbol}`);
+      return empty;
+    }
+
+    const timestamps = result.timestamp;
+    const closes = result.indicators?.quote?.[0]?.close || [];
+    const currency = result.meta?.currency;
+
+    const prices: PricePoint[] = [];
+
+    for (let i = 0; i < timestamps.length; i++) {
+      const closePrice = closes[i];
+      if (closePrice !== null && closePrice !== undefined) {
+        const date = format(new Date(timestamps[i] * 1000), 'yyyy-MM-dd');
+        prices.push({ date, price: isPence(currency) ? closePrice / 100 : closePrice });
+      }
+    }
+
+    return { prices, currency: isPence(currency) ? 'GBP' : currency || 'GBP' };
+  } catch (error) {
+    console.error(`Error fetching prices for ${yahooSymbol}:`, error);
+    return empty;
+  }
+}
+
+export class YahooPriceFetcher extends BasePriceFetcher {
+  name = 'yahoo';
+  displayName = 'Yahoo Finance';
+
+  detect(security: PriceSecurity): number | null {
+    if (!getYahooSymbol(security.symbol, security.sedol)) return null;
+
+    // First choice for listed ETFs and trusts; OEICs rarely have a working ticker
+    return this.isLikelyOEIC(security.symbol) ? 50 : 90;
+  }
+
+  async fetchPrices(security: PriceSecurity, startDate: Date, endDate: Date): Promise<PriceSeries> {
+    const yahooSymbol = getYahooSymbol(security.symbol, security.sedol);
+    if (!yahooSymbol) return { prices: [], currency: 'GBP' };
+
+    return fetchHistoricalPrices(yahooSymbol, startDate, endDate);
+  }
+}
@@ -92,6 +92,7 @@ export class ISharesFetcher extends BaseFetcher {
         isin: row.isin ? String(row.isin) : undefined,
         weightPercent: this.normalizeWeight(row[2] || row.weight || 0),
         sector: row.sector ? String(row.sector) : undefined,
+        country: row.country ? String(row.country) : undefined,
         assetClass: row.assetClass ? String(row.assetClass) : 'Equity',
         assetType: row.assetClass ? String(row.assetClass) : 'Equity',
       })).filter(h => h.name && h.weightPercent > 0);
@@ -18,6 +18,9 @@ interface MorningstarPortfolioResponse {
     WeightingPercent?: number;
     NumberOfShare?: number;
     MarketValue?: number;
+    Country?: string;
+    CurrencyId?: string;
+    Sector?: string;
   }>;
 }
 
@@ -105,6 +108,9 @@ export class MorningstarFetcher extends BaseFetcher {
         sharesHeld: h.NumberOfShare,
         value: h.MarketValue,
         marketValue: h.MarketValue,
+        country: h.Country,
+        currency: h.CurrencyId,
+        sector: h.Sector,
         assetClass: 'Equity',
         assetType: 'Equity',
       }));
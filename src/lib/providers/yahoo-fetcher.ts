@@ -5,6 +5,7 @@
 
 import { BaseFetcher } from './base-fetcher';
 import type { FundMetadata, HoldingsResult, FundHolding } from '@/types';
+import { getTickerCurrency } from '@/lib/utils';
 import YahooFinanceConstructor from 'yahoo-finance2';
 
 const yahooFinance = new YahooFinanceConstructor({ suppressNotices: ['yahooSurvey'] });
@@ -45,6 +46,7 @@ export class YahooFetcher extends BaseFetcher {
         weightPercent: h.holdingPercent * 100, // Convert decimal to percentage
         assetClass: 'Equity',
         assetType: 'Equity',
+        currency: getTickerCurrency(h.symbol) ?? undefined,
       }));
 
       // Yahoo Finance doesn't provide an as-of date, use today
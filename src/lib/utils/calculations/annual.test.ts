@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateAnnualReturns } from './annual';
+
+const values = (points: Array<[string, number]>) => points.map(([date, value]) => ({ date, value }));
+
+// Rounded so floating point noise doesn't fail the comparison
+const rounded = (returns: ReturnType<typeof calculateAnnualReturns>) =>
+  returns.map((r) => ({ ...r, returnPercent: r.returnPercent === null ? null : Math.round(r.returnPercent * 100) / 100 }));
+
+test('a series ending on the last day of the year completes that year', () => {
+  const series = values([['2023-06-01', 100], ['2023-12-29', 110], ['2024-07-01', 115], ['2024-12-31', 121]]);
+
+  assert.deepEqual(rounded(calculateAnnualReturns(series, 'calendar')), [
+    { period: '2023', returnPercent: 10, partial: true },
+    { period: '2024', returnPercent: 10, partial: false },
+  ]);
+
+  // Still running if it stops short of 31 December
+  assert.equal(calculateAnnualReturns(series.slice(0, 3), 'calendar')[1].partial, true);
+});
+
+test('a series ending on 5 April completes that tax year', () => {
+  const series = values([['2023-10-02', 100], ['2024-04-05', 105], ['2025-04-05', 126]]);
+
+  assert.deepEqual(rounded(calculateAnnualReturns(series, 'tax')), [
+    { period: '2023-24', returnPercent: 5, partial: true },
+    { period: '2024-25', returnPercent: 20, partial: false },
+  ]);
+});
+
+test('reports a year without values as a gap rather than merging it into the next', () => {
+  const series = values([['2021-06-01', 90], ['2021-12-31', 100], ['2023-03-01', 150], ['2023-12-29', 165], ['2024-12-31', 198]]);
+
+  assert.deepEqual(rounded(calculateAnnualReturns(series, 'calendar')), [
+    { period: '2021', returnPercent: 11.11, partial: true },
+    { period: '2022', returnPercent: null, partial: false },
+    { period: '2023', returnPercent: 10, partial: true },
+    { period: '2024', returnPercent: 20, partial: false },
+  ]);
+});
@@ -0,0 +1,107 @@
+/**
+ * Discrete annual return calculations
+ *
+ * Returns year by year, by calendar year or UK tax year, rather than over a
+ * single period - as fund factsheets show them.
+ */
+
+import type { AnnualReturn, AnnualReturnBasis } from '@/types';
+import { getTaxYear } from './dates';
+
+/**
+ * Value of a fund (its price) or the portfolio (a growth index) on a date
+ */
+interface ValuePoint {
+  date: string;
+  value: number;
+}
+
+/**
+ * Label of the calendar year or tax year an ISO date falls in
+ *
+ * @example
+ * getAnnualPeriod('2025-04-05', 'calendar') // "2025"
+ * getAnnualPeriod('2025-04-05', 'tax') // "2024-25"
+ */
+export function getAnnualPeriod(date: string, basis: AnnualReturnBasis): string {
+  return basis === 'calendar' ? date.slice(0, 4) : getTaxYear(date);
+}
+
+// Calendar or tax year starting in a year, e.g. 2024 is "2024" or "2024-25"
+function getPeriodStarting(year: number, basis: AnnualReturnBasis): string {
+  return basis === 'calendar' ? String(year) : getTaxYear(`${year}-04-06`);
+}
+
+// ISO date a calendar year (31 December) or tax year (5 April) ends on
+function getPeriodEnd(period: string, basis: AnnualReturnBasis): string {
+  const startYear = Number(period.slice(0, 4));
+  return basis === 'calendar' ? `${startYear}-12-31` : `${startYear + 1}-04-05`;
+}
+
+/**
+ * Return over each year a series covers
+ *
+ * Each year runs from the last value in the year before to the last value
+ * in the year. The first year starts from its first value instead, so is
+ * marked partial, as is the last year unless the series reaches its last
+ * day. A year with no values is a gap with no return, and the year after it
+ * starts from its own first value.
+ *
+ * @param series - Prices or a growth index, in date order
+ * @param basis - Calendar years or tax years (6 April)
+ * @returns Return for each year, oldest first
+ *
+ * @example
+ * calculateAnnualReturns(
+ *   [{ date: '2021-06-01', value: 90 }, { date: '2023-06-01', value: 100 }, { date: '2023-12-29', value: 110 }, { date: '2024-12-31', value: 121 }],
+ *   'calendar'
+ * );
+ * // [
+ * //   { period: '2021', returnPercent: 0, partial: true },
+ * //   { period: '2022', returnPercent: null, partial: false },
+ * //   { period: '2023', returnPercent: 10, partial: true },
+ * //   { period: '2024', returnPercent: 10, partial: false },
+ * // ]
+ */
+export function calculateAnnualReturns(series: ValuePoint[], basis: AnnualReturnBasis): AnnualReturn[] {
+  // Opening and closing values of each year, in order. Gaps have neither.
+  const years: Array<{ period: string; open: number; close: number; partial: boolean } | { period: string; gap: true }> = [];
+  let current: { period: string; open: number; close: number; partial: boolean } | undefined;
+
+  for (const point of series) {
+    const period = getAnnualPeriod(point.date, basis);
+
+    if (current?.period === period) {
+      current.close = point.value;
+      continue;
+    }
+
+    const startYear = Number(period.slice(0, 4));
+    const previousYear = current ? Number(current.period.slice(0, 4)) : startYear - 1;
+    for (let year = previousYear + 1; year < startYear; year++) {
+      years.push({ period: getPeriodStarting(year, basis), gap: true });
+    }
+
+    // Carry on from the year before only if there's no gap
+    const follows = current !== undefined && previousYear === startYear - 1;
+    current = {
+      period,
+      open: current && follows ? current.close : point.value,
+      close: point.value,
+      partial: !follows,
+    };
+    years.push(current);
+  }
+
+  if (current && series[series.length - 1].date < getPeriodEnd(current.period, basis)) {
+    current.partial = true;
+  }
+
+  return years
+    .filter((y) => 'gap' in y || y.open > 0)
+    .map((y) =>
+      'gap' in y
+        ? { period: y.period, returnPercent: null, partial: false }
+        : { period: y.period, returnPercent: (y.close / y.open - 1) * 100, partial: y.partial }
+    );
+}
@@ -0,0 +1,146 @@
+/**
+ * Benchmark comparison calculations
+ */
+
+import type { CashFlow, PricePoint } from '@/types';
+
+/**
+ * Key a benchmark's values are stored under in chart data, alongside fund symbols
+ */
+export const BENCHMARK_KEY = 'benchmark';
+
+/**
+ * Tidy a benchmark symbol as typed by the user
+ *
+ * @returns The upper-cased symbol, or null if it's blank or not a symbol
+ *
+ * @example
+ * normaliseBenchmarkSymbol(' vwrl ') // "VWRL"
+ * normaliseBenchmarkSymbol('^ftse') // "^FTSE"
+ */
+export function normaliseBenchmarkSymbol(input: string): string | null {
+  const symbol = input.trim().toUpperCase();
+  return /^\^?[A-Z0-9][A-Z0-9.=-]*$/.test(symbol) ? symbol : null;
+}
+
+/**
+ * A benchmark's growth since its first price, as a percentage, on each date
+ *
+ * Days the benchmark didn't trade use its last price. Dates before its first
+ * price are left out.
+ *
+ * @param prices - Benchmark prices in date order
+ * @param dates - Dates to measure on, in order
+ * @returns Cumulative growth by date
+ *
+ * @example
+ * getBenchmarkGrowth(
+ *   [{ date: '2024-01-02', price: 100 }, { date: '2024-01-04', price: 110 }],
+ *   ['2024-01-01', '2024-01-03', '2024-01-05']
+ * );
+ * // Map { '2024-01-03' => 0, '2024-01-05' => 10 }
+ */
+export function getBenchmarkGrowth(prices: PricePoint[], dates: string[]): Map<string, number> {
+  const growth = new Map<string, number>();
+  if (prices.length === 0) return growth;
+
+  const basePrice = prices[0].price;
+  let index = 0;
+  let lastPrice: number | undefined;
+
+  for (const date of dates) {
+    while (index < prices.length && prices[index].date <= date) {
+      lastPrice = prices[index].price;
+      index++;
+    }
+    if (lastPrice !== undefined) {
+      growth.set(date, (lastPrice / basePrice - 1) * 100);
+    }
+  }
+
+  return growth;
+}
+
+/**
+ * Add a benchmark's growth to percentage chart data under BENCHMARK_KEY, so
+ * rebasePercentageData rebases it along with everything else
+ *
+ * @param data - Chart data in date order
+ * @param prices - Benchmark prices in date order
+ */
+export function addBenchmarkGrowth<T extends { date: string }>(
+  data: T[],
+  prices: PricePoint[]
+): Array<T & { [BENCHMARK_KEY]?: number }> {
+  const growth = getBenchmarkGrowth(prices, data.map((d) => d.date));
+  return data.map((d) => (growth.has(d.date) ? { ...d, [BENCHMARK_KEY]: growth.get(d.date) } : d));
+}
+
+/**
+ * What a portfolio would have been worth tracking a benchmark instead: its
+ * value on the first date, and every cash flow after it, invested in the
+ * benchmark on the day
+ *
+ * @param series - Value over time, in date order
+ * @param flows - Cash flows aligned to series dates (positive = money in)
+ * @param prices - Benchmark prices in date order
+ * @returns Benchmark value on each date it has a price for
+ *
+ * @example
+ * simulateBenchmarkValue(
+ *   [{ date: '2024-01-01', value: 1000 }, { date: '2024-02-01', value: 1600 }],
+ *   [{ date: '2024-02-01', amount: 500 }],
+ *   [{ date: '2024-01-01', price: 10 }, { date: '2024-02-01', price: 11 }]
+ * );
+ * // [{ date: '2024-01-01', value: 1000 }, { date: '2024-02-01', value: 1600 }]
+ */
+export function simulateBenchmarkValue(
+  series: Array<{ date: string; value: number }>,
+  flows: CashFlow[],
+  prices: PricePoint[]
+): Array<{ date: string; value: number }> {
+  const growth = getBenchmarkGrowth(prices, series.map((p) => p.date));
+  const sortedFlows = [...flows].sort((a, b) => a.date.localeCompare(b.date));
+
+  const simulated: Array<{ date: string; value: number }> = [];
+  let units: number | null = null;
+  let flowIndex = 0;
+
+  for (const point of series) {
+    const pointGrowth = growth.get(point.date);
+    if (pointGrowth === undefined) continue;
+
+    // Flows up to this date, since the last one (the first value already includes them)
+    let flowed = 0;
+    while (flowIndex < sortedFlows.length && sortedFlows[flowIndex].date <= point.date) {
+      flowed += sortedFlows[flowIndex].amount;
+      flowIndex++;
+    }
+
+    const price = 1 + pointGrowth / 100;
+    units = units === null ? point.value / price : units + flowed / price;
+    simulated.push({ date: point.date, value: units * price });
+  }
+
+  return simulated;
+}
+
+/**
+ * A benchmark's return between the first and last of some dates, as a
+ * percentage
+ *
+ * @param prices - Benchmark prices in date order
+ * @param dates - Dates in the period, in order
+ * @returns The return, or null if the benchmark has no prices for the period
+ *
+ * @example
+ * getBenchmarkReturn(
+ *   [{ date: '2024-01-01', price: 100 }, { date: '2024-06-01', price: 110 }],
+ *   ['2024-03-01', '2024-07-01']
+ * ); // 10
+ */
+export function getBenchmarkReturn(prices: PricePoint[], dates: string[]): number | null {
+  const growth = Array.from(getBenchmarkGrowth(prices, dates).values());
+  if (growth.length === 0) return null;
+  return ((1 + growth[growth.length - 1] / 100) / (1 + growth[0] / 100) - 1) * 100;
+}
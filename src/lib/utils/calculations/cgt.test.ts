@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateCapitalGains } from './cgt';
+
+const buy = (date: string, units: number, cost: number) => ({ date, symbol: 'FUND', type: 'buy', units, total: -cost });
+const sell = (date: string, units: number, proceeds: number) => ({ date, symbol: 'FUND', type: 'sell', units: -units, total: proceeds });
+
+test('matches a sale with units bought the same day first', () => {
+  const [disposal] = calculateCapitalGains([
+    buy('2023-01-03', 100, 100),
+    sell('2024-05-01', 50, 150),
+    buy('2024-05-01', 50, 110),
+  ]);
+
+  assert.deepEqual(disposal.matches, [{ rule: 'same-day', units: 50, cost: 110, acquisitionDate: '2024-05-01' }]);
+  assert.equal(disposal.gain, 40);
+});
+
+test('matches units bought back within 30 days, but not on day 31', () => {
+  const [disposal] = calculateCapitalGains([
+    buy('2023-01-03', 200, 200),
+    sell('2024-06-01', 100, 300),
+    buy('2024-07-01', 40, 120),
+    buy('2024-07-02', 10, 35),
+  ]);
+
+  assert.deepEqual(disposal.matches, [
+    { rule: 'bed-and-breakfast', units: 40, cost: 120, acquisitionDate: '2024-07-01' },
+    { rule: 'section-104', units: 60, cost: 60 },
+  ]);
+  assert.equal(disposal.allowableCost, 180);
+});
+
+test('sells from the pool at its average cost after earlier part disposals', () => {
+  const disposals = calculateCapitalGains([
+    buy('2020-01-02', 100, 100),
+    buy('2021-01-04', 100, 300),
+    sell('2022-03-01', 50, 150),
+    buy('2022-06-01', 50, 200),
+    sell('2023-01-03', 100, 300),
+  ]);
+
+  // 200 units for 400, then 150 for 300 plus 50 for 200: 200 units for 500
+  assert.deepEqual(
+    disposals.map((d) => ({ date: d.date, allowableCost: d.allowableCost, gain: d.gain })),
+    [
+      { date: '2022-03-01', allowableCost: 100, gain: 50 },
+      { date: '2023-01-03', allowableCost: 250, gain: 50 },
+    ]
+  );
+});
+
+test('reports units sold with no acquisition on record as unmatched at nil cost', () => {
+  const [disposal] = calculateCapitalGains([
+    buy('2024-01-02', 5, 10),
+    sell('2024-09-02', 10, 50),
+  ]);
+
+  assert.deepEqual(disposal.matches, [{ rule: 'section-104', units: 5, cost: 10 }]);
+  assert.equal(disposal.unmatchedUnits, 5);
+  assert.equal(disposal.gain, 40);
+});
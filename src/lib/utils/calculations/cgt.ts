@@ -0,0 +1,239 @@
+/**
+ * UK Capital Gains Tax calculations
+ *
+ * Disposals are matched against acquisitions of the same fund using the
+ * HMRC share matching rules, in order:
+ *   1. Same day - acquisitions on the day of the disposal
+ *   2. Bed and breakfast - acquisitions in the 30 days after the disposal (earliest first)
+ *   3. Section 104 - the pool of all other acquisitions, at average cost
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import type { CgtDisposal, CgtMatch, CgtTaxYearReport } from '@/types';
+import type { LedgerTransaction } from './ledger';
+import { getTaxYear, getTaxYearRange } from './dates';
+
+/**
+ * Annual exempt amount by tax year
+ */
+export const ANNUAL_EXEMPT_AMOUNTS: Record<string, number> = {
+  '2020-21': 12300,
+  '2021-22': 12300,
+  '2022-23': 12300,
+  '2023-24': 6000,
+  '2024-25': 3000,
+  '2025-26': 3000,
+  '2026-27': 3000,
+};
+
+/**
+ * Transaction shape needed for CGT (a ledger transaction with the fund name)
+ */
+export interface CgtTransaction extends LedgerTransaction {
+  fund_name?: string;
+}
+
+/**
+ * Acquisitions and disposals of one fund on one day
+ */
+interface TradingDay {
+  date: string;
+  name: string;
+  boughtUnits: number;
+  boughtCost: number;
+  soldUnits: number;
+  soldProceeds: number;
+  // Units still to be matched after each rule has been applied
+  buyRemaining: number;
+  sellRemaining: number;
+  matches: CgtMatch[];
+}
+
+function groupTradingDays(transactions: CgtTransaction[]): Map<string, TradingDay[]> {
+  const bySymbol = new Map<string, Map<string, TradingDay>>();
+
+  for (const tx of transactions) {
+    if (tx.type !== 'buy' && tx.type !== 'sell') continue;
+
+    const units = Math.abs(tx.units ?? 0);
+    if (units === 0) continue;
+
+    const days = bySymbol.get(tx.symbol) ?? new Map<string, TradingDay>();
+    const day = days.get(tx.date) ?? {
+      date: tx.date,
+      name: tx.fund_name || tx.symbol,
+      boughtUnits: 0,
+      boughtCost: 0,
+      soldUnits: 0,
+      soldProceeds: 0,
+      buyRemaining: 0,
+      sellRemaining: 0,
+      matches: [],
+    };
+
+    if (tx.type === 'buy') {
+      day.boughtUnits += units;
+      day.boughtCost += Math.abs(tx.total);
+    } else {
+      day.soldUnits += units;
+      day.soldProceeds += Math.abs(tx.total);
+    }
+
+    days.set(tx.date, day);
+    bySymbol.set(tx.symbol, days);
+  }
+
+  const result = new Map<string, TradingDay[]>();
+  bySymbol.forEach((days, symbol) => {
+    const sorted = Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+    for (const day of sorted) {
+      day.buyRemaining = day.boughtUnits;
+      day.sellRemaining = day.soldUnits;
+    }
+    result.set(symbol, sorted);
+  });
+
+  return result;
+}
+
+// Cost of part of a day's acquisitions, at that day's average price
+function acquisitionCost(day: TradingDay, units: number): number {
+  return day.boughtUnits > 0 ? (day.boughtCost * units) / day.boughtUnits : 0;
+}
+
+function matchSymbol(days: TradingDay[]): void {
+  // Rule 1: same day
+  for (const day of days) {
+    const units = Math.min(day.buyRemaining, day.sellRemaining);
+    if (units <= 0) continue;
+
+    day.matches.push({
+      rule: 'same-day',
+      units,
+      cost: acquisitionCost(day, units),
+      acquisitionDate: day.date,
+    });
+    day.buyRemaining -= units;
+    day.sellRemaining -= units;
+  }
+
+  // Rule 2: acquisitions in the following 30 days, earliest first
+  for (let i = 0; i < days.length; i++) {
+    const disposal = days[i];
+    if (disposal.sellRemaining <= 0) continue;
+
+    const windowEnd = format(addDays(parseISO(disposal.date), 30), 'yyyy-MM-dd');
+
+    for (let j = i + 1; j < days.length && days[j].date <= windowEnd; j++) {
+      const acquisition = days[j];
+      const units = Math.min(acquisition.buyRemaining, disposal.sellRemaining);
+      if (units <= 0) continue;
+
+      disposal.matches.push({
+        rule: 'bed-and-breakfast',
+        units,
+        cost: acquisitionCost(acquisition, units),
+        acquisitionDate: acquisition.date,
+      });
+      acquisition.buyRemaining -= units;
+      disposal.sellRemaining -= units;
+
+      if (disposal.sellRemaining <= 0) break;
+    }
+  }
+
+  // Rule 3: Section 104 pool, processed in date order
+  let poolUnits = 0;
+  let poolCost = 0;
+
+  for (const day of days) {
+    if (day.buyRemaining > 0) {
+      poolUnits += day.buyRemaining;
+      poolCost += acquisitionCost(day, day.buyRemaining);
+      day.buyRemaining = 0;
+    }
+
+    if (day.sellRemaining > 0 && poolUnits > 0) {
+      const units = Math.min(day.sellRemaining, poolUnits);
+      const cost = (poolCost * units) / poolUnits;
+
+      day.matches.push({ rule: 'section-104', units, cost });
+      poolUnits -= units;
+      poolCost -= cost;
+      day.sellRemaining -= units;
+    }
+  }
+}
+
+/**
+ * Calculate realised gains and losses for every disposal
+ *
+ * Proceeds and costs are taken from the transaction totals, so dealing
+ * charges included by ii are already allowed for. Sales with no matching
+ * acquisition on record (e.g. history imported from part-way through) are
+ * reported with `unmatchedUnits` and a nil cost for those units.
+ *
+ * @param transactions - Transactions in any order (only buys and sells are used)
+ * @returns Disposals in date order
+ */
+export function calculateCapitalGains(transactions: CgtTransaction[]): CgtDisposal[] {
+  const disposals: CgtDisposal[] = [];
+
+  groupTradingDays(transactions).forEach((days, symbol) => {
+    matchSymbol(days);
+
+    for (const day of days) {
+      if (day.soldUnits <= 0) continue;
+
+      const allowableCost = day.matches.reduce((sum, m) => sum + m.cost, 0);
+      disposals.push({
+        date: day.date,
+        taxYear: getTaxYear(day.date),
+        symbol,
+        name: day.name,
+        units: day.soldUnits,
+        proceeds: day.soldProceeds,
+        allowableCost,
+        gain: day.soldProceeds - allowableCost,
+        matches: day.matches,
+        unmatchedUnits: day.sellRemaining,
+      });
+    }
+  });
+
+  return disposals.sort((a, b) => a.date.localeCompare(b.date) || a.symbol.localeCompare(b.symbol));
+}
+
+/**
+ * Summarise disposals for a single UK tax year
+ *
+ * @param disposals - Disposals from calculateCapitalGains
+ * @param taxYear - Tax year label (e.g., "2024-25")
+ * @returns Tax year report, or null if the label is invalid
+ */
+export function summariseTaxYear(disposals: CgtDisposal[], taxYear: string): CgtTaxYearReport | null {
+  const range = getTaxYearRange(taxYear);
+  if (!range) return null;
+
+  const yearDisposals = disposals.filter((d) => d.taxYear === taxYear);
+  const totalProceeds = yearDisposals.reduce((sum, d) => sum + d.proceeds, 0);
+  const totalAllowableCost = yearDisposals.reduce((sum, d) => sum + d.allowableCost, 0);
+  const totalGains = yearDisposals.reduce((sum, d) => sum + Math.max(d.gain, 0), 0);
+  const totalLosses = yearDisposals.reduce((sum, d) => sum + Math.min(d.gain, 0), 0);
+  const netGain = totalGains + totalLosses;
+  const annualExemptAmount = ANNUAL_EXEMPT_AMOUNTS[taxYear] ?? null;
+
+  return {
+    taxYear,
+    startDate: range.start,
+    endDate: range.end,
+    disposals: yearDisposals,
+    totalProceeds,
+    totalAllowableCost,
+    totalGains,
+    totalLosses,
+    netGain,
+    annualExemptAmount,
+    taxableGain: annualExemptAmount !== null ? Math.max(netGain - annualExemptAmount, 0) : null,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Correlation between funds' returns
+ */
+
+import { format, parseISO, startOfWeek } from 'date-fns';
+import type { FundCorrelationPair, PricePoint, ReturnFrequency } from '@/types';
+
+/**
+ * Fewest returns a correlation is worked out from
+ */
+export const MIN_CORRELATION_OBSERVATIONS = 10;
+
+/**
+ * Pearson correlation of two equal-length lists
+ *
+ * @returns Correlation from -1 to 1, or null if either list doesn't vary
+ *
+ * @example
+ * pearsonCorrelation([1, 2, 3], [2, 4, 7]); // 0.99
+ */
+export function pearsonCorrelation(x: number[], y: number[]): number | null {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return null;
+
+  const meanX = x.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+  const meanY = y.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) ** 2;
+    varianceY += (y[i] - meanY) ** 2;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Returns of two price series over the dates both have a price for
+ *
+ * Weekly returns use the last shared price in each week (weeks start on
+ * Monday), which smooths out funds priced at different times of day.
+ *
+ * @param a - First price series, in date order
+ * @param b - Second price series, in date order
+ * @param frequency - Sample every shared date, or once a week
+ * @returns Matching lists of returns
+ */
+export function alignReturns(
+  a: PricePoint[],
+  b: PricePoint[],
+  frequency: ReturnFrequency = 'daily'
+): { a: number[]; b: number[] } {
+  const pricesB = new Map(b.map((p) => [p.date, p.price]));
+  let shared = a
+    .filter((p) => pricesB.has(p.date))
+    .map((p) => ({ date: p.date, a: p.price, b: pricesB.get(p.date)! }));
+
+  if (frequency === 'weekly') {
+    const byWeek = new Map<string, (typeof shared)[number]>();
+    for (const point of shared) {
+      byWeek.set(format(startOfWeek(parseISO(point.date), { weekStartsOn: 1 }), 'yyyy-MM-dd'), point);
+    }
+    shared = Array.from(byWeek.values());
+  }
+
+  const returns = { a: [] as number[], b: [] as number[] };
+  for (let i = 1; i < shared.length; i++) {
+    if (shared[i - 1].a <= 0 || shared[i - 1].b <= 0) continue;
+    returns.a.push(shared[i].a / shared[i - 1].a - 1);
+    returns.b.push(shared[i].b / shared[i - 1].b - 1);
+  }
+  return returns;
+}
+
+/**
+ * Correlation of returns between every pair of funds
+ *
+ * Each pair is compared over the dates both have prices for, so a fund with
+ * a short history doesn't cut the window for the others.
+ *
+ * @param funds - Each fund's symbol and prices in date order (already cut to the window)
+ * @param frequency - Daily or weekly returns
+ * @returns One entry per pair, in the order given
+ *
+ * @example
+ * calculateCorrelationMatrix([
+ *   { symbol: 'VWRL', prices: vwrlPrices },
+ *   { symbol: 'IWRD', prices: iwrdPrices },
+ * ], 'weekly');
+ * // [{ fundA: 'VWRL', fundB: 'IWRD', correlation: 0.97, observations: 52 }]
+ */
+export function calculateCorrelationMatrix(
+  funds: Array<{ symbol: string; prices: PricePoint[] }>,
+  frequency: ReturnFrequency = 'daily'
+): FundCorrelationPair[] {
+  const pairs: FundCorrelationPair[] = [];
+
+  for (let i = 0; i < funds.length; i++) {
+    for (let j = i + 1; j < funds.length; j++) {
+      const returns = alignReturns(funds[i].prices, funds[j].prices, frequency);
+      const observations = returns.a.length;
+      pairs.push({
+        fundA: funds[i].symbol,
+        fundB: funds[j].symbol,
+        correlation: observations >= MIN_CORRELATION_OBSERVATIONS ? pearsonCorrelation(returns.a, returns.b) : null,
+        observations,
+      });
+    }
+  }
+
+  return pairs;
+}
@@ -90,3 +90,75 @@ export function rebasePercentageData<T extends Record<string, any>>(
     return rebasedEntry as T & { date: string };
   });
 }
+
+/**
+ * Get the start of the UK tax year (6 April) containing a date
+ *
+ * @param date - Date to look up (default today)
+ * @returns 6 April of the tax year the date falls in
+ *
+ * @example
+ * getFinancialYearStart(new Date(2025, 0, 10)) // 6 April 2024
+ * getFinancialYearStart(new Date(2025, 3, 6)) // 6 April 2025
+ */
+export function getFinancialYearStart(date: Date = new Date()): Date {
+  const year = date.getFullYear();
+  const aprilSixth = new Date(year, 3, 6); // Month is 0-indexed
+
+  // If we're before April 6th, the financial year started last year
+  if (date < aprilSixth) {
+    return new Date(year - 1, 3, 6);
+  }
+  return aprilSixth;
+}
+
+/**
+ * Get the UK tax year label for an ISO date
+ *
+ * @param dateStr - ISO date string (YYYY-MM-DD)
+ * @returns Tax year label (e.g., "2024-25")
+ *
+ * @example
+ * getTaxYear('2025-04-05') // "2024-25"
+ * getTaxYear('2025-04-06') // "2025-26"
+ */
+export function getTaxYear(dateStr: string): string {
+  const startYear = getFinancialYearStart(new Date(dateStr + 'T00:00:00')).getFullYear();
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Get the first and last dates of a UK tax year
+ *
+ * @param taxYear - Tax year label (e.g., "2024-25")
+ * @returns ISO start (6 April) and end (5 April) dates, or null if the label is invalid
+ *
+ * @example
+ * getTaxYearRange('2024-25') // { start: '2024-04-06', end: '2025-04-05' }
+ */
+export function getTaxYearRange(taxYear: string): { start: string; end: string } | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(taxYear);
+  if (!match) return null;
+
+  const startYear = Number(match[1]);
+  if ((startYear + 1) % 100 !== Number(match[2])) return null;
+
+  return { start: `${startYear}-04-06`, end: `${startYear + 1}-04-05` };
+}
+
+/**
+ * Check a string is a real calendar date in ISO format
+ *
+ * @param value - Value to check
+ * @returns Whether it's a YYYY-MM-DD date that exists
+ *
+ * @example
+ * isIsoDate('2024-02-29') // true
+ * isIsoDate('2023-02-29') // false
+ * isIsoDate('29/02/2024') // false
+ */
+export function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
@@ -0,0 +1,333 @@
+/**
+ * Look-through exposure calculations
+ */
+
+import type { ExposureBreakdown, ExposureSlice, FundHolding } from '@/types';
+
+// Label for the part of the portfolio whose exposure isn't known
+export const UNKNOWN_EXPOSURE = 'Unknown';
+
+const EUROZONE = [
+  'AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK',
+];
+
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  ...Object.fromEntries(EUROZONE.map((code) => [code, 'EUR'])),
+  US: 'USD',
+  GB: 'GBP',
+  JP: 'JPY',
+  CH: 'CHF',
+  CA: 'CAD',
+  AU: 'AUD',
+  HK: 'HKD',
+  CN: 'CNY',
+  TW: 'TWD',
+  KR: 'KRW',
+  IN: 'INR',
+  SG: 'SGD',
+  SE: 'SEK',
+  DK: 'DKK',
+  NO: 'NOK',
+  BR: 'BRL',
+  ZA: 'ZAR',
+};
+
+// Providers give countries as names rather than codes
+const COUNTRY_CODES: Record<string, string> = {
+  'united states': 'US',
+  'united states of america': 'US',
+  usa: 'US',
+  'united kingdom': 'GB',
+  uk: 'GB',
+  'great britain': 'GB',
+  japan: 'JP',
+  switzerland: 'CH',
+  canada: 'CA',
+  australia: 'AU',
+  'hong kong': 'HK',
+  china: 'CN',
+  taiwan: 'TW',
+  'south korea': 'KR',
+  korea: 'KR',
+  india: 'IN',
+  singapore: 'SG',
+  sweden: 'SE',
+  denmark: 'DK',
+  norway: 'NO',
+  brazil: 'BR',
+  'south africa': 'ZA',
+  austria: 'AT',
+  belgium: 'BE',
+  cyprus: 'CY',
+  germany: 'DE',
+  estonia: 'EE',
+  spain: 'ES',
+  finland: 'FI',
+  france: 'FR',
+  greece: 'GR',
+  croatia: 'HR',
+  ireland: 'IE',
+  italy: 'IT',
+  lithuania: 'LT',
+  luxembourg: 'LU',
+  latvia: 'LV',
+  malta: 'MT',
+  netherlands: 'NL',
+  portugal: 'PT',
+  slovenia: 'SI',
+  slovakia: 'SK',
+};
+
+// Regions countries are grouped into; anywhere else is 'Other'
+const COUNTRY_REGIONS: Record<string, string> = {
+  US: 'North America',
+  CA: 'North America',
+  GB: 'United Kingdom',
+  ...Object.fromEntries(
+    [...EUROZONE, 'CH', 'SE', 'DK', 'NO'].map((code) => [code, 'Europe ex UK'])
+  ),
+  JP: 'Japan',
+  AU: 'Asia Pacific ex Japan',
+  HK: 'Asia Pacific ex Japan',
+  SG: 'Asia Pacific ex Japan',
+  CN: 'Emerging Markets',
+  TW: 'Emerging Markets',
+  KR: 'Emerging Markets',
+  IN: 'Emerging Markets',
+  BR: 'Emerging Markets',
+  ZA: 'Emerging Markets',
+};
+
+// Providers use GICS or Morningstar sector names; use Morningstar's throughout
+const SECTOR_NAMES: Record<string, string> = {
+  'information technology': 'Technology',
+  technology: 'Technology',
+  financials: 'Financial Services',
+  'financial services': 'Financial Services',
+  'health care': 'Healthcare',
+  healthcare: 'Healthcare',
+  'consumer discretionary': 'Consumer Cyclical',
+  'consumer cyclical': 'Consumer Cyclical',
+  'consumer staples': 'Consumer Defensive',
+  'consumer defensive': 'Consumer Defensive',
+  materials: 'Basic Materials',
+  'basic materials': 'Basic Materials',
+  'communication services': 'Communication Services',
+  communication: 'Communication Services',
+  industrials: 'Industrials',
+  energy: 'Energy',
+  utilities: 'Utilities',
+  'real estate': 'Real Estate',
+};
+
+// Yahoo Finance exchange suffixes; US listings have none
+const EXCHANGE_CURRENCIES: Record<string, string> = {
+  L: 'GBP',
+  T: 'JPY',
+  PA: 'EUR',
+  DE: 'EUR',
+  F: 'EUR',
+  AS: 'EUR',
+  MI: 'EUR',
+  MC: 'EUR',
+  BR: 'EUR',
+  HE: 'EUR',
+  IR: 'EUR',
+  SW: 'CHF',
+  TO: 'CAD',
+  AX: 'AUD',
+  HK: 'HKD',
+  SS: 'CNY',
+  SZ: 'CNY',
+  TW: 'TWD',
+  KS: 'KRW',
+  NS: 'INR',
+  SI: 'SGD',
+  ST: 'SEK',
+  CO: 'DKK',
+  OL: 'NOK',
+  SA: 'BRL',
+  JO: 'ZAR',
+};
+
+/**
+ * Get the currency of a country, given as an ISO code or a name
+ *
+ * @returns The currency code, or null for countries we don't know
+ *
+ * @example
+ * getCountryCurrency('United States') // "USD"
+ * getCountryCurrency('DE') // "EUR"
+ */
+export function getCountryCurrency(country: string): string | null {
+  const code = getCountryCode(country);
+  return (code && COUNTRY_CURRENCIES[code]) || null;
+}
+
+// ISO code of a country given as a code or a name we know. Names come
+// first, as "UK" isn't the ISO code for the United Kingdom (GB).
+function getCountryCode(country: string): string | null {
+  const trimmed = country.trim();
+  return COUNTRY_CODES[trimmed.toLowerCase()] ?? (trimmed.length === 2 ? trimmed.toUpperCase() : null);
+}
+
+/**
+ * Get the trading currency of a Yahoo Finance symbol from its exchange suffix
+ *
+ * @example
+ * getTickerCurrency('AAPL') // "USD"
+ * getTickerCurrency('7203.T') // "JPY"
+ */
+export function getTickerCurrency(yahooSymbol: string): string | null {
+  const dot = yahooSymbol.lastIndexOf('.');
+  if (dot === -1) return 'USD';
+  return EXCHANGE_CURRENCIES[yahooSymbol.slice(dot + 1).toUpperCase()] ?? null;
+}
+
+/**
+ * Work out the currency an underlying holding is exposed to: its own
+ * currency if the provider gave one, otherwise its country's, otherwise the
+ * country its ISIN was issued in
+ *
+ * @returns The currency code, or null if there's nothing to go on
+ */
+export function getHoldingCurrency(holding: FundHolding): string | null {
+  if (holding.currency) return holding.currency.toUpperCase();
+  if (holding.country) {
+    const currency = getCountryCurrency(holding.country);
+    if (currency) return currency;
+  }
+  if (holding.isin && holding.isin.length >= 2) {
+    return getCountryCurrency(holding.isin.slice(0, 2));
+  }
+  return null;
+}
+
+/**
+ * Work out the region an underlying holding is listed in: from its country
+ * if the provider gave one, otherwise the country its ISIN was issued in
+ *
+ * @returns The region name, or null if there's nothing to go on
+ *
+ * @example
+ * getHoldingRegion({ name: 'Nestle', country: 'Switzerland', weightPercent: 1 }) // "Europe ex UK"
+ */
+export function getHoldingRegion(holding: FundHolding): string | null {
+  const code = holding.country
+    ? getCountryCode(holding.country)
+    : holding.isin && holding.isin.length >= 2
+      ? holding.isin.slice(0, 2).toUpperCase()
+      : null;
+  if (code === null) return holding.country ? 'Other' : null;
+  return COUNTRY_REGIONS[code] ?? 'Other';
+}
+
+/**
+ * Get an underlying holding's sector under one naming scheme
+ *
+ * @returns The sector, or null if the provider didn't give one
+ *
+ * @example
+ * getHoldingSector({ name: 'Apple', sector: 'Information Technology', weightPercent: 5 }) // "Technology"
+ */
+export function getHoldingSector(holding: FundHolding): string | null {
+  const sector = holding.sector?.trim();
+  if (!sector) return null;
+  return SECTOR_NAMES[sector.toLowerCase()] ?? sector;
+}
+
+/**
+ * Break a portfolio down by some property of its funds' underlying
+ * holdings, weighted by each fund's market value
+ *
+ * Providers often list only a fund's top holdings, so each fund is split in
+ * proportion to the holdings that can be classified. Funds with no
+ * classified holdings count as unknown.
+ *
+ * @param funds - Each fund's market value and latest underlying holdings
+ * @param classify - The slice a holding belongs in, or null if not known
+ * @returns Slices (largest first, unknown last) and the share of the portfolio they're based on
+ */
+export function calculateExposure(
+  funds: Array<{ marketValue: number; holdings: FundHolding[] }>,
+  classify: (holding: FundHolding) => string | null
+): ExposureBreakdown {
+  const totals = new Map<string, number>();
+  const add = (name: string, value: number) => totals.set(name, (totals.get(name) ?? 0) + value);
+
+  let totalValue = 0;
+  let coveredValue = 0;
+
+  for (const fund of funds) {
+    totalValue += fund.marketValue;
+
+    const classified = fund.holdings
+      .filter((h) => h.weightPercent > 0)
+      .map((h) => ({ name: classify(h), weight: h.weightPercent }))
+      .filter((h): h is { name: string; weight: number } => h.name !== null);
+    const classifiedWeight = classified.reduce((sum, h) => sum + h.weight, 0);
+
+    if (classifiedWeight === 0) {
+      add(UNKNOWN_EXPOSURE, fund.marketValue);
+      continue;
+    }
+
+    coveredValue += fund.marketValue;
+    for (const h of classified) {
+      add(h.name, (fund.marketValue * h.weight) / classifiedWeight);
+    }
+  }
+
+  const slices: ExposureSlice[] = Array.from(totals, ([name, value]) => ({
+    name,
+    value,
+    percentage: totalValue > 0 ? (value / totalValue) * 100 : 0,
+  })).sort(
+    (a, b) =>
+      Number(a.name === UNKNOWN_EXPOSURE) - Number(b.name === UNKNOWN_EXPOSURE) || b.value - a.value
+  );
+
+  return {
+    slices,
+    coveragePercent: totalValue > 0 ? (coveredValue / totalValue) * 100 : 0,
+  };
+}
+
+/**
+ * Break a portfolio down by the currencies its funds' underlying holdings are
+ * exposed to, weighted by each fund's market value
+ *
+ * @example
+ * calculateCurrencyExposure([
+ *   { marketValue: 1000, holdings: [
+ *     { name: 'Apple', weightPercent: 5, currency: 'USD' },
+ *     { name: 'Shell', weightPercent: 5, country: 'United Kingdom' },
+ *   ] },
+ * ]);
+ * // { slices: [{ name: 'USD', value: 500, percentage: 50 }, { name: 'GBP', value: 500, percentage: 50 }], coveragePercent: 100 }
+ */
+export function calculateCurrencyExposure(
+  funds: Array<{ marketValue: number; holdings: FundHolding[] }>
+): ExposureBreakdown {
+  return calculateExposure(funds, getHoldingCurrency);
+}
+
+/**
+ * Break a portfolio (or a single fund) down by the sectors of its underlying
+ * holdings
+ */
+export function calculateSectorExposure(
+  funds: Array<{ marketValue: number; holdings: FundHolding[] }>
+): ExposureBreakdown {
+  return calculateExposure(funds, getHoldingSector);
+}
+
+/**
+ * Break a portfolio (or a single fund) down by the regions its underlying
+ * holdings are listed in
+ */
+export function calculateRegionExposure(
+  funds: Array<{ marketValue: number; holdings: FundHolding[] }>
+): ExposureBreakdown {
+  return calculateExposure(funds, getHoldingRegion);
+}
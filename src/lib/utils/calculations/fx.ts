@@ -0,0 +1,107 @@
+/**
+ * Currency conversion
+ */
+
+import type { FxRatePoint, PricePoint } from '@/types';
+
+/**
+ * Currencies portfolio values can be shown in
+ */
+export const SUPPORTED_CURRENCIES = ['GBP', 'USD', 'EUR'] as const;
+
+/**
+ * Exchange rate on a date, or null if there are no rates at all
+ */
+export type RateLookup = (date: string) => number | null;
+
+/**
+ * Name a currency pair the way FX tickers do
+ *
+ * @example
+ * getCurrencyPair('USD', 'GBP'); // 'USDGBP'
+ */
+export function getCurrencyPair(from: string, to: string): string {
+  return `${from}${to}`;
+}
+
+/**
+ * Split a currency pair named by getCurrencyPair
+ *
+ * @example
+ * parseCurrencyPair('USDGBP'); // { from: 'USD', to: 'GBP' }
+ */
+export function parseCurrencyPair(pair: string): { from: string; to: string } {
+  return { from: pair.slice(0, 3), to: pair.slice(3, 6) };
+}
+
+/**
+ * Build a lookup of the exchange rate on any date
+ *
+ * Markets close at weekends and on holidays, so a date without a rate uses
+ * the latest one before it. Dates before the first rate use the first rate.
+ *
+ * @param rates - Daily rates in date order
+ * @returns Lookup returning the rate for a date (null if `rates` is empty)
+ *
+ * @example
+ * const rateOn = createRateLookup([{ date: '2024-01-05', rate: 0.79 }]);
+ * rateOn('2024-01-06'); // 0.79
+ */
+export function createRateLookup(rates: FxRatePoint[]): RateLookup {
+  return (date: string) => {
+    if (rates.length === 0) return null;
+
+    // Binary search for the last rate on or before the date
+    let low = 0;
+    let high = rates.length - 1;
+    let found = 0;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (rates[mid].date <= date) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return rates[found].rate;
+  };
+}
+
+/**
+ * Convert prices quoted in various currencies into one currency
+ *
+ * @param prices - Prices with the currency each is quoted in
+ * @param currency - Currency to convert into
+ * @param rateLookups - Lookup of rates into `currency`, keyed by the currency converted from
+ * @returns Converted prices; prices with no rate available are left out
+ *
+ * @example
+ * convertPrices(
+ *   [{ date: '2024-01-05', price: 100, currency: 'USD' }],
+ *   'GBP',
+ *   { USD: createRateLookup([{ date: '2024-01-05', rate: 0.79 }]) }
+ * );
+ * // [{ date: '2024-01-05', price: 79 }]
+ */
+export function convertPrices(
+  prices: Array<PricePoint & { currency: string }>,
+  currency: string,
+  rateLookups: Record<string, RateLookup>
+): PricePoint[] {
+  const converted: PricePoint[] = [];
+
+  for (const p of prices) {
+    if (p.currency === currency) {
+      converted.push({ date: p.date, price: p.price });
+      continue;
+    }
+
+    const rate = rateLookups[p.currency]?.(p.date);
+    if (rate != null) {
+      converted.push({ date: p.date, price: p.price * rate });
+    }
+  }
+
+  return converted;
+}
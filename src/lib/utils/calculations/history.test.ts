@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPortfolioHistory } from './history';
+
+const prices = (points: Array<[string, number]>) => points.map(([date, price]) => ({ date, price }));
+
+test('values a fund fully sold before today while it was held', () => {
+  const transactions = [
+    { account_id: 1, date: '2012-03-01', symbol: 'OLD', type: 'buy', units: 100, total: -1000 },
+    { account_id: 1, date: '2019-06-03', symbol: 'OLD', type: 'sell', units: 100, total: 1500 },
+    { account_id: 1, date: '2019-06-04', symbol: 'NEW', type: 'buy', units: 10, total: -1500 },
+  ];
+  const positions = [{ account_id: 1, symbol: 'NEW', quantity: 10, book_cost: 1500 }];
+  const pricesBySymbol = new Map([
+    ['OLD', prices([['2012-03-01', 10], ['2015-01-02', 12], ['2019-06-03', 15]])],
+    ['NEW', prices([['2019-06-04', 150], ['2020-01-02', 160]])],
+  ]);
+
+  const { history, positionSeries } = buildPortfolioHistory(positions, transactions, pricesBySymbol);
+
+  assert.deepEqual(history, [
+    { date: '2012-03-01', value: 1000, invested: 1000 },
+    { date: '2015-01-02', value: 1200, invested: 1000 },
+    { date: '2019-06-04', value: 1500, invested: 1500 },
+    { date: '2020-01-02', value: 1600, invested: 1500 },
+  ]);
+
+  // Sold by the end of 3 June, so the closed position's value lines its sell up with the chart dates
+  assert.deepEqual(positionSeries.get('1:OLD'), [
+    { date: '2012-03-01', value: 1000 },
+    { date: '2015-01-02', value: 1200 },
+    { date: '2019-06-03', value: 0 },
+    { date: '2019-06-04', value: 0 },
+    { date: '2020-01-02', value: 0 },
+  ]);
+});
@@ -0,0 +1,154 @@
+/**
+ * Portfolio value history
+ *
+ * Value every position held over time - including funds since sold - from
+ * its ledger and the fund's prices.
+ */
+
+import type { FundPerformancePoint, PricePoint } from '@/types';
+import type { LedgerTransaction } from './ledger';
+import { buildPositionLedger, getPositionAtDate, getPositionKey } from './ledger';
+
+/**
+ * A position currently held, with today's quantity and book cost used when
+ * it has no transactions
+ */
+export interface HistoryPosition {
+  account_id: number | null;
+  symbol: string;
+  quantity: number;
+  book_cost: number;
+}
+
+export interface PortfolioHistory {
+  /** Total value and amount invested on each date anything was held */
+  history: Array<{ date: string; value: number; invested: number }>;
+  /** Gain on invested as a percentage by fund symbol, on the same dates */
+  fundPerformance: FundPerformancePoint[];
+  /** Value of each position (by getPositionKey) on every date its fund has a price */
+  positionSeries: Map<string, Array<{ date: string; value: number }>>;
+}
+
+/**
+ * Value the portfolio on every date any fund has a price
+ *
+ * Positions come from the transactions, so funds that have since been sold
+ * are valued while they were held. Current positions without any
+ * transactions fall back to today's quantity and book cost. A fund held in
+ * several accounts is one position per account. Missing prices carry the
+ * last known price forward.
+ *
+ * @param positions - Positions held today
+ * @param transactions - Transaction history, in any order
+ * @param prices - Prices by fund symbol, in date order
+ * @returns Portfolio value history, fund gains and each position's value
+ *
+ * @example
+ * const { history, positionSeries } = buildPortfolioHistory(positions, transactions, pricesBySymbol);
+ * // history: [{ date: '2019-01-02', value: 1000, invested: 1000 }, ...]
+ */
+export function buildPortfolioHistory(
+  positions: HistoryPosition[],
+  transactions: LedgerTransaction[],
+  prices: Map<string, PricePoint[]>
+): PortfolioHistory {
+  const ledger = buildPositionLedger(transactions, getPositionKey);
+
+  // Positions held today, plus any traded and since closed
+  const allPositions = [...positions];
+  const known = new Set(positions.map(getPositionKey));
+  for (const tx of transactions) {
+    const key = getPositionKey(tx);
+    if (known.has(key) || !ledger.has(key)) continue;
+    known.add(key);
+    allPositions.push({ account_id: tx.account_id ?? null, symbol: tx.symbol, quantity: 0, book_cost: 0 });
+  }
+
+  const positionsBySymbol = new Map<string, HistoryPosition[]>();
+  for (const position of allPositions) {
+    positionsBySymbol.set(position.symbol, [...(positionsBySymbol.get(position.symbol) ?? []), position]);
+  }
+
+  // Get all unique dates across all funds
+  const allDates = new Set<string>();
+  prices.forEach((points) => points.forEach((p) => allDates.add(p.date)));
+  const sortedDates = Array.from(allDates).sort();
+
+  // Build price lookup maps for each fund
+  const priceLookup = new Map<string, Map<string, number>>();
+  prices.forEach((points, symbol) => {
+    priceLookup.set(symbol, new Map(points.map((p) => [p.date, p.price])));
+  });
+
+  const positionSeries = new Map<string, Array<{ date: string; value: number }>>();
+  const history: PortfolioHistory['history'] = [];
+  const fundPerformance: FundPerformancePoint[] = [];
+
+  // Track last known prices for interpolation
+  const lastPrices = new Map<string, number>();
+
+  for (const date of sortedDates) {
+    let totalValue = 0;
+    let totalInvested = 0;
+    const fundGains: FundPerformancePoint = { date };
+
+    for (const [symbol, symbolPositions] of positionsBySymbol) {
+      let price = priceLookup.get(symbol)?.get(date);
+
+      // Use last known price if no price for this date
+      if (price === undefined) {
+        price = lastPrices.get(symbol);
+      } else {
+        lastPrices.set(symbol, price);
+      }
+
+      if (price === undefined) continue;
+
+      let units = 0;
+      let value = 0;
+      let invested = 0;
+
+      for (const position of symbolPositions) {
+        const key = getPositionKey(position);
+        let positionUnits = position.quantity;
+        let positionInvested = position.book_cost;
+
+        const entries = ledger.get(key);
+        if (entries) {
+          const entry = getPositionAtDate(entries, date);
+          positionUnits = entry?.units ?? 0;
+          positionInvested = entry?.invested ?? 0;
+        }
+
+        const positionValue = Math.max(positionUnits, 0) * price;
+
+        const series = positionSeries.get(key) ?? [];
+        series.push({ date, value: positionValue });
+        positionSeries.set(key, series);
+
+        if (positionUnits <= 0) continue;
+
+        units += positionUnits;
+        value += positionValue;
+        invested += positionInvested;
+      }
+
+      if (units <= 0) continue;
+
+      totalValue += value;
+      totalInvested += invested;
+
+      // Calculate % gain/loss for this fund
+      if (invested > 0) {
+        fundGains[symbol] = ((value - invested) / invested) * 100;
+      }
+    }
+
+    if (totalValue > 0) {
+      history.push({ date, value: totalValue, invested: totalInvested });
+      fundPerformance.push(fundGains);
+    }
+  }
+
+  return { history, fundPerformance, positionSeries };
+}
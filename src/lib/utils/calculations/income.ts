@@ -0,0 +1,149 @@
+/**
+ * Dividend and distribution income calculations
+ */
+
+import { format, parseISO, subYears } from 'date-fns';
+import type { FundIncome, IncomeMonthPoint, IncomePayment, IncomeSummary } from '@/types';
+import type { LedgerTransaction } from './ledger';
+import { getTaxYear } from './dates';
+
+/**
+ * Holding details needed to attribute income and work out yields
+ */
+interface IncomeHolding {
+  symbol: string;
+  name: string;
+  bookCost: number;
+  marketValue: number;
+}
+
+/**
+ * Transaction shape needed for income (a ledger transaction with the fund name)
+ */
+interface IncomeTransaction extends LedgerTransaction {
+  fund_name?: string;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Extract dividend and distribution payments from transactions
+ *
+ * ii sometimes books distributions against the cash account rather than the
+ * fund. Those are attributed to a holding whose name appears in the
+ * description, where one does.
+ *
+ * @param transactions - Transactions in any order
+ * @param holdings - Current holdings, used to attribute cash-account distributions
+ * @returns Income payments in date order
+ */
+export function extractIncomePayments(
+  transactions: IncomeTransaction[],
+  holdings: IncomeHolding[] = []
+): IncomePayment[] {
+  const holdingSymbols = new Set(holdings.map((h) => h.symbol));
+  const holdingNames = holdings.map((h) => ({ holding: h, name: normalizeName(h.name) }));
+
+  return transactions
+    .filter((tx) => tx.type === 'dividend' && tx.total > 0)
+    .map((tx) => {
+      let symbol = tx.symbol;
+      let name = tx.fund_name || tx.symbol;
+
+      if (!holdingSymbols.has(symbol)) {
+        const description = normalizeName(tx.description ?? name);
+        const match = holdingNames.find((h) => h.name && description.includes(h.name));
+        if (match) {
+          symbol = match.holding.symbol;
+          name = match.holding.name;
+        }
+      }
+
+      const holding = holdings.find((h) => h.symbol === symbol);
+      return { date: tx.date, symbol, name: holding?.name ?? name, amount: tx.total };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Summarise income per fund, per month and per UK tax year
+ *
+ * Yields are trailing 12-month income as a percentage of book cost (yield on
+ * cost) and of current market value (yield on value).
+ *
+ * @param payments - Income payments from extractIncomePayments
+ * @param holdings - Current holdings, for yields
+ * @param asOf - Date the trailing 12 months end on (default today)
+ * @returns Income summary
+ */
+export function buildIncomeSummary(
+  payments: IncomePayment[],
+  holdings: IncomeHolding[],
+  asOf: Date = new Date()
+): IncomeSummary {
+  const trailingStart = format(subYears(asOf, 1), 'yyyy-MM-dd');
+  const asOfDate = format(asOf, 'yyyy-MM-dd');
+  const isTrailing = (date: string) => date > trailingStart && date <= asOfDate;
+
+  // Per fund
+  const fundTotals = new Map<string, { name: string; total: number; trailing12m: number }>();
+  for (const payment of payments) {
+    const entry = fundTotals.get(payment.symbol) ?? { name: payment.name, total: 0, trailing12m: 0 };
+    entry.total += payment.amount;
+    if (isTrailing(payment.date)) entry.trailing12m += payment.amount;
+    fundTotals.set(payment.symbol, entry);
+  }
+
+  const byFund: FundIncome[] = Array.from(fundTotals.entries())
+    .map(([symbol, entry]) => {
+      const holding = holdings.find((h) => h.symbol === symbol);
+      return {
+        symbol,
+        name: entry.name,
+        total: entry.total,
+        trailing12m: entry.trailing12m,
+        yieldOnCost: holding && holding.bookCost > 0 ? (entry.trailing12m / holding.bookCost) * 100 : null,
+        yieldOnValue: holding && holding.marketValue > 0 ? (entry.trailing12m / holding.marketValue) * 100 : null,
+      };
+    })
+    .sort((a, b) => b.trailing12m - a.trailing12m || b.total - a.total);
+
+  // Per month
+  const months = new Map<string, IncomeMonthPoint>();
+  for (const payment of payments) {
+    const date = format(parseISO(payment.date), 'yyyy-MM-01');
+    const point = months.get(date) ?? { date, total: 0 };
+    point.total += payment.amount;
+    point[payment.symbol] = ((point[payment.symbol] as number | undefined) ?? 0) + payment.amount;
+    months.set(date, point);
+  }
+  const byMonth = Array.from(months.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+  // Per tax year
+  const taxYears = new Map<string, number>();
+  for (const payment of payments) {
+    const taxYear = getTaxYear(payment.date);
+    taxYears.set(taxYear, (taxYears.get(taxYear) ?? 0) + payment.amount);
+  }
+  const byTaxYear = Array.from(taxYears.entries())
+    .map(([taxYear, total]) => ({ taxYear, total }))
+    .sort((a, b) => a.taxYear.localeCompare(b.taxYear));
+
+  const total = payments.reduce((sum, p) => sum + p.amount, 0);
+  const trailing12m = payments.filter((p) => isTrailing(p.date)).reduce((sum, p) => sum + p.amount, 0);
+  const totalCost = holdings.reduce((sum, h) => sum + h.bookCost, 0);
+  const totalValue = holdings.reduce((sum, h) => sum + h.marketValue, 0);
+
+  return {
+    payments,
+    byFund,
+    byMonth,
+    byTaxYear,
+    total,
+    trailing12m,
+    yieldOnCost: totalCost > 0 ? (trailing12m / totalCost) * 100 : null,
+    yieldOnValue: totalValue > 0 ? (trailing12m / totalValue) * 100 : null,
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Position ledger utilities
+ *
+ * Rebuild how many units of each fund were held on each date, and how much
+ * had been invested in them, from the transaction history.
+ */
+
+import type { PositionLedgerEntry } from '@/types';
+
+/**
+ * Minimal transaction shape needed to build a ledger
+ */
+export interface LedgerTransaction {
+  id?: number;
+  account_id?: number | null;
+  date: string;
+  symbol: string;
+  type: string;
+  description?: string | null;
+  units?: number | null;
+  price?: number | null;
+  total: number;
+}
+
+/**
+ * Key a position by account and fund, so the same fund held in two accounts
+ * is tracked as two separate positions
+ *
+ * @param position - Transaction or holding with an account and symbol
+ * @returns Position key (e.g., "2:IWRD")
+ */
+export function getPositionKey(position: { account_id?: number | null; symbol: string }): string {
+  return `${position.account_id ?? 0}:${position.symbol}`;
+}
+
+/**
+ * Build a per-symbol position ledger from transactions
+ *
+ * Buys add units and their cost; sells remove units and reduce the invested
+ * amount proportionally (average cost, as ii reports book cost). Stock
+ * transfers move units without cash. Other transaction types don't change
+ * the position and are ignored.
+ *
+ * @param transactions - Transactions in any order
+ * @param keyOf - Which position a transaction belongs to (default: its symbol)
+ * @returns Map of position key to ledger entries, one per date that changed the position, in date order
+ *
+ * @example
+ * const ledger = buildPositionLedger([
+ *   { date: '2024-01-15', symbol: 'IWRD', type: 'buy', units: 10, total: -700 },
+ *   { date: '2024-03-10', symbol: 'IWRD', type: 'sell', units: 5, total: 360 },
+ * ]);
+ * // ledger.get('IWRD'):
+ * // [
+ * //   { date: '2024-01-15', units: 10, invested: 700 },
+ * //   { date: '2024-03-10', units: 5, invested: 350 },
+ * // ]
+ */
+export function buildPositionLedger(
+  transactions: LedgerTransaction[],
+  keyOf: (tx: LedgerTransaction) => string = (tx) => tx.symbol
+): Map<string, PositionLedgerEntry[]> {
+  const sorted = [...transactions].sort((a, b) => {
+    if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+    return (a.id ?? 0) - (b.id ?? 0);
+  });
+
+  const ledger = new Map<string, PositionLedgerEntry[]>();
+
+  for (const tx of sorted) {
+    const units = Math.abs(tx.units ?? 0);
+    if (units === 0) continue;
+
+    const key = keyOf(tx);
+    const entries = ledger.get(key) ?? [];
+    const previous = entries[entries.length - 1];
+    let heldUnits = previous?.units ?? 0;
+    let invested = previous?.invested ?? 0;
+
+    if (tx.type === 'buy') {
+      heldUnits += units;
+      invested += Math.abs(tx.total);
+    } else if (tx.type === 'sell') {
+      const soldFraction = heldUnits > 0 ? Math.min(units / heldUnits, 1) : 1;
+      heldUnits = Math.max(heldUnits - units, 0);
+      invested -= invested * soldFraction;
+    } else if (tx.type === 'transfer') {
+      if (/\bout\b/i.test(tx.description ?? '')) {
+        const movedFraction = heldUnits > 0 ? Math.min(units / heldUnits, 1) : 1;
+        heldUnits = Math.max(heldUnits - units, 0);
+        invested -= invested * movedFraction;
+      } else {
+        heldUnits += units;
+        invested += Math.abs(tx.total) || units * (tx.price ?? 0);
+      }
+    } else {
+      continue;
+    }
+
+    const entry = { date: tx.date, units: heldUnits, invested };
+    if (previous?.date === tx.date) {
+      entries[entries.length - 1] = entry;
+    } else {
+      entries.push(entry);
+    }
+    ledger.set(key, entries);
+  }
+
+  return ledger;
+}
+
+/**
+ * Look up the position held at the end of a given date
+ *
+ * @param entries - Ledger entries for one symbol, in date order
+ * @param date - ISO date (YYYY-MM-DD)
+ * @returns The latest entry on or before the date, or null if nothing was held yet
+ */
+export function getPositionAtDate(
+  entries: PositionLedgerEntry[],
+  date: string
+): PositionLedgerEntry | null {
+  let low = 0;
+  let high = entries.length - 1;
+  let result: PositionLedgerEntry | null = null;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (entries[mid].date <= date) {
+      result = entries[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,75 @@
+/**
+ * Look-through aggregation of fund holdings across the portfolio
+ */
+
+import type { FundHolding, LookthroughHolding } from '@/types';
+import { createSecurityMatcher } from './securities';
+
+// Descriptive fields copied from whichever fund's provider has them
+const DETAIL_FIELDS = [
+  'symbol', 'ticker', 'isin', 'cusip', 'sedol', 'assetType', 'sector', 'country', 'currency',
+] as const;
+
+/**
+ * Merge every fund's underlying holdings into the securities the portfolio
+ * really owns, valuing each one at its weight times the fund's market value
+ *
+ * The same security is recognised across funds with createSecurityMatcher.
+ *
+ * @param funds - Each fund's market value and latest underlying holdings
+ * @param portfolioValue - Total portfolio value that weights are a share of
+ * @returns Securities held, largest value first
+ *
+ * @example
+ * const holdings = aggregateLookthroughHoldings([
+ *   { symbol: 'VWRL', name: 'Vanguard FTSE All-World', marketValue: 10000,
+ *     holdings: [{ name: 'Apple Inc', isin: 'US0378331005', weightPercent: 4.5 }] },
+ *   { symbol: 'IWRD', name: 'iShares MSCI World', marketValue: 5000,
+ *     holdings: [{ name: 'APPLE INC', isin: 'US0378331005', weightPercent: 5 }] },
+ * ], 15000);
+ * // [{ name: 'Apple Inc', marketValue: 700, weightPercent: 4.67, funds: [...2 funds] }]
+ */
+export function aggregateLookthroughHoldings(
+  funds: Array<{ symbol: string; name: string; marketValue: number; holdings: FundHolding[] }>,
+  portfolioValue: number
+): LookthroughHolding[] {
+  const match = createSecurityMatcher();
+  const byId = new Map<number, LookthroughHolding>();
+
+  for (const fund of funds) {
+    for (const h of fund.holdings) {
+      if (h.weightPercent <= 0) continue;
+
+      const id = match(h);
+      const value = (fund.marketValue * h.weightPercent) / 100;
+
+      let security = byId.get(id);
+      if (!security) {
+        security = { name: h.name, securityId: h.securityId, weightPercent: 0, marketValue: 0, funds: [] };
+        byId.set(id, security);
+      }
+
+      for (const field of DETAIL_FIELDS) {
+        if (security[field] === undefined) security[field] = h[field];
+      }
+
+      security.marketValue += value;
+      const existing = security.funds.find((f) => f.symbol === fund.symbol);
+      if (existing) {
+        // A fund can list the same security twice (e.g. two share lines)
+        existing.weightPercent += h.weightPercent;
+        existing.value += value;
+      } else {
+        security.funds.push({ symbol: fund.symbol, name: fund.name, weightPercent: h.weightPercent, value });
+      }
+    }
+  }
+
+  const merged = Array.from(byId.values());
+  for (const security of merged) {
+    security.weightPercent = portfolioValue > 0 ? (security.marketValue / portfolioValue) * 100 : 0;
+    security.funds.sort((a, b) => b.value - a.value);
+  }
+
+  return merged.sort((a, b) => b.marketValue - a.marketValue);
+}
@@ -0,0 +1,74 @@
+/**
+ * Fund overlap calculations
+ */
+
+import type { FundHolding, FundOverlapPair, SharedSecurity } from '@/types';
+import { createSecurityMatcher } from './securities';
+
+/**
+ * Compare every pair of funds by the underlying securities they share
+ *
+ * Overlap is the sum, over shared securities, of the smaller of the two
+ * weights - the part of each fund that's the same as the other. Funds with
+ * no holdings data are left out of the pairs.
+ *
+ * @param funds - Each fund's symbol and latest underlying holdings
+ * @returns One entry per pair of funds with holdings data, in the order given
+ *
+ * @example
+ * calculateFundOverlap([
+ *   { symbol: 'VWRL', holdings: [{ name: 'Apple', weightPercent: 4.5 }, { name: 'Nestle', weightPercent: 0.5 }] },
+ *   { symbol: 'IWRD', holdings: [{ name: 'Apple', weightPercent: 5 }] },
+ * ]);
+ * // [{ fundA: 'VWRL', fundB: 'IWRD', overlapPercent: 4.5, shared: [{ name: 'Apple', weightA: 4.5, weightB: 5 }] }]
+ */
+export function calculateFundOverlap(
+  funds: Array<{ symbol: string; holdings: FundHolding[] }>
+): FundOverlapPair[] {
+  const match = createSecurityMatcher();
+
+  // Each fund's weight in each security, keyed by security ID
+  const weights = funds
+    .filter((f) => f.holdings.length > 0)
+    .map((fund) => {
+      const bySecurity = new Map<number, { name: string; weight: number }>();
+      for (const h of fund.holdings) {
+        if (h.weightPercent <= 0) continue;
+        const id = match(h);
+        const existing = bySecurity.get(id);
+        if (existing) {
+          existing.weight += h.weightPercent;
+        } else {
+          bySecurity.set(id, { name: h.name, weight: h.weightPercent });
+        }
+      }
+      return { symbol: fund.symbol, bySecurity };
+    });
+
+  const pairs: FundOverlapPair[] = [];
+
+  for (let i = 0; i < weights.length; i++) {
+    for (let j = i + 1; j < weights.length; j++) {
+      const a = weights[i];
+      const b = weights[j];
+
+      const shared: SharedSecurity[] = [];
+      a.bySecurity.forEach((holding, id) => {
+        const other = b.bySecurity.get(id);
+        if (other) {
+          shared.push({ name: holding.name, weightA: holding.weight, weightB: other.weight });
+        }
+      });
+      shared.sort((x, y) => Math.min(y.weightA, y.weightB) - Math.min(x.weightA, x.weightB));
+
+      pairs.push({
+        fundA: a.symbol,
+        fundB: b.symbol,
+        overlapPercent: shared.reduce((sum, s) => sum + Math.min(s.weightA, s.weightB), 0),
+        shared,
+      });
+    }
+  }
+
+  return pairs;
+}
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { alignCashFlows, calculateTimeWeightedReturn, calculateXIRR } from './returns';
+
+const values = (points: Array<[string, number]>) => points.map(([date, value]) => ({ date, value }));
+
+test('XIRR matches the worked example in the Excel documentation', () => {
+  const rate = calculateXIRR([
+    { date: '2008-01-01', amount: -10000 },
+    { date: '2008-03-01', amount: 2750 },
+    { date: '2008-10-30', amount: 4250 },
+    { date: '2009-02-15', amount: 3250 },
+    { date: '2009-04-01', amount: 2750 },
+  ]);
+
+  assert.ok(rate !== null && Math.abs(rate - 37.3362535) < 1e-4, `expected 37.34%, got ${rate}`);
+});
+
+test('time-weighted return is unchanged by money paid in part way through', () => {
+  const withoutFlows = calculateTimeWeightedReturn(values([['2024-01-02', 100], ['2024-02-01', 110], ['2024-03-01', 121]]), []);
+
+  // The same 10% a month, with 1000 paid in on 1 February
+  const withFlows = calculateTimeWeightedReturn(
+    values([['2024-01-02', 100], ['2024-02-01', 1110], ['2024-03-01', 1221]]),
+    [{ date: '2024-02-01', amount: 1000 }]
+  );
+
+  assert.ok(withoutFlows !== null && Math.abs(withoutFlows - 21) < 1e-9);
+  assert.ok(withFlows !== null && Math.abs(withFlows - withoutFlows) < 1e-9);
+});
+
+test('a position bought again after selling out starts from its value', () => {
+  // Sold out on 3 January, then bought back on a day with no price
+  const series = values([['2024-01-01', 100], ['2024-01-02', 110], ['2024-01-03', 0], ['2024-01-05', 50], ['2024-01-08', 55]]);
+  const flows = [
+    { date: '2024-01-01', amount: 100 },
+    { date: '2024-01-03', amount: -110 },
+    { date: '2024-01-04', amount: 48 },
+  ];
+
+  assert.deepEqual(alignCashFlows(series, flows), [
+    { date: '2024-01-01', amount: 100 },
+    { date: '2024-01-03', amount: -110 },
+    { date: '2024-01-05', amount: 50 },
+  ]);
+});
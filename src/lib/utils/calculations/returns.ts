@@ -0,0 +1,310 @@
+/**
+ * Investment return calculations
+ *
+ * Time-weighted return (TWR) measures how the investments themselves
+ * performed, independent of when money was added or withdrawn. Money-weighted
+ * return (XIRR) measures the return actually earned on the money invested, so
+ * it also reflects the timing of contributions.
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { CashFlow, PerformanceReturns } from '@/types';
+import type { LedgerTransaction } from './ledger';
+import { filterByDateRange } from './dates';
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Value of a position or portfolio on a date
+ */
+interface ValuePoint {
+  date: string;
+  value: number;
+}
+
+/**
+ * Build per-symbol cash flows from transactions
+ *
+ * Buys and stock transfers in are money into the position; sells, transfers
+ * out and dividends paid out are money out of it.
+ *
+ * @param transactions - Transactions in any order
+ * @param keyOf - Which position a transaction belongs to (default: its symbol)
+ * @returns Map of position key to cash flows in date order
+ */
+export function buildCashFlows(
+  transactions: LedgerTransaction[],
+  keyOf: (tx: LedgerTransaction) => string = (tx) => tx.symbol
+): Map<string, CashFlow[]> {
+  const flows = new Map<string, CashFlow[]>();
+
+  for (const tx of transactions) {
+    let amount: number;
+
+    if (tx.type === 'buy') {
+      amount = Math.abs(tx.total);
+    } else if (tx.type === 'sell' || tx.type === 'dividend') {
+      amount = -Math.abs(tx.total);
+    } else if (tx.type === 'transfer' && tx.units) {
+      const transferValue = Math.abs(tx.total) || Math.abs(tx.units) * (tx.price ?? 0);
+      amount = /\bout\b/i.test(tx.description ?? '') ? -transferValue : transferValue;
+    } else {
+      continue;
+    }
+
+    if (amount === 0) continue;
+
+    const key = keyOf(tx);
+    const symbolFlows = flows.get(key) ?? [];
+    symbolFlows.push({ date: tx.date, amount });
+    flows.set(key, symbolFlows);
+  }
+
+  flows.forEach((symbolFlows) => symbolFlows.sort((a, b) => a.date.localeCompare(b.date)));
+
+  return flows;
+}
+
+/**
+ * Align a position's cash flows to the dates of its value series
+ *
+ * Flows are summed onto the first series date on or after they happen. When a
+ * position starts being valued (first price, or bought again after selling
+ * out) its whole value on that date is treated as the contribution, so gaps in
+ * price data never show up as returns.
+ *
+ * @param series - Value of the position over time, in date order
+ * @param flows - Cash flows for the position, in date order
+ * @returns Cash flows keyed to series dates
+ */
+export function alignCashFlows(series: ValuePoint[], flows: CashFlow[]): CashFlow[] {
+  const aligned: CashFlow[] = [];
+  let flowIndex = 0;
+  let active = false;
+
+  for (const point of series) {
+    let pending = 0;
+    while (flowIndex < flows.length && flows[flowIndex].date <= point.date) {
+      pending += flows[flowIndex].amount;
+      flowIndex++;
+    }
+
+    let amount = 0;
+    if (point.value > 0) {
+      amount = active ? pending : point.value;
+      active = true;
+    } else if (active) {
+      amount = pending;
+      active = false;
+    }
+
+    if (amount !== 0) {
+      aligned.push({ date: point.date, amount });
+    }
+  }
+
+  return aligned;
+}
+
+/**
+ * Merge several aligned cash flow lists, summing flows on the same date
+ */
+export function mergeCashFlows(flowLists: CashFlow[][]): CashFlow[] {
+  const byDate = new Map<string, number>();
+  for (const flows of flowLists) {
+    for (const flow of flows) {
+      byDate.set(flow.date, (byDate.get(flow.date) ?? 0) + flow.amount);
+    }
+  }
+
+  return Array.from(byDate.entries())
+    .map(([date, amount]) => ({ date, amount }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Calculate the cumulative time-weighted return over a period
+ *
+ * Chain-links the daily sub-period returns between valuations, removing the
+ * effect of cash flows: r = (V_end - flow) / V_start - 1.
+ *
+ * @param series - Value over time, in date order (values include flows made that day)
+ * @param flows - Cash flows aligned to series dates (see alignCashFlows)
+ * @param startDate - Start date (inclusive) or null for the whole series
+ * @param endDate - End date (inclusive) or null for the whole series
+ * @returns Cumulative return as a percentage, or null if it can't be measured
+ *
+ * @example
+ * calculateTimeWeightedReturn(
+ *   [{ date: '2024-01-01', value: 100 }, { date: '2024-02-01', value: 210 }],
+ *   [{ date: '2024-02-01', amount: 100 }]
+ * ); // 10
+ */
+export function calculateTimeWeightedReturn(
+  series: ValuePoint[],
+  flows: CashFlow[],
+  startDate: string | null = null,
+  endDate: string | null = null
+): number | null {
+  const points = filterByDateRange(series, startDate, endDate);
+  if (points.length < 2) return null;
+
+  const flowsByDate = new Map(flows.map((f) => [f.date, f.amount]));
+
+  let growth = 1;
+  let periods = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const previousValue = points[i - 1].value;
+    if (previousValue <= 0) continue;
+
+    const flow = flowsByDate.get(points[i].date) ?? 0;
+    growth *= (points[i].value - flow) / previousValue;
+    periods++;
+  }
+
+  return periods > 0 ? (growth - 1) * 100 : null;
+}
+
+/**
+ * Calculate the internal rate of return for irregularly timed cash flows
+ *
+ * Uses Newton-Raphson, falling back to bisection if it fails to converge.
+ *
+ * @param flows - Cash flows from the investor's point of view (negative = paid in, positive = received)
+ * @returns Annualised rate as a percentage, or null if there is no solution
+ *
+ * @example
+ * calculateXIRR([
+ *   { date: '2023-01-01', amount: -1000 },
+ *   { date: '2024-01-01', amount: 1100 },
+ * ]); // ~10
+ */
+export function calculateXIRR(flows: CashFlow[]): number | null {
+  if (flows.length < 2) return null;
+  if (!flows.some((f) => f.amount < 0) || !flows.some((f) => f.amount > 0)) return null;
+
+  const firstDate = parseISO(flows[0].date);
+  const terms = flows.map((f) => ({
+    years: differenceInCalendarDays(parseISO(f.date), firstDate) / DAYS_PER_YEAR,
+    amount: f.amount,
+  }));
+
+  const npv = (rate: number) =>
+    terms.reduce((sum, t) => sum + t.amount / Math.pow(1 + rate, t.years), 0);
+  const derivative = (rate: number) =>
+    terms.reduce((sum, t) => sum - (t.years * t.amount) / Math.pow(1 + rate, t.years + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 100; i++) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (!isFinite(value) || !isFinite(slope) || slope === 0) break;
+
+    const next = rate - value / slope;
+    if (next <= -1 || !isFinite(next)) break;
+    if (Math.abs(next - rate) < 1e-9) return next * 100;
+    rate = next;
+  }
+
+  // Bisection fallback
+  let low = -0.9999;
+  let high = 10;
+  let lowValue = npv(low);
+  if (lowValue * npv(high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+    if (Math.abs(midValue) < 1e-7) return mid * 100;
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+
+  return ((low + high) / 2) * 100;
+}
+
+/**
+ * Calculate the money-weighted return (XIRR) over a period
+ *
+ * The value at the start of the period is treated as the opening investment
+ * and the value at the end as the final withdrawal.
+ *
+ * @param series - Value over time, in date order
+ * @param flows - Cash flows aligned to series dates (positive = money in)
+ * @param startDate - Start date (inclusive) or null for the whole series
+ * @param endDate - End date (inclusive) or null for the whole series
+ * @returns Annualised return as a percentage, or null if it can't be measured
+ */
+export function calculateMoneyWeightedReturn(
+  series: ValuePoint[],
+  flows: CashFlow[],
+  startDate: string | null = null,
+  endDate: string | null = null
+): number | null {
+  const points = filterByDateRange(series, startDate, endDate);
+  if (points.length < 2) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  const investorFlows: CashFlow[] = [{ date: first.date, amount: -first.value }];
+  for (const flow of flows) {
+    if (flow.date > first.date && flow.date <= last.date) {
+      investorFlows.push({ date: flow.date, amount: -flow.amount });
+    }
+  }
+  investorFlows.push({ date: last.date, amount: last.value });
+
+  return calculateXIRR(investorFlows);
+}
+
+/**
+ * Annualise a cumulative percentage return
+ *
+ * @param cumulativePercent - Cumulative return as a percentage
+ * @param days - Length of the period in days
+ * @returns Annualised return as a percentage, or null for periods under a year
+ */
+export function annualiseReturn(cumulativePercent: number, days: number): number | null {
+  if (days < DAYS_PER_YEAR) return null;
+  return (Math.pow(1 + cumulativePercent / 100, DAYS_PER_YEAR / days) - 1) * 100;
+}
+
+/**
+ * Calculate time-weighted and money-weighted returns for a period
+ *
+ * @param series - Value over time, in date order
+ * @param flows - Cash flows aligned to series dates (positive = money in)
+ * @param startDate - Start date (inclusive) or null for the whole series
+ * @param endDate - End date (inclusive) or null for the whole series
+ * @returns Returns summary (values are percentages, null where not measurable)
+ */
+export function calculateReturns(
+  series: ValuePoint[],
+  flows: CashFlow[],
+  startDate: string | null = null,
+  endDate: string | null = null
+): PerformanceReturns {
+  const points = filterByDateRange(series, startDate, endDate);
+  const timeWeighted = calculateTimeWeightedReturn(points, flows);
+
+  let timeWeightedAnnualised: number | null = null;
+  if (timeWeighted !== null) {
+    const days = differenceInCalendarDays(
+      parseISO(points[points.length - 1].date),
+      parseISO(points[0].date)
+    );
+    timeWeightedAnnualised = annualiseReturn(timeWeighted, days);
+  }
+
+  return {
+    timeWeighted,
+    timeWeightedAnnualised,
+    moneyWeighted: calculateMoneyWeightedReturn(points, flows),
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Risk calculations
+ *
+ * Everything is measured on a growth index built like the time-weighted
+ * return, so money added or taken out never looks like a gain or a fall.
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { CashFlow, DrawdownEpisode, DrawdownPoint, RiskMetrics } from '@/types';
+import { filterByDateRange } from './dates';
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Risk-free rate used until one is set, as a percentage
+ */
+export const DEFAULT_RISK_FREE_RATE = 4;
+
+/**
+ * Value of a position or portfolio on a date
+ */
+interface ValuePoint {
+  date: string;
+  value: number;
+}
+
+/**
+ * Turn a value series into a growth index starting at 100, removing the effect
+ * of cash flows
+ *
+ * Dates before the first positive value are left out; periods starting from
+ * nothing (sold out and bought back) leave the index unchanged.
+ *
+ * @param series - Value over time, in date order (values include flows made that day)
+ * @param flows - Cash flows aligned to series dates (see alignCashFlows)
+ * @returns Index by date
+ *
+ * @example
+ * buildGrowthIndex(
+ *   [{ date: '2024-01-01', value: 100 }, { date: '2024-02-01', value: 210 }],
+ *   [{ date: '2024-02-01', amount: 100 }]
+ * );
+ * // [{ date: '2024-01-01', value: 100 }, { date: '2024-02-01', value: 110 }]
+ */
+export function buildGrowthIndex(series: ValuePoint[], flows: CashFlow[]): ValuePoint[] {
+  const start = series.findIndex((p) => p.value > 0);
+  if (start === -1) return [];
+
+  const flowsByDate = new Map(flows.map((f) => [f.date, f.amount]));
+  const index: ValuePoint[] = [{ date: series[start].date, value: 100 }];
+
+  for (let i = start + 1; i < series.length; i++) {
+    const previousValue = series[i - 1].value;
+    const last = index[index.length - 1].value;
+    if (previousValue <= 0) {
+      index.push({ date: series[i].date, value: last });
+      continue;
+    }
+
+    const flow = flowsByDate.get(series[i].date) ?? 0;
+    index.push({ date: series[i].date, value: last * ((series[i].value - flow) / previousValue) });
+  }
+
+  return index;
+}
+
+/**
+ * Find every drawdown in an index: each fall from a high-water mark until it's
+ * regained
+ *
+ * @param index - Growth index or price series, in date order
+ * @returns Drawdowns in date order; the last may not have recovered yet
+ *
+ * @example
+ * findDrawdownEpisodes([
+ *   { date: '2024-01-01', value: 100 },
+ *   { date: '2024-02-01', value: 80 },
+ *   { date: '2024-03-01', value: 105 },
+ * ]);
+ * // [{ peakDate: '2024-01-01', troughDate: '2024-02-01', recoveryDate: '2024-03-01', depthPercent: -20 }]
+ */
+export function findDrawdownEpisodes(index: ValuePoint[]): DrawdownEpisode[] {
+  const episodes: DrawdownEpisode[] = [];
+  let current: DrawdownEpisode | null = null;
+  let peak: ValuePoint | null = null;
+
+  for (const point of index) {
+    if (!peak || point.value >= peak.value) {
+      if (current) {
+        current.recoveryDate = point.date;
+        episodes.push(current);
+        current = null;
+      }
+      peak = point;
+      continue;
+    }
+
+    const depthPercent = (point.value / peak.value - 1) * 100;
+    if (!current) {
+      current = { peakDate: peak.date, troughDate: point.date, recoveryDate: null, depthPercent };
+    } else if (depthPercent < current.depthPercent) {
+      current.troughDate = point.date;
+      current.depthPercent = depthPercent;
+    }
+  }
+
+  if (current) episodes.push(current);
+  return episodes;
+}
+
+/**
+ * How far below its running high-water mark an index is on each date
+ *
+ * @param index - Growth index or price series, in date order
+ * @returns Drawdown by date, as a percentage
+ *
+ * @example
+ * calculateUnderwaterSeries([
+ *   { date: '2024-01-01', value: 100 },
+ *   { date: '2024-02-01', value: 80 },
+ *   { date: '2024-03-01', value: 90 },
+ * ]);
+ * // [{ date: '2024-01-01', drawdownPercent: 0 }, { date: '2024-02-01', drawdownPercent: -20 },
+ * //  { date: '2024-03-01', drawdownPercent: -10 }]
+ */
+export function calculateUnderwaterSeries(index: ValuePoint[]): DrawdownPoint[] {
+  let peak = 0;
+  return index.map((point) => {
+    peak = Math.max(peak, point.value);
+    return { date: point.date, drawdownPercent: peak > 0 ? (point.value / peak - 1) * 100 : 0 };
+  });
+}
+
+/**
+ * The deepest drawdowns in an index, worst first
+ *
+ * @param index - Growth index or price series, in date order
+ * @param limit - How many to return
+ */
+export function getWorstDrawdowns(index: ValuePoint[], limit: number = 5): DrawdownEpisode[] {
+  return findDrawdownEpisodes(index)
+    .sort((a, b) => a.depthPercent - b.depthPercent)
+    .slice(0, limit);
+}
+
+/**
+ * Calculate volatility, maximum drawdown and the Sharpe and Sortino ratios
+ * over a period
+ *
+ * Returns are annualised by how many valuations a year the series has, so
+ * daily prices and monthly values both work.
+ *
+ * @param series - Value over time, in date order (a price series works with no flows)
+ * @param flows - Cash flows aligned to series dates (positive = money in)
+ * @param riskFreeRate - Annual risk-free rate as a percentage
+ * @param startDate - Start date (inclusive) or null for the whole series
+ * @param endDate - End date (inclusive) or null for the whole series
+ * @returns Risk metrics (null where there's too little data)
+ *
+ * @example
+ * const risk = calculateRiskMetrics(portfolioHistory, cashFlows, 4, '2024-01-01', null);
+ * // { volatility: 11.2, maxDrawdown: { depthPercent: -8.4, ... }, sharpeRatio: 0.9, sortinoRatio: 1.3, riskFreeRate: 4 }
+ */
+export function calculateRiskMetrics(
+  series: ValuePoint[],
+  flows: CashFlow[],
+  riskFreeRate: number = DEFAULT_RISK_FREE_RATE,
+  startDate: string | null = null,
+  endDate: string | null = null
+): RiskMetrics {
+  const index = buildGrowthIndex(filterByDateRange(series, startDate, endDate), flows);
+
+  const maxDrawdown = findDrawdownEpisodes(index).reduce<DrawdownEpisode | null>(
+    (worst, episode) => (!worst || episode.depthPercent < worst.depthPercent ? episode : worst),
+    null
+  );
+  const metrics: RiskMetrics = { volatility: null, maxDrawdown, sharpeRatio: null, sortinoRatio: null, riskFreeRate };
+
+  const returns = index.slice(1).map((p, i) => p.value / index[i].value - 1);
+  const days = index.length > 0
+    ? differenceInCalendarDays(parseISO(index[index.length - 1].date), parseISO(index[0].date))
+    : 0;
+  if (returns.length < 2 || days <= 0) return metrics;
+
+  const periodsPerYear = returns.length / (days / DAYS_PER_YEAR);
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const volatility = Math.sqrt(variance * periodsPerYear);
+
+  // Excess return per period over the risk-free rate, annualised
+  const riskFreePerPeriod = Math.pow(1 + riskFreeRate / 100, 1 / periodsPerYear) - 1;
+  const excessReturn = (mean - riskFreePerPeriod) * periodsPerYear;
+  const downsideDeviation = Math.sqrt(
+    (returns.reduce((sum, r) => sum + Math.min(0, r - riskFreePerPeriod) ** 2, 0) / returns.length) * periodsPerYear
+  );
+
+  return {
+    ...metrics,
+    volatility: volatility * 100,
+    sharpeRatio: volatility > 0 ? excessReturn / volatility : null,
+    sortinoRatio: downsideDeviation > 0 ? excessReturn / downsideDeviation : null,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Rolling return calculations
+ *
+ * A point-to-point return depends heavily on the day it's measured from.
+ * Rolling returns measure every window of the same length instead, showing
+ * the range of outcomes an investor could have had.
+ */
+
+import { format, parseISO, subYears } from 'date-fns';
+import type { RollingReturnSummary } from '@/types';
+
+/**
+ * Key the portfolio's rolling returns are stored under in chart data,
+ * alongside fund symbols
+ */
+export const PORTFOLIO_KEY = 'portfolio';
+
+/**
+ * Value of a fund (its price) or the portfolio (a growth index) on a date
+ */
+interface ValuePoint {
+  date: string;
+  value: number;
+}
+
+/**
+ * Annualised return over the window ending on each date
+ *
+ * Each window starts from the last value on or before the date the given
+ * number of years earlier, so dates in the first window are left out.
+ *
+ * @param series - Prices or a growth index, in date order
+ * @param years - Window length in years
+ * @returns Annualised return as a percentage by window end date
+ *
+ * @example
+ * calculateRollingReturns(
+ *   [{ date: '2022-01-01', value: 100 }, { date: '2023-01-01', value: 110 }, { date: '2023-06-01', value: 99 }],
+ *   1
+ * );
+ * // [{ date: '2023-01-01', value: 10 }, { date: '2023-06-01', value: -1 }]
+ */
+export function calculateRollingReturns(series: ValuePoint[], years: number): ValuePoint[] {
+  const rolling: ValuePoint[] = [];
+  let start = -1;
+
+  for (const point of series) {
+    const windowStart = format(subYears(parseISO(point.date), years), 'yyyy-MM-dd');
+    while (start + 1 < series.length && series[start + 1].date <= windowStart) {
+      start++;
+    }
+    if (start === -1 || series[start].value <= 0) continue;
+
+    const growth = point.value / series[start].value;
+    rolling.push({ date: point.date, value: (Math.pow(growth, 1 / years) - 1) * 100 });
+  }
+
+  return rolling;
+}
+
+/**
+ * Summarise the spread of a set of rolling returns
+ *
+ * @param rolling - Rolling returns in date order
+ * @returns Latest, worst, median and best, or null if there are none
+ *
+ * @example
+ * summariseRollingReturns([{ date: '2023-01-01', value: 10 }, { date: '2023-06-01', value: -1 }]);
+ * // { latest: -1, min: -1, median: 4.5, max: 10, positivePercent: 50, observations: 2 }
+ */
+export function summariseRollingReturns(rolling: ValuePoint[]): RollingReturnSummary | null {
+  if (rolling.length === 0) return null;
+
+  const sorted = rolling.map((p) => p.value).sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+
+  return {
+    latest: rolling[rolling.length - 1].value,
+    min: sorted[0],
+    median,
+    max: sorted[sorted.length - 1],
+    positivePercent: (sorted.filter((v) => v > 0).length / sorted.length) * 100,
+    observations: sorted.length,
+  };
+}
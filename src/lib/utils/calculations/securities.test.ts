@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSecurityMatcher } from './securities';
+
+test('matches holdings on any shared identifier', () => {
+  const match = createSecurityMatcher();
+  assert.equal(match({ name: 'Apple Inc', ticker: 'AAPL', weightPercent: 4 }), 0);
+  assert.equal(match({ name: 'APPLE INC.', isin: 'US0378331005', weightPercent: 5 }), 0);
+  assert.equal(match({ name: 'Apple', isin: 'US0378331005', weightPercent: 1 }), 0);
+});
+
+test('does not merge holdings on a name when their ISINs differ', () => {
+  const match = createSecurityMatcher();
+  const ordinary = match({ name: 'Shell plc', isin: 'GB00BP6MXD84', weightPercent: 3 });
+  const adr = match({ name: 'Shell PLC ADR', isin: 'US7802593050', weightPercent: 1 });
+  assert.notEqual(adr, ordinary);
+  assert.equal(match({ name: 'Shell', isin: 'US7802593050', weightPercent: 1 }), adr);
+});
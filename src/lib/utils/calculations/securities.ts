@@ -0,0 +1,143 @@
+/**
+ * Security identifier resolution
+ */
+
+import type { FundHolding, SecurityIdentifier, SecurityIdentifierType } from '@/types';
+
+/**
+ * Identifiers that only ever belong to one security. Two holdings with
+ * different values of one of these are never the same security.
+ */
+export const STRONG_IDENTIFIERS: SecurityIdentifierType[] = ['isin', 'cusip', 'sedol'];
+
+// Words providers add or leave off company names
+const NAME_NOISE = new Set([
+  'the', 'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'plc', 'ltd', 'limited',
+  'llc', 'lp', 'sa', 'ag', 'nv', 'se', 'spa', 'asa', 'ab', 'oyj', 'as', 'bhd', 'tbk', 'reg', 'registered',
+  'ord', 'ordinary', 'shs', 'shares', 'adr', 'gdr', 'class', 'cl', 'com', 'common', 'stock',
+]);
+
+/**
+ * Normalise a security name for matching across providers: lowercase, no
+ * punctuation, '&' as 'and', and without legal suffixes, share-line words and
+ * single-letter share classes
+ *
+ * @example
+ * normaliseSecurityName('Apple Inc.') // "apple"
+ * normaliseSecurityName('ALPHABET INC-CL A') // "alphabet"
+ * normaliseSecurityName('Procter & Gamble Co') // "procter and gamble"
+ */
+export function normaliseSecurityName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((word, i) => word && !NAME_NOISE.has(word) && !(i > 0 && word.length === 1))
+    .join(' ');
+}
+
+/**
+ * Every identifier a holding can be matched on, most reliable first.
+ * Codes are upper-cased; the name is normalised.
+ *
+ * @example
+ * getSecurityIdentifiers({ name: 'Apple Inc', isin: 'us0378331005', ticker: 'AAPL', weightPercent: 4 });
+ * // [{ type: 'isin', value: 'US0378331005' }, { type: 'ticker', value: 'AAPL' }, { type: 'name', value: 'apple' }]
+ */
+export function getSecurityIdentifiers(holding: FundHolding): SecurityIdentifier[] {
+  const identifiers: SecurityIdentifier[] = [];
+  const add = (type: SecurityIdentifierType, value: string | undefined) => {
+    const trimmed = value?.trim();
+    if (trimmed) identifiers.push({ type, value: type === 'name' ? trimmed : trimmed.toUpperCase() });
+  };
+
+  add('isin', holding.isin);
+  add('cusip', holding.cusip);
+  add('sedol', holding.sedol);
+  add('ticker', holding.ticker ?? holding.symbol);
+  add('name', normaliseSecurityName(holding.name));
+
+  return identifiers;
+}
+
+/**
+ * Whether a holding has an ISIN, CUSIP or SEDOL that differs from the ones a
+ * security is already known by, which makes a ticker or name match between
+ * them wrong - e.g. two share classes with the same company name
+ *
+ * @param identifiers - The holding's identifiers
+ * @param knownValues - Values of an identifier type the security is known by
+ *
+ * @example
+ * hasConflictingIdentifier([{ type: 'isin', value: 'GB00B03MLX29' }, { type: 'name', value: 'shell' }], () => ['GB00B03MM408']);
+ * // true
+ */
+export function hasConflictingIdentifier(
+  identifiers: SecurityIdentifier[],
+  knownValues: (type: SecurityIdentifierType) => string[]
+): boolean {
+  return identifiers.some((identifier) => {
+    if (!STRONG_IDENTIFIERS.includes(identifier.type)) return false;
+    const known = knownValues(identifier.type);
+    return known.length > 0 && !known.includes(identifier.value);
+  });
+}
+
+/**
+ * Create a matcher that gives the same ID to holdings of the same security.
+ * Holdings linked to the security master match on their security ID;
+ * otherwise on ISIN, CUSIP, SEDOL, ticker or name - whichever the providers
+ * have in common. As in the security master, a ticker or name match is
+ * ignored when the ISIN, CUSIP or SEDOL differs. IDs are only comparable
+ * between holdings passed to one matcher.
+ *
+ * @example
+ * const match = createSecurityMatcher();
+ * match({ name: 'Apple Inc', ticker: 'AAPL', weightPercent: 4 }); // 0
+ * match({ name: 'APPLE INC.', isin: 'US0378331005', weightPercent: 5 }); // 0 (same name)
+ * match({ name: 'Apple', isin: 'US0378331005', weightPercent: 1 }); // 0 (same ISIN)
+ * match({ name: 'Apple Inc', isin: 'US0378331099', weightPercent: 1 }); // 1 (different ISIN)
+ */
+export function createSecurityMatcher(): (holding: FundHolding) => number {
+  const byKey = new Map<string, number>();
+  // Identifiers recorded against each ID, for spotting conflicts
+  const identifiersById = new Map<number, SecurityIdentifier[]>();
+  let nextId = 0;
+
+  const knownValues = (id: number) => (type: SecurityIdentifierType) =>
+    (identifiersById.get(id) ?? []).filter((i) => i.type === type).map((i) => i.value);
+
+  return (holding) => {
+    if (holding.securityId !== undefined) {
+      const key = `security:${holding.securityId}`;
+      const id = byKey.get(key) ?? nextId++;
+      byKey.set(key, id);
+      return id;
+    }
+
+    const identifiers = getSecurityIdentifiers(holding);
+    const keyOf = (identifier: SecurityIdentifier) => `${identifier.type}:${identifier.value}`;
+
+    let id: number | undefined;
+    for (const identifier of identifiers) {
+      const candidate = byKey.get(keyOf(identifier));
+      if (candidate === undefined) continue;
+      if (STRONG_IDENTIFIERS.includes(identifier.type) || !hasConflictingIdentifier(identifiers, knownValues(candidate))) {
+        id = candidate;
+        break;
+      }
+    }
+    if (id === undefined) id = nextId++;
+
+    // Identifiers already belonging to another ID stay with it
+    const recorded = identifiersById.get(id) ?? [];
+    for (const identifier of identifiers) {
+      if (byKey.has(keyOf(identifier))) continue;
+      byKey.set(keyOf(identifier), id);
+      recorded.push(identifier);
+    }
+    identifiersById.set(id, recorded);
+    return id;
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Holdings snapshot comparison
+ */
+
+import type { HoldingChange, HoldingChangeStatus, HoldingsDiff, SnapshotHolding } from '@/types';
+
+// Unit counts from ii are given to a few decimal places; ignore rounding noise
+const UNITS_TOLERANCE = 1e-6;
+
+/**
+ * Compare two holdings snapshots fund by fund
+ *
+ * @param before - Holdings in the earlier snapshot (empty for the first import)
+ * @param after - Holdings in the later snapshot
+ * @returns Per-fund changes (biggest change in book cost first) and counts by status
+ *
+ * @example
+ * const diff = diffHoldingsSnapshots(
+ *   [{ symbol: 'IWRD', name: 'iShares World', quantity: 10, bookCost: 700, marketValue: 800 }],
+ *   [{ symbol: 'IWRD', name: 'iShares World', quantity: 15, bookCost: 1100, marketValue: 1200 }]
+ * );
+ * // diff.changes[0].status === 'increased', diff.changes[0].unitsChange === 5
+ */
+export function diffHoldingsSnapshots(
+  before: SnapshotHolding[],
+  after: SnapshotHolding[]
+): HoldingsDiff {
+  const beforeBySymbol = new Map(before.map((h) => [h.symbol, h]));
+  const afterBySymbol = new Map(after.map((h) => [h.symbol, h]));
+  const symbols = Array.from(new Set([...beforeBySymbol.keys(), ...afterBySymbol.keys()]));
+
+  const changes: HoldingChange[] = symbols.map((symbol) => {
+    const previous = beforeBySymbol.get(symbol);
+    const current = afterBySymbol.get(symbol);
+    const unitsBefore = previous?.quantity ?? 0;
+    const unitsAfter = current?.quantity ?? 0;
+    const unitsChange = unitsAfter - unitsBefore;
+
+    let status: HoldingChangeStatus;
+    if (!previous) {
+      status = 'new';
+    } else if (!current) {
+      status = 'closed';
+    } else if (unitsChange > UNITS_TOLERANCE) {
+      status = 'increased';
+    } else if (unitsChange < -UNITS_TOLERANCE) {
+      status = 'reduced';
+    } else {
+      status = 'unchanged';
+    }
+
+    return {
+      symbol,
+      name: current?.name ?? previous?.name ?? symbol,
+      status,
+      unitsBefore,
+      unitsAfter,
+      unitsChange: status === 'unchanged' ? 0 : unitsChange,
+      bookCostBefore: previous?.bookCost ?? 0,
+      bookCostAfter: current?.bookCost ?? 0,
+      valueBefore: previous?.marketValue ?? 0,
+      valueAfter: current?.marketValue ?? 0,
+    };
+  });
+
+  // Biggest moves first, measured by the change in book cost
+  changes.sort(
+    (a, b) =>
+      Math.abs(b.bookCostAfter - b.bookCostBefore) - Math.abs(a.bookCostAfter - a.bookCostBefore) ||
+      a.name.localeCompare(b.name)
+  );
+
+  const count = (status: HoldingChangeStatus) => changes.filter((c) => c.status === status).length;
+
+  return {
+    changes,
+    newPositions: count('new'),
+    closedPositions: count('closed'),
+    increasedPositions: count('increased'),
+    reducedPositions: count('reduced'),
+    unchangedPositions: count('unchanged'),
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Fund holdings history and turnover
+ */
+
+import type { FundHolding, FundHoldingsChanges, FundPositionChange, HoldingChangeStatus } from '@/types';
+import { createSecurityMatcher } from './securities';
+
+// Providers report weights to two decimal places; ignore rounding noise
+const WEIGHT_TOLERANCE = 0.005;
+
+/**
+ * Compare a fund's underlying holdings on two dates
+ *
+ * Turnover is estimated as half the sum of absolute weight changes - the
+ * share of the fund that would have to be sold and bought to get from one
+ * set of holdings to the other. Weights also move with prices, so this is
+ * an upper bound on what the manager traded.
+ *
+ * @param before - Holdings on the earlier date
+ * @param after - Holdings on the later date
+ * @returns Per-position changes (biggest weight change first), counts by status and turnover
+ *
+ * @example
+ * const changes = compareFundHoldings(
+ *   [{ name: 'Apple Inc', weightPercent: 5 }, { name: 'Shell plc', weightPercent: 2 }],
+ *   [{ name: 'APPLE INC', weightPercent: 6 }, { name: 'Nestle SA', weightPercent: 1 }]
+ * );
+ * // changes.removedPositions === 1, changes.turnoverPercent === 2
+ */
+export function compareFundHoldings(before: FundHolding[], after: FundHolding[]): FundHoldingsChanges {
+  const match = createSecurityMatcher();
+  const positions = new Map<number, { holding: FundHolding; weightBefore: number; weightAfter: number }>();
+
+  const add = (holdings: FundHolding[], side: 'weightBefore' | 'weightAfter') => {
+    for (const h of holdings) {
+      const id = match(h);
+      let position = positions.get(id);
+      if (!position) {
+        position = { holding: h, weightBefore: 0, weightAfter: 0 };
+        positions.set(id, position);
+      }
+      // A fund can list the same security twice (e.g. two share lines)
+      position[side] += h.weightPercent;
+    }
+  };
+  add(before, 'weightBefore');
+  add(after, 'weightAfter');
+
+  const beforeIds = new Set(before.map(match));
+  const afterIds = new Set(after.map(match));
+
+  const changes: FundPositionChange[] = [];
+  positions.forEach(({ holding, weightBefore, weightAfter }, id) => {
+    const weightChange = weightAfter - weightBefore;
+
+    let status: HoldingChangeStatus;
+    if (!beforeIds.has(id)) {
+      status = 'new';
+    } else if (!afterIds.has(id)) {
+      status = 'closed';
+    } else if (weightChange > WEIGHT_TOLERANCE) {
+      status = 'increased';
+    } else if (weightChange < -WEIGHT_TOLERANCE) {
+      status = 'reduced';
+    } else {
+      status = 'unchanged';
+    }
+
+    changes.push({
+      securityId: holding.securityId,
+      symbol: holding.symbol ?? holding.ticker,
+      name: holding.name,
+      status,
+      weightBefore,
+      weightAfter,
+      weightChange: status === 'unchanged' ? 0 : weightChange,
+    });
+  });
+
+  changes.sort(
+    (a, b) => Math.abs(b.weightChange) - Math.abs(a.weightChange) || a.name.localeCompare(b.name)
+  );
+
+  const count = (status: HoldingChangeStatus) => changes.filter((c) => c.status === status).length;
+
+  return {
+    changes,
+    newPositions: count('new'),
+    closedPositions: count('closed'),
+    increasedPositions: count('increased'),
+    reducedPositions: count('reduced'),
+    unchangedPositions: count('unchanged'),
+    turnoverPercent: changes.reduce((sum, c) => sum + Math.abs(c.weightChange), 0) / 2,
+  };
+}
@@ -3,7 +3,7 @@
  */
 
 /**
- * Format a number as GBP currency
+ * Format a number as currency (GBP unless another currency is given)
  *
  * @param value - The numeric value to format
  * @param options - Formatting options
@@ -12,22 +12,38 @@
  * @example
  * formatCurrency(1234.56) // "£1,235"
  * formatCurrency(1234.56, { minimumFractionDigits: 2 }) // "£1,234.56"
+ * formatCurrency(1234.56, { currency: 'USD' }) // "US$1,235"
  */
 export function formatCurrency(
   value: number,
   options?: {
     minimumFractionDigits?: number;
     maximumFractionDigits?: number;
+    currency?: string;
   }
 ): string {
   return new Intl.NumberFormat('en-GB', {
     style: 'currency',
-    currency: 'GBP',
+    currency: options?.currency ?? 'GBP',
     minimumFractionDigits: options?.minimumFractionDigits ?? 0,
     maximumFractionDigits: options?.maximumFractionDigits ?? 0,
   }).format(value);
 }
 
+/**
+ * Get the symbol for a currency, for compact labels such as chart axes
+ *
+ * @example
+ * getCurrencySymbol('GBP') // "£"
+ * getCurrencySymbol('EUR') // "€"
+ */
+export function getCurrencySymbol(currency: string = 'GBP'): string {
+  const part = new Intl.NumberFormat('en-GB', { style: 'currency', currency })
+    .formatToParts(0)
+    .find((p) => p.type === 'currency');
+  return part?.value ?? currency;
+}
+
 /**
  * Format a number as a percentage
  *
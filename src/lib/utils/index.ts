@@ -7,6 +7,7 @@
 // Formatters
 export {
   formatCurrency,
+  getCurrencySymbol,
   formatPercent,
   formatDate,
   truncateName,
@@ -29,5 +30,91 @@ export { getSortIcon, TABLE_HEADER_CLASSES } from './tables/sorting';
 
 // Calculation utilities
 export { calculateGainLoss, calculatePortfolioSummary } from './calculations/portfolio';
-export { filterByDateRange, rebasePercentageData } from './calculations/dates';
+export {
+  filterByDateRange,
+  rebasePercentageData,
+  getFinancialYearStart,
+  getTaxYear,
+  getTaxYearRange,
+  isIsoDate,
+} from './calculations/dates';
 export { sortHoldingsByWeight, getTopHoldingsWithOthers } from './calculations/holdings';
+export { buildPositionLedger, getPositionAtDate, getPositionKey } from './calculations/ledger';
+export type { LedgerTransaction } from './calculations/ledger';
+export {
+  buildCashFlows,
+  alignCashFlows,
+  mergeCashFlows,
+  calculateTimeWeightedReturn,
+  calculateXIRR,
+  calculateMoneyWeightedReturn,
+  annualiseReturn,
+  calculateReturns,
+} from './calculations/returns';
+export {
+  DEFAULT_RISK_FREE_RATE,
+  buildGrowthIndex,
+  findDrawdownEpisodes,
+  calculateUnderwaterSeries,
+  getWorstDrawdowns,
+  calculateRiskMetrics,
+} from './calculations/risk';
+export { calculateCapitalGains, summariseTaxYear, ANNUAL_EXEMPT_AMOUNTS } from './calculations/cgt';
+export type { CgtTransaction } from './calculations/cgt';
+export { extractIncomePayments, buildIncomeSummary } from './calculations/income';
+export { diffHoldingsSnapshots } from './calculations/snapshots';
+export {
+  SUPPORTED_CURRENCIES,
+  getCurrencyPair,
+  parseCurrencyPair,
+  createRateLookup,
+  convertPrices,
+} from './calculations/fx';
+export type { RateLookup } from './calculations/fx';
+export {
+  UNKNOWN_EXPOSURE,
+  getCountryCurrency,
+  getTickerCurrency,
+  getHoldingCurrency,
+  getHoldingRegion,
+  getHoldingSector,
+  calculateExposure,
+  calculateCurrencyExposure,
+  calculateSectorExposure,
+  calculateRegionExposure,
+} from './calculations/exposure';
+export {
+  STRONG_IDENTIFIERS,
+  normaliseSecurityName,
+  getSecurityIdentifiers,
+  hasConflictingIdentifier,
+  createSecurityMatcher,
+} from './calculations/securities';
+export { aggregateLookthroughHoldings } from './calculations/lookthrough';
+export { calculateFundOverlap } from './calculations/overlap';
+export { compareFundHoldings } from './calculations/turnover';
+export {
+  BENCHMARK_KEY,
+  normaliseBenchmarkSymbol,
+  getBenchmarkGrowth,
+  addBenchmarkGrowth,
+  simulateBenchmarkValue,
+  getBenchmarkReturn,
+} from './calculations/benchmarks';
+export {
+  MIN_CORRELATION_OBSERVATIONS,
+  pearsonCorrelation,
+  alignReturns,
+  calculateCorrelationMatrix,
+} from './calculations/correlation';
+export {
+  PORTFOLIO_KEY,
+  calculateRollingReturns,
+  summariseRollingReturns,
+} from './calculations/rolling';
+export {
+  getAnnualPeriod,
+  calculateAnnualReturns,
+} from './calculations/annual';
+export { buildPortfolioHistory } from './calculations/history';
+export type { HistoryPosition, PortfolioHistory } from './calculations/history';
@@ -0,0 +1,23 @@
+/**
+ * Account (tax wrapper) types
+ */
+
+/**
+ * Kind of account a holding sits in. Only Trading accounts are liable
+ * to Capital Gains Tax; ISA and SIPP gains are sheltered.
+ */
+export type AccountType = 'ISA' | 'SIPP' | 'Trading';
+
+export interface Account {
+  id: number;
+  name: string;
+  type: AccountType;
+}
+
+export interface AccountSummary extends Account {
+  holdingsCount: number;
+  totalValue: number;
+  totalInvested: number;
+  gainLoss: number;
+  gainLossPercent: number;
+}
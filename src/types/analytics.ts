@@ -0,0 +1,59 @@
+/**
+ * Portfolio analytics types
+ */
+
+/**
+ * How often returns are sampled: every trading day, or the last price each week
+ */
+export type ReturnFrequency = 'daily' | 'weekly';
+
+/**
+ * How closely two funds' returns moved together
+ */
+export interface FundCorrelationPair {
+  fundA: string;
+  fundB: string;
+  /** Pearson correlation from -1 to 1, or null with too few shared dates */
+  correlation: number | null;
+  /** Number of returns compared */
+  observations: number;
+}
+
+/**
+ * Lengths of rolling return window offered, in years
+ */
+export type RollingWindowYears = 1 | 3 | 5;
+
+/**
+ * The spread of rolling returns a fund or the portfolio has had. Values are
+ * annualised percentages.
+ */
+export interface RollingReturnSummary {
+  /** Return over the window ending on the latest date */
+  latest: number;
+  min: number;
+  median: number;
+  max: number;
+  /** Share of windows with a positive return, as a percentage */
+  positivePercent: number;
+  /** Number of windows measured */
+  observations: number;
+}
+
+/**
+ * Years that discrete annual returns are measured over: calendar years, or
+ * UK tax years starting 6 April
+ */
+export type AnnualReturnBasis = 'calendar' | 'tax';
+
+/**
+ * Return of a fund, the portfolio or a benchmark over a single year
+ */
+export interface AnnualReturn {
+  /** Year label, e.g. "2024" or "2024-25" */
+  period: string;
+  /** Percentage return over the year, or null if the series has no values in it */
+  returnPercent: number | null;
+  /** Whether the series starts or ends part way through the year */
+  partial: boolean;
+}
@@ -3,15 +3,157 @@
  */
 
 import { Holding, PortfolioSummary, PortfolioHistoryPoint } from './holdings';
-import { FundDetail, FundPerformancePoint } from './funds';
+import { FundDetail, FundHoldingsChanges, FundPerformancePoint } from './funds';
+import { CashFlow } from './transactions';
+import { CgtTaxYearReport } from './tax';
+import { HoldingsDiff, ImportSnapshot, SnapshotHolding } from './imports';
+import { FundFetchResult, ProgressUpdate } from './providers';
+import { Job, JobStatus } from './jobs';
+import { PriceSourceSummary } from './prices';
+import { PricePoint } from './common';
+import { ExposureBreakdown, FundOverlapPair, LookthroughHolding } from './exposure';
+import {
+  FundCorrelationPair,
+  ReturnFrequency,
+  RollingReturnSummary,
+  RollingWindowYears,
+  AnnualReturnBasis,
+  AnnualReturn,
+} from './analytics';
 
 export interface PortfolioResponse {
   holdings: Holding[];
   portfolioHistory: PortfolioHistoryPoint[];
   fundPerformance: FundPerformancePoint[];
+  cashFlows: CashFlow[];
   fundNames: string[];
   fundLabels: Record<string, string>;
+  /** Currency values are in: the base currency or GBP as asked for, and GBP until the base currency's rates are cached */
+  currency: string;
+  /** Funds whose prices are being refreshed in the background */
+  refreshing: string[];
+  /** Currency pairs (e.g. 'USDGBP') whose rates are being refreshed in the background */
+  ratesRefreshing: string[];
   summary: PortfolioSummary | null;
 }
 
 export interface FundDetailResponse extends FundDetail {}
+
+export interface HoldingsImportResponse {
+  success: true;
+  exportType: 'holdings';
+  accountId: number;
+  importId: number;
+  fundsImported: number;
+  holdings: SnapshotHolding[];
+  holdingsResults: FundFetchResult[];
+  errors: string[];
+}
+
+/**
+ * One line of the NDJSON stream from /api/import (requested with
+ * `Accept: application/x-ndjson`) while fund holdings are being fetched
+ */
+export type ImportStreamEvent =
+  | { type: 'start'; funds: Array<{ symbol: string; name: string }> }
+  | { type: 'progress'; update: ProgressUpdate }
+  | { type: 'complete'; result: HoldingsImportResponse }
+  | { type: 'error'; error: string };
+
+export interface ImportDiffResponse extends HoldingsDiff {
+  from: ImportSnapshot | null;
+  to: ImportSnapshot;
+}
+
+export interface CgtReportResponse extends CgtTaxYearReport {
+  availableYears: string[];
+}
+
+export interface JobsResponse {
+  jobs: Job[];
+  counts: Record<JobStatus, number>;
+}
+
+export interface PriceSourceResponse {
+  symbol: string;
+  /** Source chosen by hand, or null to detect one automatically */
+  pinned: string | null;
+  available: Array<{ name: string; displayName: string }>;
+  sources: PriceSourceSummary[];
+}
+
+export interface ExposureResponse {
+  /** Underlying currency exposure, valued in GBP */
+  currency: ExposureBreakdown;
+  /** Sectors of the underlying holdings, valued in GBP */
+  sector: ExposureBreakdown;
+  /** Regions the underlying holdings are listed in, valued in GBP */
+  region: ExposureBreakdown;
+  /** Funds whose look-through holdings (or their sectors and countries) are being fetched in the background */
+  refreshing: string[];
+}
+
+export interface LookthroughResponse {
+  holdings: LookthroughHolding[];
+  /** Portfolio value the weights are a share of, in GBP */
+  totalValue: number;
+  /** Share of the portfolio's value with look-through data behind it */
+  coveragePercent: number;
+  /** Funds whose look-through holdings are being fetched in the background */
+  refreshing: string[];
+}
+
+export interface FundOverlapResponse {
+  funds: Array<{
+    symbol: string;
+    name: string;
+    /** Date of the holdings compared, or null if none are cached */
+    asOfDate: string | null;
+    numberOfHoldings: number;
+  }>;
+  pairs: FundOverlapPair[];
+  /** Funds whose look-through holdings are being fetched in the background */
+  refreshing: string[];
+}
+
+export interface FundHoldingsHistoryResponse {
+  fundSymbol: string;
+  /** As-of dates with cached holdings, newest first */
+  dates: string[];
+  /** Changes between the two dates compared, or null until two dates are cached */
+  comparison: (FundHoldingsChanges & { from: string; to: string }) | null;
+}
+
+export interface BenchmarkResponse {
+  symbol: string;
+  /** Daily prices in the requested currency; any without an exchange rate yet are left out */
+  prices: PricePoint[];
+  /** Whether prices or exchange rates are being fetched in the background */
+  refreshing: boolean;
+}
+
+export interface CorrelationResponse {
+  funds: Array<{ symbol: string; name: string }>;
+  pairs: FundCorrelationPair[];
+  frequency: ReturnFrequency;
+  /** Funds whose prices are being refreshed in the background */
+  refreshing: string[];
+}
+
+export interface RollingReturnsResponse {
+  years: RollingWindowYears;
+  /** Annualised return over the window ending on each date, by fund symbol */
+  series: FundPerformancePoint[];
+  funds: Array<{ symbol: string; name: string; summary: RollingReturnSummary | null }>;
+  /** Funds whose prices are being refreshed in the background */
+  refreshing: string[];
+}
+
+export interface AnnualReturnsResponse {
+  basis: AnnualReturnBasis;
+  funds: Array<{ symbol: string; name: string; returns: AnnualReturn[] }>;
+  /** The portfolio's benchmark, if one is set */
+  benchmark: { symbol: string; returns: AnnualReturn[] } | null;
+  /** Funds and benchmark whose prices are being refreshed in the background */
+  refreshing: string[];
+}
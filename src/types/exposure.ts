@@ -0,0 +1,71 @@
+/**
+ * Look-through exposure types
+ */
+
+import { FundHolding } from './funds';
+
+/**
+ * One part of the portfolio in an exposure breakdown, such as a currency
+ */
+export interface ExposureSlice {
+  name: string;
+  value: number;
+  percentage: number;
+}
+
+/**
+ * A portfolio broken down by what its funds hold underneath
+ */
+export interface ExposureBreakdown {
+  /** Largest first, with the unknown part (if any) last */
+  slices: ExposureSlice[];
+  /** Share of the portfolio's value with look-through data behind it */
+  coveragePercent: number;
+}
+
+/**
+ * A fund's part in a look-through holding
+ */
+export interface LookthroughFund {
+  symbol: string;
+  name: string;
+  /** The security's weight in the fund, as a percentage */
+  weightPercent: number;
+  /** Value held through this fund, in GBP */
+  value: number;
+}
+
+/**
+ * An underlying security held through one or more funds, merged across them
+ */
+export interface LookthroughHolding extends FundHolding {
+  /** Share of the portfolio's value, as a percentage */
+  weightPercent: number;
+  /** Value held across all funds, in GBP */
+  marketValue: number;
+  /** Funds holding the security, biggest contribution first */
+  funds: LookthroughFund[];
+}
+
+/**
+ * A security two funds both hold
+ */
+export interface SharedSecurity {
+  name: string;
+  /** Weight in the first fund, as a percentage */
+  weightA: number;
+  /** Weight in the second fund, as a percentage */
+  weightB: number;
+}
+
+/**
+ * How much of two funds is the same: the sum of the smaller weight of each
+ * security they share
+ */
+export interface FundOverlapPair {
+  fundA: string;
+  fundB: string;
+  overlapPercent: number;
+  /** Shared securities, biggest overlap first */
+  shared: SharedSecurity[];
+}
@@ -2,6 +2,10 @@
  * Fund-related types
  */
 
+import { CashFlow } from './transactions';
+import { SourcedPricePoint } from './prices';
+import { HoldingChangeStatus } from './imports';
+
 export interface FundDetail {
   symbol: string;
   sedol?: string;
@@ -13,8 +17,14 @@ export interface FundDetail {
   gainLoss: number;
   gainLossPercent: number;
   hasYahooSymbol: boolean;
-  priceHistory: Array<{ date: string; price: number }>;
+  hasTransactionHistory: boolean;
+  priceHistory: SourcedPricePoint[];
+  /** Whether newer prices are being fetched in the background */
+  pricesRefreshing: boolean;
   valueHistory: Array<{ date: string; value: number }>;
+  cashFlows: CashFlow[];
+  /** Symbol the fund is compared against, or null for none */
+  benchmark: string | null;
 }
 
 /**
@@ -22,6 +32,8 @@ export interface FundDetail {
  * This matches the database schema column name (weight_percent)
  */
 export interface FundHolding {
+  /** Canonical security this holding is linked to in the security master */
+  securityId?: number;
   symbol?: string;
   name: string;
   cusip?: string;
@@ -37,6 +49,8 @@ export interface FundHolding {
   value?: number;
   sector?: string;
   country?: string;
+  /** Currency the holding is priced in (ISO code, e.g. 'USD') */
+  currency?: string;
 }
 
 export interface FundHoldingsData {
@@ -46,6 +60,37 @@ export interface FundHoldingsData {
   numberOfHoldings: number;
   holdings: FundHolding[];
   topHoldings: FundHolding[];
+  /** Whether newer holdings are being fetched in the background */
+  refreshing?: boolean;
+}
+
+/**
+ * How one of a fund's underlying positions changed between two holdings dates
+ */
+export interface FundPositionChange {
+  securityId?: number;
+  symbol?: string;
+  name: string;
+  status: HoldingChangeStatus;
+  /** Weight in the fund on each date, as a percentage */
+  weightBefore: number;
+  weightAfter: number;
+  weightChange: number;
+}
+
+/**
+ * Differences between a fund's holdings on two dates, one entry per security
+ * held on either of them
+ */
+export interface FundHoldingsChanges {
+  changes: FundPositionChange[];
+  newPositions: number;
+  closedPositions: number;
+  increasedPositions: number;
+  reducedPositions: number;
+  unchangedPositions: number;
+  /** Estimated turnover: half the sum of absolute weight changes, as a percentage */
+  turnoverPercent: number;
 }
 
 export interface FundPerformancePoint {
@@ -0,0 +1,38 @@
+/**
+ * Currency and exchange rate types
+ */
+
+/**
+ * Units of the quote currency one unit of the base currency buys on a date
+ */
+export interface FxRatePoint {
+  date: string;
+  rate: number;
+}
+
+/**
+ * Base interface for all exchange rate sources
+ */
+export interface FxProvider {
+  name: string;
+  displayName: string;
+  priority: number;
+
+  /**
+   * Fetch daily rates for converting `from` into `to` between two dates
+   * (empty if the source doesn't have the pair)
+   */
+  fetchRates: (from: string, to: string, startDate: Date, endDate: Date) => Promise<FxRatePoint[]>;
+}
+
+/**
+ * User settings stored in the database
+ */
+export interface AppSettings {
+  /** Currency portfolio values are shown in */
+  baseCurrency: string;
+  /** Symbol the portfolio is compared against, or null for none */
+  benchmark: string | null;
+  /** Annual risk-free rate for Sharpe and Sortino ratios, as a percentage */
+  riskFreeRate: number;
+}
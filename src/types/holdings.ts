@@ -13,6 +13,7 @@ export interface Holding {
   gainLoss: number;
   gainLossPercent: number;
   hasYahooSymbol: boolean;
+  income12m: number; // Dividends received in the last 12 months
 }
 
 export interface PortfolioSummary {
@@ -27,3 +28,9 @@ export interface PortfolioHistoryPoint {
   value: number;
   invested: number;
 }
+
+export interface PerformanceReturns {
+  timeWeighted: number | null;
+  timeWeightedAnnualised: number | null;
+  moneyWeighted: number | null;
+}
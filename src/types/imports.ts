@@ -0,0 +1,64 @@
+/**
+ * Import history types: holdings snapshots and transaction imports
+ */
+
+import { ExportType } from './transactions';
+
+/**
+ * An import into one account: a holdings statement, stored as a dated
+ * snapshot, or a transaction history export
+ */
+export interface ImportSnapshot {
+  id: number;
+  accountId: number;
+  accountName: string;
+  type: Exclude<ExportType, 'unknown'>;
+  filename: string | null;
+  importedAt: string;
+  holdingsCount: number;
+  /** Transactions the import added (transaction imports only) */
+  transactionsCount: number;
+  totalValue: number;
+  totalInvested: number;
+}
+
+/**
+ * A fund as recorded in a snapshot
+ */
+export interface SnapshotHolding {
+  symbol: string;
+  name: string;
+  quantity: number;
+  bookCost: number;
+  marketValue: number;
+}
+
+export type HoldingChangeStatus = 'new' | 'closed' | 'increased' | 'reduced' | 'unchanged';
+
+/**
+ * How one fund changed between two snapshots
+ */
+export interface HoldingChange {
+  symbol: string;
+  name: string;
+  status: HoldingChangeStatus;
+  unitsBefore: number;
+  unitsAfter: number;
+  unitsChange: number;
+  bookCostBefore: number;
+  bookCostAfter: number;
+  valueBefore: number;
+  valueAfter: number;
+}
+
+/**
+ * Differences between two snapshots, one entry per fund in either of them
+ */
+export interface HoldingsDiff {
+  changes: HoldingChange[];
+  newPositions: number;
+  closedPositions: number;
+  increasedPositions: number;
+  reducedPositions: number;
+  unchangedPositions: number;
+}
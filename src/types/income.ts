@@ -0,0 +1,39 @@
+/**
+ * Dividend and distribution income types
+ */
+
+export interface IncomePayment {
+  date: string;
+  symbol: string;
+  name: string;
+  amount: number;
+}
+
+export interface FundIncome {
+  symbol: string;
+  name: string;
+  total: number;
+  trailing12m: number;
+  yieldOnCost: number | null;
+  yieldOnValue: number | null;
+}
+
+/**
+ * Income for one calendar month, with a key per fund symbol for stacked charts
+ */
+export interface IncomeMonthPoint {
+  date: string; // First day of the month (YYYY-MM-01)
+  total: number;
+  [symbol: string]: number | string;
+}
+
+export interface IncomeSummary {
+  payments: IncomePayment[];
+  byFund: FundIncome[];
+  byMonth: IncomeMonthPoint[];
+  byTaxYear: Array<{ taxYear: string; total: number }>;
+  total: number;
+  trailing12m: number;
+  yieldOnCost: number | null;
+  yieldOnValue: number | null;
+}
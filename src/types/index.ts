@@ -9,19 +9,112 @@
 export type { DataQuality, FetchStatus, DateRange, PricePoint } from './common';
 
 // Holdings types
-export type { Holding, PortfolioSummary, PortfolioHistoryPoint } from './holdings';
+export type {
+  Holding,
+  PortfolioSummary,
+  PortfolioHistoryPoint,
+  PerformanceReturns,
+} from './holdings';
+
+// Account types
+export type { AccountType, Account, AccountSummary } from './accounts';
 
 // Fund types
 export type {
   FundDetail,
   FundHolding,
   FundHoldingsData,
+  FundPositionChange,
+  FundHoldingsChanges,
   FundPerformancePoint,
   FundMetadata,
 } from './funds';
 
+// Transaction types
+export type {
+  TransactionType,
+  ExportType,
+  PositionLedgerEntry,
+  CashFlow,
+} from './transactions';
+
+// Import snapshot types
+export type {
+  ImportSnapshot,
+  SnapshotHolding,
+  HoldingChangeStatus,
+  HoldingChange,
+  HoldingsDiff,
+} from './imports';
+
+// Background job types
+export type { JobType, JobStatus, JobPayload, Job } from './jobs';
+
+// Income types
+export type { IncomePayment, FundIncome, IncomeMonthPoint, IncomeSummary } from './income';
+
+// Tax types
+export type { CgtMatchRule, CgtMatch, CgtDisposal, CgtTaxYearReport } from './tax';
+
 // API types
-export type { PortfolioResponse, FundDetailResponse } from './api';
+export type {
+  PortfolioResponse,
+  FundDetailResponse,
+  HoldingsImportResponse,
+  ImportStreamEvent,
+  ImportDiffResponse,
+  CgtReportResponse,
+  JobsResponse,
+  PriceSourceResponse,
+  ExposureResponse,
+  LookthroughResponse,
+  FundOverlapResponse,
+  FundHoldingsHistoryResponse,
+  BenchmarkResponse,
+  CorrelationResponse,
+  RollingReturnsResponse,
+  AnnualReturnsResponse,
+} from './api';
+
+// Price source types
+export type {
+  PriceSecurity,
+  PriceSeries,
+  SourcedPricePoint,
+  PriceSourceSummary,
+  PriceProviderInfo,
+  PriceDetectionResult,
+  PriceProvider,
+} from './prices';
+
+// Currency types
+export type { FxRatePoint, FxProvider, AppSettings } from './fx';
+
+// Risk analytics types
+export type { DrawdownEpisode, DrawdownPoint, RiskMetrics } from './risk';
+
+// Analytics types
+export type {
+  ReturnFrequency,
+  FundCorrelationPair,
+  RollingWindowYears,
+  RollingReturnSummary,
+  AnnualReturnBasis,
+  AnnualReturn,
+} from './analytics';
+
+// Security master types
+export type { SecurityIdentifierType, SecurityIdentifier, Security } from './securities';
+
+// Look-through exposure types
+export type {
+  ExposureSlice,
+  ExposureBreakdown,
+  LookthroughFund,
+  LookthroughHolding,
+  SharedSecurity,
+  FundOverlapPair,
+} from './exposure';
 
 // Database types
 export type {
@@ -0,0 +1,43 @@
+/**
+ * Background job queue types
+ */
+
+/**
+ * Kinds of background job
+ * - refresh-prices: fetch any missing historical prices for a fund
+ * - refresh-fund-holdings: fetch a fund's underlying holdings (look-through)
+ * - refresh-fx: fetch any missing exchange rates for a currency pair
+ * - refresh-holding-details: look up sector and country for a fund's
+ *   underlying holdings that its provider didn't give them for
+ */
+export type JobType = 'refresh-prices' | 'refresh-fund-holdings' | 'refresh-fx' | 'refresh-holding-details';
+
+/**
+ * Where a job is in its lifecycle. Failed attempts go back to pending until
+ * the job runs out of attempts.
+ */
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * What a job works on: a fund symbol, or a currency pair such as 'USDGBP'
+ */
+export interface JobPayload {
+  symbol: string;
+}
+
+/**
+ * A queued background job
+ */
+export interface Job {
+  id: number;
+  type: JobType;
+  payload: JobPayload;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  lastError: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
@@ -0,0 +1,79 @@
+/**
+ * Price source types for historical price fetchers
+ */
+
+import { PricePoint } from './common';
+
+/**
+ * What we know about a fund when looking up its prices
+ */
+export interface PriceSecurity {
+  symbol: string;
+  sedol?: string;
+  name?: string;
+  isin?: string;
+  morningstarId?: string;
+}
+
+/**
+ * Prices fetched from one source, in the currency it quoted
+ */
+export interface PriceSeries {
+  prices: PricePoint[];
+  currency: string;
+}
+
+/**
+ * A cached price with the source it came from (null if cached before
+ * sources were recorded) and the currency it's quoted in
+ */
+export interface SourcedPricePoint extends PricePoint {
+  source: string | null;
+  currency: string;
+}
+
+/**
+ * The cached prices for a fund that came from one source
+ */
+export interface PriceSourceSummary {
+  source: string | null;
+  currency: string;
+  count: number;
+  firstDate: string;
+  lastDate: string;
+  lastFetched: string | null;
+}
+
+/**
+ * A price source that can be tried for a fund
+ */
+export interface PriceProviderInfo {
+  provider: string;
+  confidence: number;
+}
+
+/**
+ * Price sources to try for a fund, most confident first
+ */
+export interface PriceDetectionResult {
+  providers: PriceProviderInfo[];
+}
+
+/**
+ * Base interface for all historical price sources
+ */
+export interface PriceProvider {
+  name: string;
+  displayName: string;
+
+  /**
+   * How confident we are (0-100) that this source has prices for the fund,
+   * or null if it can't be used for it at all
+   */
+  detect: (security: PriceSecurity) => number | null;
+
+  /**
+   * Fetch daily prices between two dates (empty if none were found)
+   */
+  fetchPrices: (security: PriceSecurity, startDate: Date, endDate: Date) => Promise<PriceSeries>;
+}
@@ -0,0 +1,43 @@
+/**
+ * Risk analytics types
+ */
+
+/**
+ * A fall from a high-water mark and the climb back to it
+ */
+export interface DrawdownEpisode {
+  /** Date of the high-water mark the fall started from */
+  peakDate: string;
+  /** Date of the lowest point */
+  troughDate: string;
+  /** First date back at the high-water mark, or null if it hasn't recovered */
+  recoveryDate: string | null;
+  /** Fall from peak to trough, as a negative percentage */
+  depthPercent: number;
+}
+
+/**
+ * How far below its high-water mark a series was on a date
+ */
+export interface DrawdownPoint {
+  date: string;
+  /** Zero at a new high, otherwise negative */
+  drawdownPercent: number;
+}
+
+/**
+ * How bumpy the ride was over a period. Percentages are annualised; values
+ * are null where there's too little data to measure them.
+ */
+export interface RiskMetrics {
+  /** Standard deviation of returns */
+  volatility: number | null;
+  /** Deepest drawdown in the period */
+  maxDrawdown: DrawdownEpisode | null;
+  /** Return above the risk-free rate per unit of volatility */
+  sharpeRatio: number | null;
+  /** Return above the risk-free rate per unit of downside volatility */
+  sortinoRatio: number | null;
+  /** Risk-free rate the ratios were measured against, as a percentage */
+  riskFreeRate: number;
+}
@@ -0,0 +1,24 @@
+/**
+ * Security master types
+ */
+
+/**
+ * Kinds of identifier a security can be known by. Names are stored normalised.
+ */
+export type SecurityIdentifierType = 'isin' | 'cusip' | 'sedol' | 'ticker' | 'name';
+
+export interface SecurityIdentifier {
+  type: SecurityIdentifierType;
+  value: string;
+}
+
+/**
+ * A canonical security that fund holdings from every provider are linked to
+ */
+export interface Security {
+  id: number;
+  name: string;
+  sector?: string;
+  country?: string;
+  identifiers: SecurityIdentifier[];
+}
@@ -0,0 +1,42 @@
+/**
+ * UK Capital Gains Tax types
+ */
+
+/**
+ * HMRC share matching rule applied to (part of) a disposal
+ */
+export type CgtMatchRule = 'same-day' | 'bed-and-breakfast' | 'section-104';
+
+export interface CgtMatch {
+  rule: CgtMatchRule;
+  units: number;
+  cost: number;
+  acquisitionDate?: string; // Not set for Section 104 pool matches
+}
+
+export interface CgtDisposal {
+  date: string;
+  taxYear: string;
+  symbol: string;
+  name: string;
+  units: number;
+  proceeds: number;
+  allowableCost: number;
+  gain: number;
+  matches: CgtMatch[];
+  unmatchedUnits: number; // Units sold with no acquisition on record (treated as nil cost)
+}
+
+export interface CgtTaxYearReport {
+  taxYear: string;
+  startDate: string;
+  endDate: string;
+  disposals: CgtDisposal[];
+  totalProceeds: number;
+  totalAllowableCost: number;
+  totalGains: number;
+  totalLosses: number;
+  netGain: number;
+  annualExemptAmount: number | null;
+  taxableGain: number | null;
+}
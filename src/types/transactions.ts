@@ -0,0 +1,39 @@
+/**
+ * Transaction history types
+ */
+
+/**
+ * Normalised transaction categories from the ii.co.uk transactions export
+ */
+export type TransactionType =
+  | 'buy'
+  | 'sell'
+  | 'dividend'
+  | 'interest'
+  | 'fee'
+  | 'subscription'
+  | 'withdrawal'
+  | 'transfer'
+  | 'other';
+
+/**
+ * Which ii.co.uk export a CSV file contains
+ */
+export type ExportType = 'holdings' | 'transactions' | 'unknown';
+
+/**
+ * Position in a single fund as of a date, reconstructed from transactions
+ */
+export interface PositionLedgerEntry {
+  date: string;
+  units: number;
+  invested: number;
+}
+
+/**
+ * External cash flow into (positive) or out of (negative) a position
+ */
+export interface CashFlow {
+  date: string;
+  amount: number;
+}